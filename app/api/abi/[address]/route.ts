@@ -0,0 +1,130 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { NextResponse } from "next/server";
+import { ChainConfig, explorerApiUrl, findChain } from "@/lib/chains";
+
+// Etherscan ABI proxy: keeps the API key on the server and caches answers on disk (see lib/etherscan.ts).
+// Contracts Etherscan flags as proxies are followed one hop to their implementation.
+
+const API_KEY = process.env.ETHERSCAN_API_KEY || process.env.NEXT_PUBLIC_ETHERSCAN_API_KEY;
+const CACHE_DIR = process.env.ABI_CACHE_DIR || path.join(process.cwd(), ".cache", "abi");
+const TTL_MS = Number(process.env.ABI_CACHE_TTL || 24 * 60 * 60) * 1000;
+const MISS_TTL_MS = 10 * 60 * 1000; // unverified contracts may get verified soon
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/;
+
+type Params = { params: Promise<{ address: string }> };
+
+type SourceInfo = {
+  verified: boolean;
+  abi?: any[];
+  name?: string;
+  implementation?: string;    // set when Etherscan flags the contract as a proxy
+};
+
+type CacheEntry = { fetchedAt: number; info: SourceInfo };
+
+class EtherscanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EtherscanError";
+  }
+}
+
+/* ----------------------------- Disk cache ----------------------------- */
+const cacheFile = (chainId: number, address: string) => path.join(CACHE_DIR, String(chainId), `${address}.json`);
+
+async function readCache(chainId: number, address: string): Promise<SourceInfo | null> {
+  try {
+    const entry: CacheEntry = JSON.parse(await fs.readFile(cacheFile(chainId, address), "utf8"));
+    const ttl = entry.info.verified ? TTL_MS : MISS_TTL_MS;
+    return Date.now() - entry.fetchedAt < ttl ? entry.info : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeCache(chainId: number, address: string, info: SourceInfo) {
+  const file = cacheFile(chainId, address);
+  const entry: CacheEntry = { fetchedAt: Date.now(), info };
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(entry), "utf8");
+  } catch (e) {
+    console.warn(`Could not cache ABI for ${address}:`, e);
+  }
+}
+
+/* ----------------------------- Etherscan ----------------------------- */
+const inFlight = new Map<string, Promise<SourceInfo>>();
+
+async function fetchSourceInfo(chain: ChainConfig, address: string): Promise<SourceInfo> {
+  const res = await fetch(
+    explorerApiUrl(chain, { module: "contract", action: "getsourcecode", address, apikey: API_KEY ?? "" })
+  );
+  if (!res.ok) throw new EtherscanError(`Etherscan HTTP ${res.status}`);
+  const data = await res.json();
+  // status 0 with a string result is a rate limit or a bad key, not an unverified contract
+  if (data.status !== "1" || !Array.isArray(data.result)) {
+    throw new EtherscanError(typeof data.result === "string" ? data.result : data.message || "Etherscan error");
+  }
+
+  const item = data.result[0] ?? {};
+  let abi: any[] | undefined;
+  try {
+    abi = JSON.parse(item.ABI);
+  } catch {
+    // "Contract source code not verified"
+  }
+  const implementation =
+    item.Proxy === "1" && ADDRESS_RE.test(item.Implementation) ? item.Implementation.toLowerCase() : undefined;
+  return { verified: Array.isArray(abi), abi, name: item.ContractName || undefined, implementation };
+}
+
+async function getSourceInfo(chain: ChainConfig, address: string): Promise<SourceInfo> {
+  const cached = await readCache(chain.id, address);
+  if (cached) return cached;
+
+  const key = `${chain.id}:${address}`;
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const run = fetchSourceInfo(chain, address).then(async (info) => {
+    await writeCache(chain.id, address, info);
+    return info;
+  });
+  inFlight.set(key, run);
+  try {
+    return await run;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+export async function GET(req: Request, { params }: Params) {
+  const { address } = await params;
+  const chain = findChain(new URL(req.url).searchParams.get("chainId"));
+  if (!ADDRESS_RE.test(address) || !chain) {
+    return NextResponse.json({ error: { message: "Invalid address or chainId" } }, { status: 400 });
+  }
+  if (!API_KEY) {
+    return NextResponse.json({ error: { message: "ETHERSCAN_API_KEY is not set on the server" } }, { status: 503 });
+  }
+
+  try {
+    const addr = address.toLowerCase();
+    const info = await getSourceInfo(chain, addr);
+    const impl =
+      info.implementation && info.implementation !== addr ? await getSourceInfo(chain, info.implementation) : null;
+    if (!info.verified && !impl?.verified) {
+      return NextResponse.json({ error: { message: `${address} is not verified` } }, { status: 404 });
+    }
+    return NextResponse.json({
+      address: addr,
+      abi: info.abi ?? [],
+      name: info.name,
+      implementation: impl?.verified ? { address: info.implementation, abi: impl.abi, name: impl.name } : undefined,
+    });
+  } catch (e: any) {
+    return NextResponse.json({ error: { message: e?.message || "Etherscan request failed" } }, { status: 502 });
+  }
+}
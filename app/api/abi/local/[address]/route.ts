@@ -0,0 +1,117 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { NextResponse } from "next/server";
+
+// Local ABIs for contracts nobody has verified (see lib/abiResolver.ts):
+//  - <ABI_DIR>/<chainId>/<address>.json or <ABI_DIR>/<address>.json (bare ABI, artifact or Sourcify metadata)
+//  - deployments in the Foundry/Hardhat project at ABI_ARTIFACTS_DIR: hardhat-deploy `deployments/`
+//    and Foundry `broadcast/*/<chainId>/run-latest.json`, matched to `out/` or `artifacts/` by contract name
+
+const ABI_DIR = process.env.ABI_DIR || path.join(process.cwd(), "abis");
+const ARTIFACTS_DIR = process.env.ABI_ARTIFACTS_DIR;
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/;
+const CHAIN_ID_RE = /^\d+$/;
+const INDEX_TTL_MS = 10_000;
+
+type Params = { params: Promise<{ address: string }> };
+type Entry = { file: string; name?: string };
+
+async function readJson(file: string): Promise<any> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+async function listDir(dir: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+}
+
+async function walkJson(dir: string, out: string[] = []): Promise<string[]> {
+  for (const name of await listDir(dir)) {
+    const full = path.join(dir, name);
+    const stat = await fs.stat(full).catch(() => null);
+    if (stat?.isDirectory()) await walkJson(full, out);
+    else if (name.endsWith(".json") && !name.endsWith(".dbg.json")) out.push(full);
+  }
+  return out;
+}
+
+/* ----------------------------- ABI folder ----------------------------- */
+async function findInAbiDir(address: string, chainId: string): Promise<Entry | null> {
+  for (const dir of [path.join(ABI_DIR, chainId), ABI_DIR]) {
+    const match = (await listDir(dir)).find((f) => f.toLowerCase() === `${address}.json`);
+    if (match) return { file: path.join(dir, match) };
+  }
+  return null;
+}
+
+/* ----------------------------- Project deployments ----------------------------- */
+let index: { builtAt: number; entries: Map<string, Entry> } | null = null;
+
+async function buildIndex(root: string): Promise<Map<string, Entry>> {
+  const entries = new Map<string, Entry>();
+
+  // hardhat-deploy: deployments/<network>/.chainId + <Name>.json with address and abi
+  for (const network of await listDir(path.join(root, "deployments"))) {
+    const dir = path.join(root, "deployments", network);
+    const chainId = (await fs.readFile(path.join(dir, ".chainId"), "utf8").catch(() => "")).trim();
+    for (const f of await listDir(dir)) {
+      if (!f.endsWith(".json")) continue;
+      const json = await readJson(path.join(dir, f));
+      if (!json?.address || !Array.isArray(json.abi)) continue;
+      entries.set(`${chainId || "*"}:${json.address.toLowerCase()}`, { file: path.join(dir, f), name: f.replace(/\.json$/, "") });
+    }
+  }
+
+  // Foundry: broadcast/<Script>/<chainId>/run-latest.json lists created contracts by name
+  const artifacts = [...(await walkJson(path.join(root, "out"))), ...(await walkJson(path.join(root, "artifacts")))];
+  const artifactByName = new Map(artifacts.map((f) => [path.basename(f, ".json"), f]));
+  for (const script of await listDir(path.join(root, "broadcast"))) {
+    for (const chainId of await listDir(path.join(root, "broadcast", script))) {
+      const run = await readJson(path.join(root, "broadcast", script, chainId, "run-latest.json"));
+      for (const tx of run?.transactions ?? []) {
+        const file = tx.contractName && tx.contractAddress && artifactByName.get(tx.contractName);
+        if (file) entries.set(`${chainId}:${tx.contractAddress.toLowerCase()}`, { file, name: tx.contractName });
+      }
+    }
+  }
+
+  return entries;
+}
+
+async function findInProject(address: string, chainId: string): Promise<Entry | null> {
+  if (!ARTIFACTS_DIR) return null;
+  if (!index || Date.now() - index.builtAt > INDEX_TTL_MS) {
+    index = { builtAt: Date.now(), entries: await buildIndex(ARTIFACTS_DIR) };
+  }
+  return index.entries.get(`${chainId}:${address}`) ?? index.entries.get(`*:${address}`) ?? null;
+}
+
+export async function GET(req: Request, { params }: Params) {
+  const { address } = await params;
+  if (!ADDRESS_RE.test(address)) {
+    return NextResponse.json({ error: { message: "Invalid address" } }, { status: 400 });
+  }
+  const addr = address.toLowerCase();
+  const chainId = new URL(req.url).searchParams.get("chainId") || "";
+  // becomes a path segment under ABI_DIR
+  if (chainId && !CHAIN_ID_RE.test(chainId)) {
+    return NextResponse.json({ error: { message: "Invalid chainId" } }, { status: 400 });
+  }
+
+  const entry = (await findInAbiDir(addr, chainId)) ?? (await findInProject(addr, chainId));
+  const json = entry && (await readJson(entry.file));
+  const abi = Array.isArray(json) ? json : json?.abi ?? json?.output?.abi;
+  if (!entry || !Array.isArray(abi)) {
+    return NextResponse.json({ error: { message: `No local ABI for ${address}` } }, { status: 404 });
+  }
+
+  const name = entry.name ?? json?.contractName ?? undefined;
+  return NextResponse.json({ abi, name, file: path.relative(process.cwd(), entry.file) });
+}
@@ -0,0 +1,57 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { NextResponse } from "next/server";
+
+// Recorded backend payloads live in <FIXTURE_DIR>/<kind>/<key>.json (see lib/fixtures.ts)
+
+const FIXTURE_DIR = process.env.FIXTURE_DIR || path.join(process.cwd(), "fixtures");
+const KINDS = new Set(["simulate", "bundle", "trace", "debug"]);
+const KEY_RE = /^[a-zA-Z0-9_-]{1,128}$/;
+
+type Params = { params: Promise<{ kind: string; key: string }> };
+
+function resolveFixturePath(kind: string, key: string): string | null {
+  if (!KINDS.has(kind) || !KEY_RE.test(key)) return null;
+  return path.join(FIXTURE_DIR, kind, `${key}.json`);
+}
+
+const recordingAllowed = () =>
+  process.env.NODE_ENV !== "production" || process.env.FIXTURE_RECORDING === "1";
+
+export async function GET(_req: Request, { params }: Params) {
+  const { kind, key } = await params;
+  const file = resolveFixturePath(kind, key);
+  if (!file) {
+    return NextResponse.json({ error: { message: "Invalid fixture path" } }, { status: 400 });
+  }
+
+  try {
+    const content = await fs.readFile(file, "utf8");
+    return new NextResponse(content, { headers: { "Content-Type": "application/json" } });
+  } catch {
+    return NextResponse.json({ error: { message: `Fixture ${kind}/${key} not found` } }, { status: 404 });
+  }
+}
+
+export async function POST(req: Request, { params }: Params) {
+  if (!recordingAllowed()) {
+    return NextResponse.json({ error: { message: "Fixture recording is disabled" } }, { status: 403 });
+  }
+
+  const { kind, key } = await params;
+  const file = resolveFixturePath(kind, key);
+  if (!file) {
+    return NextResponse.json({ error: { message: "Invalid fixture path" } }, { status: 400 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = await req.json();
+  } catch {
+    return NextResponse.json({ error: { message: "Body must be JSON" } }, { status: 400 });
+  }
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(payload, null, 2) + "\n", "utf8");
+  return NextResponse.json({ kind, key });
+}
@@ -26,7 +26,6 @@ import {
   Play,
 } from "lucide-react";
 import { useParams, useRouter } from "next/navigation";
-import { Interface } from "ethers";
 import { Switch } from "@headlessui/react";
 import ReactSwitch from "react-switch";
 import {
@@ -38,15 +37,37 @@ import {
 import { Info } from "lucide-react";
 // add with your other lucide-react imports
 import { Sparkles } from "lucide-react";
+import { SaveScenarioDialog } from "@/components/save-scenario-dialog";
+import { ShareLinkButton } from "@/components/share-link-button";
+import { decodeShareFragment, sharePayloadToQuery } from "@/lib/shareLink";
+import { PasteAbiDialog } from "@/components/paste-abi-dialog";
+import { AbiParamsForm } from "@/components/abi-param-input";
+import {
+  AbiParam,
+  AbiParamError,
+  ParamValue,
+  coerceValue,
+  emptyValue,
+  encodeFunctionInputs,
+  functionParamsIssues,
+  paramType,
+} from "@/lib/abiParams";
+import { ABI_SOURCE_LABEL, AbiSource, resolveAbi, toContractABI } from "@/lib/abiResolver";
+import { decodeCalldata, nestedDecoder } from "@/lib/calldata";
+import { ChainConfig, chainFromQuery, setSelectedChain } from "@/lib/chains";
+import { useSelectedChain } from "@/hooks/use-chain";
 
 // ---------- Types ----------
 interface ContractABI {
   functions: EtherscanFunction[];
+  source: AbiSource;
+  name?: string;
+  detail?: string;
 }
 
 interface EtherscanFunction {
   name: string;
-  inputs: Array<{ name: string; type: string }>;
+  inputs: AbiParam[];
 }
 
 interface Transaction {
@@ -64,12 +85,13 @@ interface Transaction {
   isVerifiedABI?: boolean | null;
   contractABI: ContractABI | null;
   selectedFunction: EtherscanFunction | null;
-  functionParameters: Array<{ name: string; type: string; value: string }>;
+  functionParameters: Array<{ name: string; type: string; value: ParamValue }>;
   accessList: Array<{ address: string; storageKeys: string[] }>;
 }
 
 interface BundleState {
   blockNumber: string;
+  blockPosition: string;      // "" = end of block; else replay that many of its txs first
   isAtomic: boolean;
   transactions: Transaction[];
   hypeBalanceOverrides: Array<{ key: string; value: string }>;
@@ -80,61 +102,64 @@ interface BundleState {
 }
 
 // ---------- Helpers ----------
-const ETHERSCAN_API = process.env.NEXT_PUBLIC_ETHERSCAN_API_KEY;
-
 const fetchContractABI = async (
-  address: string
+  address: string,
+  chain: ChainConfig
 ): Promise<ContractABI | null> => {
   try {
-    const res = await fetch(
-      `https://api.etherscan.io/v2/api?chainid=999&module=contract&action=getabi&address=${address}&apikey=${ETHERSCAN_API}`
-    );
-    const data = await res.json();
-    if (data.status !== "1") return null;
-
-    const parsed = JSON.parse(data.result);
-    const functions = parsed
-      .filter((item: any) => item.type === "function")
-      .map((func: any) => ({
-        name: func.name,
-        inputs: (func.inputs || []).map((i: any) => ({
-          name: i.name,
-          type: i.type,
-        })),
-      }));
-
-    return { functions };
+    const resolved = await resolveAbi(address, { chain });
+    return resolved && toContractABI(resolved);
   } catch (err) {
     console.error("Failed to fetch ABI:", err);
     return null;
   }
 };
 
+// full signature (tuples expanded), also the function picker's value so overloads stay distinct
 const getFunctionDisplayName = (func: EtherscanFunction): string => {
-  return `${func.name}(${func.inputs.map((i) => i.type).join(",")})`;
+  return `${func.name}(${func.inputs.map((i) => paramType(i).format()).join(",")})`;
 };
 
 const encodeFunctionCall = (
-  functionName: string,
-  parameters: Array<{ name: string; type: string; value: string }>,
-  abi: ContractABI
+  func: EtherscanFunction,
+  parameters: Array<{ value: ParamValue }>
 ): string => {
   try {
-    const full = abi.functions.find((f) => f.name === functionName);
-    if (!full) return "0x";
-    // Use full function signature to avoid overload ambiguity
-    const signature = `${full.name}(${full.inputs
-      .map((i) => i.type)
-      .join(",")})`;
-    const iface = new Interface([`function ${signature}`]);
-    const values = parameters.map((p) => p.value);
-    return iface.encodeFunctionData(signature, values);
+    return encodeFunctionInputs(
+      func,
+      parameters.map((p) => p.value)
+    );
   } catch (err) {
-    console.error("Error encoding function call:", err);
-    return "0x";
+    // invalid parameters are reported inline by the form
+    if (!(err instanceof AbiParamError)) {
+      console.error("Error encoding function call:", err);
+    }
+    return "";
   }
 };
 
+// raw calldata → function form, against the ABI or else the signature database
+const decodeInputFields = (
+  input: string,
+  contractABI: ContractABI | null
+): Pick<Transaction, "selectedFunction" | "functionParameters"> => {
+  const decoded = decodeCalldata(input, contractABI?.functions ?? []);
+  if (!decoded) return { selectedFunction: null, functionParameters: [] };
+  return {
+    selectedFunction: { name: decoded.fn.name, inputs: decoded.fn.inputs },
+    functionParameters: decoded.fn.inputs.map((input, index) => ({
+      name: input.name || `param${index}`,
+      type: input.type,
+      value: decoded.values[index],
+    })),
+  };
+};
+
+const isAbiFunction = (func: EtherscanFunction, contractABI: ContractABI | null) =>
+  !!contractABI?.functions.some(
+    (f) => getFunctionDisplayName(f) === getFunctionDisplayName(func)
+  );
+
 function generateId() {
   return Math.random().toString(36).substr(2, 9);
 }
@@ -159,11 +184,13 @@ function createEmptyTransaction(): Transaction {
   };
 }
 
-function serializeBundleToQuery(bundleState: BundleState) {
+function serializeBundleToQuery(bundleState: BundleState, chainId: number) {
   const qs = new URLSearchParams();
 
   // Basic
+  qs.set("chain", String(chainId));
   if (bundleState.blockNumber) qs.set("block", bundleState.blockNumber);
+  if (bundleState.blockPosition.trim()) qs.set("position", bundleState.blockPosition.trim());
   qs.set("atomic", bundleState.isAtomic.toString());
 
   // Transactions — strip non-serializable / UI-only fields
@@ -231,6 +258,7 @@ function deserializeBundleFromQuery(
 ): BundleState {
   const defaultState: BundleState = {
     blockNumber: "",
+    blockPosition: "",
     isAtomic: true,
     transactions: [],
     hypeBalanceOverrides: [],
@@ -240,6 +268,7 @@ function deserializeBundleFromQuery(
   try {
     // Basic
     defaultState.blockNumber = searchParams.get("block") || "";
+    defaultState.blockPosition = searchParams.get("position") || "";
     const atomicParam = searchParams.get("atomic");
     if (atomicParam) defaultState.isAtomic = atomicParam === "true";
 
@@ -249,6 +278,11 @@ function deserializeBundleFromQuery(
       const parsed = JSON.parse(transactionsParam) as Transaction[];
       defaultState.transactions = parsed.map((t) => ({
         ...t,
+        // parameter values must match their ABI type's shape for the form
+        functionParameters: (t.functionParameters ?? []).map((p, i) => {
+          const input = t.selectedFunction?.inputs[i];
+          return input ? { ...p, value: coerceValue(input, p.value) } : p;
+        }),
         isEditing: false,
         isLoadingABI: false,
         isVerifiedABI: null,
@@ -300,6 +334,7 @@ export default function BundleSimulatorPage() {
 
   const [bundleState, setBundleState] = useState<BundleState>({
     blockNumber: "",
+    blockPosition: "",
     isAtomic: true,
     transactions: [],
     hypeBalanceOverrides: [],
@@ -309,6 +344,7 @@ export default function BundleSimulatorPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [currentBlock, setCurrentBlock] = useState<number | null>(null);
   const [globalStateExpanded, setGlobalStateExpanded] = useState(false);
+  const chain = useSelectedChain();
 
   // Debounce timers per-transaction for ABI fetch
   const abiTimersRef = useRef<Record<string, number | undefined>>({});
@@ -316,17 +352,24 @@ export default function BundleSimulatorPage() {
   // Hydrate
   useEffect(() => {
     if (typeof window === "undefined") return;
-    const sp = new URLSearchParams(window.location.search);
-    if ([...sp.keys()].length === 0) return;
-
-    const hydrated = deserializeBundleFromQuery(sp);
-    setBundleState(hydrated);
+    decodeShareFragment(window.location.hash, "bundle")
+      .then((shared) => {
+        const sp = shared
+          ? new URLSearchParams(sharePayloadToQuery(shared))
+          : new URLSearchParams(window.location.search);
+        if ([...sp.keys()].length === 0) return;
+
+        setSelectedChain(chainFromQuery(sp).id);
+        const hydrated = deserializeBundleFromQuery(sp);
+        setBundleState(hydrated);
+      })
+      .catch((e) => alert(e.message));
   }, []);
 
   // URL sync
   useEffect(() => {
     const t = setTimeout(() => {
-      const qs = serializeBundleToQuery(bundleState);
+      const qs = serializeBundleToQuery(bundleState, chain.id);
       const nextSlug = "v1";
       const next = `/dashboard/advanceSimulator/${encodeURIComponent(
         nextSlug
@@ -338,7 +381,7 @@ export default function BundleSimulatorPage() {
     }, 350);
 
     return () => clearTimeout(t);
-  }, [bundleState, router]);
+  }, [bundleState, chain.id, router]);
 
   // Current block
   useEffect(() => {
@@ -346,7 +389,8 @@ export default function BundleSimulatorPage() {
 
     async function loadBlock() {
       try {
-        const res = await fetch(process.env.NEXT_PUBLIC_RPC_URL as string, {
+        if (!chain.rpcUrl) return;
+        const res = await fetch(chain.rpcUrl, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -379,7 +423,7 @@ export default function BundleSimulatorPage() {
       cancelled = true;
       clearInterval(t);
     };
-  }, [bundleState.blockNumber]);
+  }, [bundleState.blockNumber, chain.rpcUrl]);
 
   // ------- State updaters -------
   const addTransaction = () => {
@@ -408,6 +452,7 @@ export default function BundleSimulatorPage() {
   const loadExampleBundle = () => {
     setBundleState({
       blockNumber: currentBlock ? String(currentBlock) : "", // leave blank to mean "latest"
+      blockPosition: "",
       isAtomic: true,
       transactions: [
         {
@@ -492,74 +537,95 @@ export default function BundleSimulatorPage() {
       functionParameters: [],
     });
 
-    const abi = await fetchContractABI(addr);
-    updateTransaction(transactionId, {
-      isLoadingABI: false,
-      isVerifiedABI: !!abi,
-      contractABI: abi,
-      selectedFunction: null,
-      functionParameters: [],
-    });
+    const abi = await fetchContractABI(addr, chain);
+    // decode against the latest input, which may have changed while the ABI loaded
+    setBundleState((prev) => ({
+      ...prev,
+      transactions: prev.transactions.map((t) =>
+        t.id === transactionId
+          ? {
+              ...t,
+              isLoadingABI: false,
+              isVerifiedABI: !!abi,
+              contractABI: abi,
+              ...decodeInputFields(t.input, abi),
+            }
+          : t
+      ),
+    }));
   };
 
   const handleFunctionSelect = (
     transactionId: string,
-    functionName: string
+    signature: string
   ) => {
     const tx = bundleState.transactions.find((t) => t.id === transactionId);
     if (tx?.contractABI) {
       const func = tx.contractABI.functions.find(
-        (f) => f.name === functionName
+        (f) => getFunctionDisplayName(f) === signature
       );
       if (func) {
         const params = func.inputs.map((input, index) => ({
           name: input.name || `param${index}`,
           type: input.type,
-          value: "",
+          value: emptyValue(input),
         }));
         updateTransaction(transactionId, {
           selectedFunction: func,
           functionParameters: params,
+          input: encodeFunctionCall(func, params),
         });
       }
     }
   };
 
-  const handleParameterChange = (
+  const handleParametersChange = (
     transactionId: string,
-    paramIndex: number,
-    value: string
+    values: ParamValue[]
   ) => {
     const tx = bundleState.transactions.find((t) => t.id === transactionId);
     if (!tx) return;
 
-    const updatedParams = [...tx.functionParameters];
-    updatedParams[paramIndex].value = value;
+    const updatedParams = tx.functionParameters.map((param, index) => ({
+      ...param,
+      value: values[index],
+    }));
 
     // update params
     updateTransaction(transactionId, { functionParameters: updatedParams });
 
-    // re-encode input
-    if (tx.selectedFunction && tx.contractABI) {
-      const encodedInput = encodeFunctionCall(
-        tx.selectedFunction.name,
-        updatedParams,
-        tx.contractABI
-      );
+    // re-encode input; invalid edits keep the last valid calldata
+    const encodedInput =
+      tx.selectedFunction && encodeFunctionCall(tx.selectedFunction, updatedParams);
+    if (encodedInput) {
       updateTransaction(transactionId, { input: encodedInput });
     }
   };
 
+  // invalid function parameters per transaction, checked before the bundle is submitted
+  const parameterIssues = bundleState.transactions.flatMap((t, index) =>
+    t.inputType === "function" && t.selectedFunction
+      ? functionParamsIssues(
+          t.selectedFunction.inputs,
+          t.functionParameters.map((p) => p.value)
+        ).map((issue) => ({ ...issue, path: `tx ${index + 1} ${issue.path}` }))
+      : []
+  );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (bundleState.transactions.length === 0) {
       alert("Please add at least one transaction to the bundle.");
       return;
     }
+    if (parameterIssues.length) {
+      alert(`Fix the function parameters first: ${parameterIssues[0].path}: ${parameterIssues[0].message}`);
+      return;
+    }
 
     setIsLoading(true);
     try {
-      const qs = serializeBundleToQuery(bundleState);
+      const qs = serializeBundleToQuery(bundleState, chain.id);
       const slug = "v1";
       // keep your route (change if your view page differs)
       router.push(
@@ -596,6 +662,14 @@ export default function BundleSimulatorPage() {
             <div className="text-sm text-gray-400">
               {bundleState.transactions.length} transaction(s) in bundle
             </div>
+            <SaveScenarioDialog
+              kind="bundle"
+              getQuery={() => serializeBundleToQuery(bundleState, chain.id)}
+            />
+            <ShareLinkButton
+              kind="bundle"
+              getQuery={() => serializeBundleToQuery(bundleState, chain.id)}
+            />
             <Button
               type="button"
               variant="outline"
@@ -644,6 +718,30 @@ export default function BundleSimulatorPage() {
               Current: {currentBlock}
             </span>
           )}
+          <Label className="text-sm text-gray-400 ml-4">Position:</Label>
+          <Input
+            placeholder="end"
+            value={bundleState.blockPosition}
+            onChange={(e) =>
+              setBundleState((prev) => ({
+                ...prev,
+                blockPosition: e.target.value,
+              }))
+            }
+            className="w-20 h-8 text-sm"
+            style={{
+              backgroundColor: "var(--bg-primary)",
+              borderColor: "var(--border)",
+              color: "var(--text-primary)",
+            }}
+            title="Replay this many txs of the block (on the state of the block before) ahead of the bundle; empty runs on the state at the end of the block"
+          />
+          {bundleState.blockPosition.trim() && (
+            <span className="text-xs text-gray-400">
+              after {bundleState.blockPosition.trim()} txs of block{" "}
+              {bundleState.blockNumber || "…"}
+            </span>
+          )}
         </div>
 
         {/* Right: Atomic Execution slider */}
@@ -846,15 +944,39 @@ export default function BundleSimulatorPage() {
                           {transaction.to.trim() &&
                             !transaction.isLoadingABI && (
                               <>
-                                {transaction.isVerifiedABI === true && (
-                                  <p className="text-xs text-green-400 mt-1">
-                                    ✓ Contract verified — functions loaded
-                                  </p>
-                                )}
+                                {transaction.isVerifiedABI === true &&
+                                  transaction.contractABI && (
+                                    <p
+                                      className="text-xs text-green-400 mt-1"
+                                      title={transaction.contractABI.detail}
+                                    >
+                                      ✓{" "}
+                                      {transaction.contractABI.name
+                                        ? `${transaction.contractABI.name} — `
+                                        : ""}
+                                      ABI from{" "}
+                                      {ABI_SOURCE_LABEL[transaction.contractABI.source]}
+                                    </p>
+                                  )}
                                 {transaction.isVerifiedABI === false && (
-                                  <p className="text-xs text-yellow-400 mt-1">
-                                    ⚠ Contract not verified or ABI not found
-                                  </p>
+                                  <div className="flex items-center gap-3 mt-1">
+                                    <p className="text-xs text-yellow-400">
+                                      ⚠ No ABI found for this contract
+                                    </p>
+                                    <PasteAbiDialog
+                                      address={transaction.to.trim()}
+                                      onSaved={(r) =>
+                                        updateTransaction(transaction.id, {
+                                          isVerifiedABI: true,
+                                          contractABI: toContractABI(r),
+                                          ...decodeInputFields(
+                                            transaction.input,
+                                            toContractABI(r)
+                                          ),
+                                        })
+                                      }
+                                    />
+                                  </div>
                                 )}
                               </>
                             )}
@@ -919,6 +1041,17 @@ export default function BundleSimulatorPage() {
                               </Label>
                               {transaction.contractABI ? (
                                 <Select
+                                  value={
+                                    transaction.selectedFunction &&
+                                    isAbiFunction(
+                                      transaction.selectedFunction,
+                                      transaction.contractABI
+                                    )
+                                      ? getFunctionDisplayName(
+                                          transaction.selectedFunction
+                                        )
+                                      : ""
+                                  }
                                   onValueChange={(value) =>
                                     handleFunctionSelect(transaction.id, value)
                                   }
@@ -944,7 +1077,10 @@ export default function BundleSimulatorPage() {
                                   >
                                     {transaction.contractABI.functions.map(
                                       (func, i) => (
-                                        <SelectItem key={i} value={func.name}>
+                                        <SelectItem
+                                          key={i}
+                                          value={getFunctionDisplayName(func)}
+                                        >
                                           {getFunctionDisplayName(func)}
                                         </SelectItem>
                                       )
@@ -952,18 +1088,38 @@ export default function BundleSimulatorPage() {
                                   </SelectContent>
                                 </Select>
                               ) : (
-                                <div
-                                  className="p-3 border rounded text-sm text-gray-400"
-                                  style={{
-                                    backgroundColor: "var(--bg-primary)",
-                                    borderColor: "var(--border)",
-                                  }}
-                                >
-                                  Enter a verified contract address to load
-                                  functions
-                                </div>
+                                !transaction.selectedFunction && (
+                                  <div
+                                    className="p-3 border rounded text-sm text-gray-400"
+                                    style={{
+                                      backgroundColor: "var(--bg-primary)",
+                                      borderColor: "var(--border)",
+                                    }}
+                                  >
+                                    Enter a verified contract address to load
+                                    functions
+                                  </div>
+                                )
                               )}
 
+                              {transaction.selectedFunction &&
+                                !isAbiFunction(
+                                  transaction.selectedFunction,
+                                  transaction.contractABI
+                                ) && (
+                                  <p className="mt-2 text-xs text-yellow-400">
+                                    Decoded as{" "}
+                                    <span className="font-mono">
+                                      {getFunctionDisplayName(
+                                        transaction.selectedFunction
+                                      )}
+                                    </span>{" "}
+                                    {transaction.contractABI
+                                      ? "from the signature database (not in the contract's ABI)"
+                                      : "from the signature database"}
+                                  </p>
+                                )}
+
                               {transaction.selectedFunction &&
                                 transaction.functionParameters.length > 0 && (
                                   <div className="mt-4">
@@ -973,36 +1129,25 @@ export default function BundleSimulatorPage() {
                                     >
                                       Function Parameters
                                     </Label>
-                                    <div className="space-y-2">
-                                      {transaction.functionParameters.map(
-                                        (param, paramIndex) => (
-                                          <div key={paramIndex}>
-                                            <Label className="text-xs text-gray-400 block mb-1">
-                                              {param.name} ({param.type})
-                                            </Label>
-                                            <Input
-                                              placeholder={`Enter ${param.name}`}
-                                              value={param.value}
-                                              onChange={(e) =>
-                                                handleParameterChange(
-                                                  transaction.id,
-                                                  paramIndex,
-                                                  e.target.value
-                                                )
-                                              }
-                                              className="border text-sm"
-                                              style={{
-                                                backgroundColor:
-                                                  "var(--bg-primary)",
-                                                borderColor: "var(--border)",
-                                                color: "var(--text-primary)",
-                                                opacity: 0.8,
-                                              }}
-                                            />
-                                          </div>
+                                    <AbiParamsForm
+                                      inputs={transaction.selectedFunction.inputs}
+                                      values={transaction.functionParameters.map(
+                                        (p) => p.value
+                                      )}
+                                      onChange={(values) =>
+                                        handleParametersChange(
+                                          transaction.id,
+                                          values
                                         )
+                                      }
+                                      decodeNested={nestedDecoder(
+                                        transaction.selectedFunction,
+                                        transaction.functionParameters.map(
+                                          (p) => p.value
+                                        ),
+                                        transaction.contractABI?.functions ?? []
                                       )}
-                                    </div>
+                                    />
                                   </div>
                                 )}
                             </div>
@@ -1022,6 +1167,10 @@ export default function BundleSimulatorPage() {
                                 onChange={(e) =>
                                   updateTransaction(transaction.id, {
                                     input: e.target.value,
+                                    ...decodeInputFields(
+                                      e.target.value,
+                                      transaction.contractABI
+                                    ),
                                   })
                                 }
                                 className="border"
@@ -1837,6 +1986,13 @@ export default function BundleSimulatorPage() {
               </div>
             )}
           </Button>
+          {parameterIssues.length > 0 && (
+            <p className="text-xs text-red-400 text-center mt-2">
+              {parameterIssues.length} parameter
+              {parameterIssues.length === 1 ? "" : "s"} to fix —{" "}
+              {parameterIssues[0].path}: {parameterIssues[0].message}
+            </p>
+          )}
         </div>
       </form>
     </div>
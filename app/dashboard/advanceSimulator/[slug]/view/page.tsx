@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import SummaryTab from "../../../simulator/[slug]/view/components/SummaryTab";
 import ContractsTab from "../../../simulator/[slug]/view/components/ContractsTab";
@@ -10,171 +10,107 @@ import StorageStateTab from "../../../simulator/[slug]/view/components/StorageSt
 import TransactionDetails from "../../../simulator/[slug]/view/components/TransactionDetails";
 import EventsTab from "../../../simulator/[slug]/view/components/EventsTab";
 import { RotateCcw } from "lucide-react";
-
-const BACKEND = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-/* ----------------------------- helpers --------------------------------- */
-
-const ensure0x = (v?: string) =>
-  v && (v.startsWith("0x") || v.startsWith("0X")) ? v : `0x${v ?? "0"}`;
-
-const toHex = (value?: string): string => {
-  const s = (value || "").trim();
-  if (!s) return "0x0";
-  if (s.startsWith("0x") || s.startsWith("0X")) return s;
-  try {
-    const bi = BigInt(s);
-    return "0x" + bi.toString(16);
-  } catch {
-    const n = Number(s);
-    if (!Number.isFinite(n)) return "0x0";
-    return "0x" + Math.trunc(n).toString(16);
-  }
-};
-
-const parseStateOverrides = (sp: URLSearchParams) => {
-  const raw = sp.get("stateOverrides");
-  if (!raw) return {};
-  try {
-    const parsed = JSON.parse(raw) as Record<
-      string,
-      { balance?: string; stateDiff?: Record<string, string> }
-    >;
-
-    const normalized: Record<
-      string,
-      { balance?: string; stateDiff?: Record<string, string> }
-    > = {};
-    for (const [addr, obj] of Object.entries(parsed)) {
-      normalized[addr] = {
-        balance: obj.balance ? toHex(obj.balance) : undefined,
-        stateDiff: obj.stateDiff
-          ? Object.fromEntries(
-              Object.entries(obj.stateDiff).map(([k, v]) => [
-                ensure0x(k),
-                toHex(v),
-              ])
-            )
-          : undefined,
-      };
-    }
-    return normalized;
-  } catch {
-    return {};
-  }
-};
-
-type BundleTx = {
-  from: string;
-  to: string;
-  input: string;
-  value: string;
-  gas: string;
-  gasPrice: string;
-  accessList?: Array<{ address: string; storageKeys: string[] }>;
-};
-
-const parseBundleTransactions = (sp: URLSearchParams): BundleTx[] => {
-  const raw = sp.get("transactions");
-  if (!raw) return [];
-  try {
-    const arr = JSON.parse(raw) as any[];
-    return (arr || []).map((t) => ({
-      from: t.from || "",
-      to: t.to || "",
-      input: t.input ? ensure0x(t.input) : "0x",
-      value: toHex(t.value || "0"),
-      gas: toHex(t.gas || "0"),
-      gasPrice: toHex(t.gasPrice || "0"),
-      accessList: Array.isArray(t.accessList)
-        ? t.accessList.map((al: any) => ({
-            address: al.address || "",
-            storageKeys: Array.isArray(al.storageKeys)
-              ? al.storageKeys.map((k: string) => ensure0x(k))
-              : [],
-          }))
-        : [],
-    }));
-  } catch {
-    return [];
-  }
-};
+import {
+  BundleSimulationResult,
+  ContractRecord,
+  SimulationResult,
+  decodeSimulationTrace,
+} from "@/lib/simulation";
+import {
+  buildBundleSimulateRequest,
+  getBackendClient,
+  isAbortError,
+} from "@/lib/backend";
+import {
+  BlockPosition,
+  blockPositionFromQuery,
+  runBundleQuery,
+} from "@/lib/blockReplay";
+import { DecodedNode } from "@/utils/decodeCallTrace";
+import { getRun, recordRun } from "@/lib/history";
+import { expandShareLink } from "@/lib/shareLink";
+import { chainFromQuery, setSelectedChain } from "@/lib/chains";
+import { withDetectedProxies } from "@/lib/proxyDetection";
+import { ShareLinkButton } from "@/components/share-link-button";
+import { BlockPositionNote } from "@/components/block-position-note";
 
 /* ----------------------------- component -------------------------------- */
 
 export default function BundleSimulatorViewPage() {
-  const [bundleResults, setBundleResults] = useState<any[] | null>(null); // array of per-tx results
+  const [bundleResults, setBundleResults] = useState<
+    SimulationResult[] | null
+  >(null); // array of per-tx results
   const [selectedIdx, setSelectedIdx] = useState(0);
   const [activeTab, setActiveTab] = useState("summary");
   const [expandedStorageSections, setExpandedStorageSections] = useState<
     Set<string>
   >(new Set());
-  const [decodedTraceTree, setDecodedTraceTree] = useState<any>(null);
+  const [decodedTraceTree, setDecodedTraceTree] =
+    useState<DecodedNode | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [storedAt, setStoredAt] = useState<number | null>(null); // opened from History
+  const [blockPosition, setBlockPosition] = useState<BlockPosition | null>(null);
 
   // fetch bundle simulation
   useEffect(() => {
     let cancelled = false;
+    const controller = new AbortController();
 
     const run = async () => {
       try {
         setIsLoading(true);
         setError(null);
 
+        // share links in the fragment are expanded into the query first
+        await expandShareLink("bundle");
         const sp = new URLSearchParams(window.location.search);
-
-        const mode =
-          sp.get("atomic") && sp.get("atomic") === "false"
-            ? "parallel"
-            : "atomic";
-
-        const transactions = parseBundleTransactions(sp);
-        const stateObjects = parseStateOverrides(sp);
-        const blockNumber = sp.get("block") ? toHex(sp.get("block")!) : "latest";
-
-        const body = {
-          mode,
-          transactions,
-          stateObjects,
-          generateAccessList: true,
-          blockNumber,
-        };
-        console.log("Simulate bundle with:", JSON.stringify(body));
-
-        const res = await fetch(`${BACKEND}/api/bundle/simulate`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(body),
-        });
-        if (!res.ok) {
-          let errorMsg = `HTTP ${res.status}`;
+        const chain = chainFromQuery(sp);
+        setSelectedChain(chain.id);
+
+        setBlockPosition(blockPositionFromQuery(sp));
+
+        // stored run from History (?historyId=), else simulate and record the run
+        const historyId = sp.get("historyId");
+        const stored = historyId ? await getRun(historyId).catch(() => undefined) : undefined;
+        let data: BundleSimulationResult;
+        if (stored?.response && "results" in stored.response) {
+          data = stored.response;
+          setStoredAt(stored.timestamp);
+        } else {
+          sp.delete("historyId");
+          // built before running so a failed run can still be recorded with it
+          const request = buildBundleSimulateRequest(sp);
           try {
-            const errorBody = await res.json();
-            console.log(errorBody?.error);
-            if (errorBody?.error?.message) {
-              errorMsg += ` - ${errorBody?.error?.message}`;
+            // with ?position= the block's earlier txs run first and their results are dropped
+            const outcome = await runBundleQuery(sp, getBackendClient(chain), {
+              chain,
+              signal: controller.signal,
+            });
+            data = outcome.result;
+            recordRun({ kind: "bundle", query: sp.toString(), request: outcome.request, response: data });
+          } catch (e: any) {
+            if (!isAbortError(e)) {
+              recordRun({ kind: "bundle", query: sp.toString(), request, status: "error", error: e?.message });
             }
-          } catch (_) {
-            // ignore if not JSON
+            throw e;
           }
-          throw new Error(errorMsg);
         }
-        const data = await res.json();
 
         if (cancelled) return;
-        if (!Array.isArray(data?.results)) {
-          throw new Error("Malformed response: missing results[]");
-        }
 
-        setBundleResults(data.results);
+        // proxies from on-chain slots, so the decoders use implementation ABIs
+        const results = await Promise.all(
+          data.results.map((r) => withDetectedProxies(r, { chain, signal: controller.signal }))
+        );
+        if (cancelled) return;
+
+        setBundleResults(results);
 
         // cache contracts merged across results
-        const mergedContracts: Record<string, any> = {};
-        data.results.forEach((r: any) => {
-          if (r.contracts) {
-            Object.assign(mergedContracts, r.contracts);
-          }
+        const mergedContracts: Record<string, ContractRecord> = {};
+        results.forEach((r) => {
+          Object.assign(mergedContracts, r.contracts);
         });
         if (Object.keys(mergedContracts).length) {
           const existing = JSON.parse(
@@ -186,6 +122,7 @@ export default function BundleSimulatorViewPage() {
           );
         }
       } catch (e: any) {
+        if (isAbortError(e)) return;
         console.error("Failed to load bundle simulation:", e);
         if (!cancelled) {
           setError(e?.message || "Failed to load simulation");
@@ -200,6 +137,7 @@ export default function BundleSimulatorViewPage() {
     run();
     return () => {
       cancelled = true;
+      controller.abort();
     };
   }, []);
 
@@ -214,49 +152,7 @@ export default function BundleSimulatorViewPage() {
           return;
         }
 
-        const current = bundleResults[selectedIdx];
-        const { transaction, contracts } = current || {};
-        if (!transaction?.callTrace?.[0]) {
-          setDecodedTraceTree(null);
-          return;
-        }
-
-        const { TraceDecoderManual } = await import("@/utils/decodeCallTrace");
-
-        const contractsMap: Record<string, any> = {};
-        if (contracts) {
-          Object.entries(contracts).forEach(
-            ([addr, contract]: [string, any]) => {
-              contractsMap[addr] = {
-                address: addr,
-                ABI: contract.ABI,
-                Implementation: contract.Implementation,
-                Proxy: contract.Proxy || (contract.Implementation ? "1" : "0"),
-              };
-            }
-          );
-        }
-
-        const manual = new TraceDecoderManual(contractsMap);
-
-        const convertCallTrace = (trace: any): any => ({
-          from: trace.from || "",
-          to: trace.to || "",
-          input: trace.input || "0x",
-          output: trace.output || "0x",
-          gas: trace.gas,
-          gasUsed: trace.gasUsed ?? trace.gas_used,
-          error: trace.error || "",
-          revertReason: trace.revertReason || "",
-          value: trace.value,
-          type: trace.type,
-          calls: Array.isArray(trace.calls)
-            ? trace.calls.map(convertCallTrace)
-            : undefined,
-        });
-
-        const rawRoot = convertCallTrace(transaction.callTrace[0]);
-        const decoded = await manual.decodeTrace(rawRoot);
+        const decoded = await decodeSimulationTrace(bundleResults[selectedIdx]);
         if (!cancelled) setDecodedTraceTree(decoded);
       } catch (e) {
         console.error("Trace decode error:", e);
@@ -270,17 +166,6 @@ export default function BundleSimulatorViewPage() {
     };
   }, [bundleResults, selectedIdx]);
 
-    // currently selected per-tx result, shaped like single-sim output
-    const currentResult = useMemo(() => {
-        if (bundleResults && bundleResults[selectedIdx]) {
-        const r = bundleResults[selectedIdx];
-        // keep same shape used by single simulator components
-        return r;
-        }
-      }, [bundleResults, selectedIdx]);
-    
-
-
   /* ---------------------------- UI states -------------------------------- */
 
   if (isLoading) {
@@ -332,6 +217,8 @@ export default function BundleSimulatorViewPage() {
     );
   }
 
+  // currently selected per-tx result, shaped like single-sim output
+  const currentResult = bundleResults[selectedIdx];
 
   const tabs = [
     { id: "summary", label: "Summary" },
@@ -362,6 +249,8 @@ export default function BundleSimulatorViewPage() {
           </span>
         </div>
 
+        <div className="flex items-center space-x-3">
+        <ShareLinkButton kind="bundle" getQuery={() => window.location.search} />
         <Button
           className="border-0 px-4 py-2 rounded-xl font-semibold transition-colors flex items-center space-x-2"
           style={{
@@ -377,6 +266,7 @@ export default function BundleSimulatorViewPage() {
           <RotateCcw className="h-4 w-4" />
           <span>Re-simulate</span>
         </Button>
+        </div>
       </div>
 
       {/* Top bar: per-transaction selector */}
@@ -411,6 +301,14 @@ export default function BundleSimulatorViewPage() {
         </div>
       </div>
 
+      {storedAt !== null && (
+        <div className="text-xs text-yellow-400 border border-yellow-700 rounded px-3 py-2">
+          Stored bundle result from {new Date(storedAt).toLocaleString()}, opened from History without re-simulating.
+        </div>
+      )}
+
+      {blockPosition && <BlockPositionNote at={blockPosition} />}
+
       {/* Per-transaction details (re-using existing components) */}
       <TransactionDetails
         responseData={currentResult}
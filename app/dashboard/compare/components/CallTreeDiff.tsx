@@ -0,0 +1,113 @@
+import { ReactElement, useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { FrameDiff } from "@/lib/compare";
+import { DecodedNode } from "@/utils/decodeCallTrace";
+import { SimulationResult } from "@/lib/simulation";
+import { getContractName } from "@/lib/utils";
+
+type CallTreeDiffProps = {
+  root: FrameDiff;
+  divergence: FrameDiff | null;
+  left: SimulationResult;
+  right: SimulationResult;
+};
+
+const STATUS_STYLE: Record<FrameDiff["status"], string> = {
+  same: "",
+  changed: "bg-yellow-900/20 border-l-2 border-yellow-500",
+  added: "bg-green-900/20 border-l-2 border-green-500",
+  removed: "bg-red-900/20 border-l-2 border-red-500",
+};
+
+export const frameDiffDomId = (path: number[]) => `frame-diff-${["root", ...path].join("-")}`;
+
+export default function CallTreeDiff({ root, divergence, left, right }: CallTreeDiffProps) {
+  // diverging subtrees start expanded, identical ones collapsed
+  const [toggled, setToggled] = useState<Set<string>>(new Set());
+
+  const label = (node: DecodedNode | undefined, result: SimulationResult) => {
+    if (!node) return <span className="text-gray-600">—</span>;
+    const name = getContractName(node.to, result);
+    return (
+      <span className="break-all">
+        <span className="text-white">{name !== node.to ? name : `${node.to.slice(0, 10)}…`}</span>
+        <span className="text-gray-400">.</span>
+        <span className="text-blue-300">{node.functionName || node.functionSelector || "fallback"}</span>
+        {node.error && <span className="text-red-400 ml-2">reverted</span>}
+      </span>
+    );
+  };
+
+  const gasCell = (gas?: bigint) => (
+    <span className="text-gray-500">{gas !== undefined ? gas.toLocaleString() : ""}</span>
+  );
+
+  const renderRow = (diff: FrameDiff, depth: number): ReactElement => {
+    const key = frameDiffDomId(diff.path);
+    const expandedByDefault = diff.subtreeDiverges;
+    const expanded = toggled.has(key) ? !expandedByDefault : expandedByDefault;
+    const isDivergence = divergence === diff;
+
+    return (
+      <div key={key}>
+        <div
+          id={key}
+          className={`grid grid-cols-[1fr_1fr_auto] gap-4 py-1 px-2 text-xs font-mono ${STATUS_STYLE[diff.status]} ${
+            isDivergence ? "ring-2 ring-red-500 rounded" : ""
+          }`}
+        >
+          <div className="flex items-start" style={{ paddingLeft: depth * 16 }}>
+            {diff.children.length > 0 ? (
+              <button
+                className="mr-1 text-gray-400 hover:text-white"
+                onClick={() =>
+                  setToggled((prev) => {
+                    const next = new Set(prev);
+                    if (next.has(key)) next.delete(key);
+                    else next.add(key);
+                    return next;
+                  })
+                }
+              >
+                {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+              </button>
+            ) : (
+              <span className="w-4" />
+            )}
+            <div>
+              {label(diff.left, left)}
+              <div>{gasCell(diff.gasLeft)}</div>
+            </div>
+          </div>
+          <div style={{ paddingLeft: depth * 16 }}>
+            {label(diff.right, right)}
+            <div>{gasCell(diff.gasRight)}</div>
+          </div>
+          <div className="text-right whitespace-nowrap">
+            {diff.gasDelta !== BigInt(0) && (
+              <span className={diff.gasDelta > BigInt(0) ? "text-red-400" : "text-green-400"}>
+                {diff.gasDelta > BigInt(0) ? "+" : ""}
+                {diff.gasDelta.toLocaleString()} gas
+              </span>
+            )}
+            {diff.differences.length > 0 && (
+              <div className="text-yellow-400">{diff.differences.join(", ")}</div>
+            )}
+          </div>
+        </div>
+        {expanded && diff.children.map((c) => renderRow(c, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="border rounded" style={{ borderColor: "var(--border)" }}>
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-4 py-2 px-2 text-xs text-gray-400 border-b" style={{ borderColor: "var(--border)" }}>
+        <span>Left</span>
+        <span>Right</span>
+        <span>Δ</span>
+      </div>
+      {renderRow(root, 0)}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { GitCompare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SimulationResult } from "@/lib/simulation";
+import { isAbortError } from "@/lib/backend";
+import {
+  SimulationComparison,
+  compareSimulations,
+  describeSource,
+  loadSimulation,
+  parseSimulationSource,
+} from "@/lib/compare";
+import { formatTokenAmount, tokenMetadataFromResult } from "@/lib/tokens";
+import { formatAddress, getContractName } from "@/lib/utils";
+import CallTreeDiff, { frameDiffDomId } from "./components/CallTreeDiff";
+
+const STATUS_TEXT = {
+  same: "text-gray-400",
+  changed: "text-yellow-400",
+  added: "text-green-400",
+  removed: "text-red-400",
+};
+
+const panelStyle = {
+  backgroundColor: "rgba(30, 30, 30, 0.6)",
+  borderColor: "var(--border)",
+};
+
+export default function ComparePage() {
+  // ?a=&b= hold the two sources, so a comparison can be shared as a link
+  const [inputA, setInputA] = useState("");
+  const [inputB, setInputB] = useState("");
+  const [results, setResults] = useState<[SimulationResult, SimulationResult] | null>(null);
+  const [comparison, setComparison] = useState<SimulationComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [run, setRun] = useState<{ a: string; b: string } | null>(null);
+
+  useEffect(() => {
+    const sp = new URLSearchParams(window.location.search);
+    const a = sp.get("a") ?? "";
+    const b = sp.get("b") ?? "";
+    setInputA(a);
+    setInputB(b);
+    if (a && b) setRun({ a, b });
+  }, []);
+
+  useEffect(() => {
+    if (!run) return;
+    const controller = new AbortController();
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      setComparison(null);
+      try {
+        const sources = [parseSimulationSource(run.a), parseSimulationSource(run.b)];
+        const [left, right] = await Promise.all(
+          sources.map((s) => loadSimulation(s, { signal: controller.signal }))
+        );
+        if (controller.signal.aborted) return;
+        setResults([left, right]);
+        setComparison(await compareSimulations(left, right));
+      } catch (e: any) {
+        if (isAbortError(e)) return;
+        setError(e?.message || "Failed to load simulations");
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [run]);
+
+  const handleCompare = () => {
+    if (!inputA.trim() || !inputB.trim()) return;
+    const url = new URL(window.location.href);
+    url.searchParams.set("a", inputA.trim());
+    url.searchParams.set("b", inputB.trim());
+    window.history.replaceState(null, "", url.toString());
+    setRun({ a: inputA.trim(), b: inputB.trim() });
+  };
+
+  const sourceLabel = (input: string) => {
+    try {
+      return describeSource(parseSimulationSource(input));
+    } catch {
+      return input;
+    }
+  };
+
+  const name = (address: string, result: SimulationResult) => {
+    const n = getContractName(address, result);
+    return n !== address ? n : formatAddress(address);
+  };
+
+  const divergenceText = () => {
+    const d = comparison?.divergence;
+    if (!d) return null;
+    const node = d.right ?? d.left;
+    const where = node ? `${name(node.to, results![1])}.${node.functionName || node.functionSelector || "fallback"}` : "";
+    if (d.status === "added") return `Right makes an extra call: ${where}`;
+    if (d.status === "removed") return `Right skips a call: ${where}`;
+    return `${where}: ${d.differences.join(", ")} differ${d.differences.length === 1 ? "s" : ""}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Compare Simulations</h1>
+        <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+          Paste two simulator URLs (or query strings) or transaction hashes, e.g. the same call at two blocks.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-2">
+        <Input value={inputA} onChange={(e) => setInputA(e.target.value)} placeholder="Left: simulator URL or tx hash" />
+        <Input value={inputB} onChange={(e) => setInputB(e.target.value)} placeholder="Right: simulator URL or tx hash" />
+        <Button
+          onClick={handleCompare}
+          className="border-0 px-6 rounded-lg font-semibold flex items-center space-x-2"
+          style={{ backgroundColor: "var(--btn-primary-bg)", color: "var(--btn-primary-text)" }}
+        >
+          <GitCompare className="h-4 w-4" />
+          <span>Compare</span>
+        </Button>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mr-3"></div>
+          <div className="text-white">Running both simulations...</div>
+        </div>
+      )}
+      {error && <div className="text-red-400">⚠️ {error}</div>}
+
+      {comparison && results && run && (
+        <div className="space-y-6">
+          {/* Where execution first differs */}
+          <div className="p-4 rounded-lg border" style={panelStyle}>
+            <div className="text-xs text-gray-400 mb-1">
+              {sourceLabel(run.a)} vs {sourceLabel(run.b)}
+            </div>
+            {comparison.divergence ? (
+              <div className="flex items-center justify-between">
+                <div className="text-white">
+                  <span className="text-red-400 font-semibold">Execution first differs at </span>
+                  <span className="font-mono">{divergenceText()}</span>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  style={{ borderColor: "var(--border)" }}
+                  onClick={() =>
+                    document
+                      .getElementById(frameDiffDomId(comparison.divergence!.path))
+                      ?.scrollIntoView({ behavior: "smooth", block: "center" })
+                  }
+                >
+                  Show
+                </Button>
+              </div>
+            ) : (
+              <div className="text-green-400">Both runs execute the same calls with the same results.</div>
+            )}
+          </div>
+
+          {/* Call trees */}
+          <div className="space-y-2">
+            <h3 className="text-lg font-semibold text-white">Call Trees</h3>
+            {comparison.tree ? (
+              <CallTreeDiff
+                root={comparison.tree}
+                divergence={comparison.divergence}
+                left={results[0]}
+                right={results[1]}
+              />
+            ) : (
+              <div className="text-gray-400">No call trace</div>
+            )}
+          </div>
+
+          {/* Events */}
+          <div className="space-y-2">
+            <h3 className="text-lg font-semibold text-white">Events</h3>
+            <div className="border rounded p-3 space-y-1 text-xs font-mono" style={panelStyle}>
+              {comparison.events.length === 0 && <div className="text-gray-400">No events</div>}
+              {comparison.events.map((e, i) => {
+                const log = e.right ?? e.left!;
+                return (
+                  <div key={i} className={`flex flex-wrap gap-x-3 ${STATUS_TEXT[e.status]}`}>
+                    <span className="w-16">{e.status}</span>
+                    <span>{name(log.address, e.right ? results[1] : results[0])}</span>
+                    <span className="text-gray-500 break-all">{log.topics[0]?.slice(0, 10)}</span>
+                    {e.status === "changed" && (
+                      <span className="text-gray-500 break-all">
+                        {e.left!.data.slice(0, 18)}… → {e.right!.data.slice(0, 18)}…
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Balances */}
+          <div className="space-y-2">
+            <h3 className="text-lg font-semibold text-white">Balance Deltas</h3>
+            <div className="border rounded p-3 space-y-1 text-xs font-mono" style={panelStyle}>
+              {comparison.balances.length === 0 && <div className="text-gray-400">No balance changes</div>}
+              {comparison.balances.map((b) => {
+                const meta = tokenMetadataFromResult(results[1], b.token);
+                const decimals = b.tokenId !== undefined ? 0 : meta.decimals;
+                const symbol = meta.symbol || name(b.token, results[1]);
+                return (
+                  <div
+                    key={`${b.holder}-${b.token}-${b.tokenId ?? ""}`}
+                    className={`grid grid-cols-[1fr_1fr_1fr] gap-3 ${b.left === b.right ? "text-gray-400" : "text-yellow-400"}`}
+                  >
+                    <span>{name(b.holder, results[1])}</span>
+                    <span>
+                      {formatTokenAmount(b.left, decimals, true)} {symbol}
+                    </span>
+                    <span>
+                      {formatTokenAmount(b.right, decimals, true)} {symbol}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Storage writes */}
+          <div className="space-y-2">
+            <h3 className="text-lg font-semibold text-white">Storage Writes</h3>
+            <div className="border rounded p-3 space-y-2 text-xs font-mono" style={panelStyle}>
+              {comparison.storage.length === 0 && <div className="text-gray-400">No storage writes</div>}
+              {comparison.storage.map((s) => {
+                const same = s.left === s.right;
+                return (
+                  <div key={`${s.address}-${s.slot}`} className={same ? "text-gray-400" : "text-yellow-400"}>
+                    <div className="break-all">
+                      {name(s.address, results[1])} · {s.label ?? s.slot}
+                    </div>
+                    <div className="pl-4 break-all">L: {s.left ?? "not written"}</div>
+                    <div className="pl-4 break-all">R: {s.right ?? "not written"}</div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
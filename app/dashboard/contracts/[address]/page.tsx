@@ -7,6 +7,9 @@ import { MoreHorizontal, Share, Bell, Play, CheckCircle } from "lucide-react";
 import Image from "next/image";
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
 import { tomorrow } from "react-syntax-highlighter/dist/esm/styles/prism";
+import { ParsedSourceCode, parseSourceCode } from "@/lib/sourceMap";
+import { useSelectedChain } from "@/hooks/use-chain";
+import { getSelectedChain } from "@/lib/chains";
 
 interface ContractData {
   address: string;
@@ -30,15 +33,19 @@ export default function ContractDetailsPage({
   const [activeTab, setActiveTab] = useState("source");
   const [activeSubTab, setActiveSubTab] = useState("source-code");
   const [activeSourceFile, setActiveSourceFile] = useState<string>("");
-  const [parsedSourceCode, setParsedSourceCode] = useState<any>(null);
+  const [parsedSourceCode, setParsedSourceCode] = useState<ParsedSourceCode | null>(null);
+  // ?file=&line=&revert= from trace "source" links
+  const [linkedLocation, setLinkedLocation] = useState<{ file?: string; line?: number; revert?: number }>({});
   const [isLoading, setIsLoading] = useState(true);
   const [balance, setBalance] = useState<string>("0.00");
+  const chain = useSelectedChain();
 
   const fetchBalance = async (address: string) => {
     try {
-      const provider = new ethers.JsonRpcProvider(process.env.NEXT_PUBLIC_HYPEREVM_RPC_URL);
+      const { rpcUrl, nativeDecimals } = getSelectedChain();
+      const provider = new ethers.JsonRpcProvider(rpcUrl);
       const balanceWei = await provider.getBalance(address);
-      const balanceEth = ethers.formatEther(balanceWei);
+      const balanceEth = ethers.formatUnits(balanceWei, nativeDecimals);
       setBalance(parseFloat(balanceEth).toFixed(4));
     } catch (error) {
       console.error("Error fetching balance:", error);
@@ -46,6 +53,27 @@ export default function ContractDetailsPage({
     }
   };
 
+  useEffect(() => {
+    const sp = new URLSearchParams(window.location.search);
+    setLinkedLocation({
+      file: sp.get("file") ?? undefined,
+      line: Number(sp.get("line")) || undefined,
+      revert: Number(sp.get("revert")) || undefined,
+    });
+  }, []);
+
+  // Is the displayed file the one the link points at (single-file sources have no file list)
+  const showsLinkedFile =
+    !!linkedLocation.line &&
+    (!parsedSourceCode || !linkedLocation.file || activeSourceFile === linkedLocation.file);
+
+  useEffect(() => {
+    if (!showsLinkedFile || !linkedLocation.line) return;
+    document
+      .getElementById(`source-line-${linkedLocation.line}`)
+      ?.scrollIntoView({ block: "center" });
+  }, [showsLinkedFile, linkedLocation.line, contract, activeSubTab]);
+
   useEffect(() => {
     const loadContract = async () => {
       try {
@@ -77,28 +105,15 @@ export default function ContractDetailsPage({
               contractData.SourceCode &&
               contractData.SourceCode.trim() !== ""
             ) {
-              try {
-                // Handle double curly braces wrapping
-                let sourceCodeToParse = contractData.SourceCode;
-                if (
-                  sourceCodeToParse.startsWith("{{") &&
-                  sourceCodeToParse.endsWith("}}")
-                ) {
-                  sourceCodeToParse = sourceCodeToParse.slice(1, -1); // Remove {{ and }}
-                }
-
-                const parsed = JSON.parse(sourceCodeToParse);
-                // console.log("Parsed source code:", parsed);
-                if (parsed.sources && typeof parsed.sources === "object") {
-                  // console.log("Sources found:", Object.keys(parsed.sources));
-                  setParsedSourceCode(parsed);
-                  // Set the first file as active
-                  const firstFile = Object.keys(parsed.sources)[0];
-                  // console.log("First file:", firstFile);
-                  setActiveSourceFile(firstFile);
-                }
-              } catch (e) {
-                console.log("Error parsing SourceCode:", e);
+              const parsed = parseSourceCode(contractData.SourceCode);
+              if (parsed) {
+                setParsedSourceCode(parsed);
+                // Open the linked file (?file=), else the first one
+                const linked = new URLSearchParams(window.location.search).get("file");
+                setActiveSourceFile(
+                  linked && parsed.sources[linked] ? linked : Object.keys(parsed.sources)[0]
+                );
+              } else {
                 // If not JSON, keep as plain text
                 setParsedSourceCode(null);
               }
@@ -235,7 +250,7 @@ export default function ContractDetailsPage({
           <div className="space-y-2">
             <div className="flex justify-between">
               <span className="text-gray-400">Network:</span>
-              <span className="text-white">HyperEVM Mainnet</span>
+              <span className="text-white">{chain.name}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-400">Type:</span>
@@ -259,8 +274,8 @@ export default function ContractDetailsPage({
               </div>
             )}
             <div className="flex justify-between">
-              <span className="text-gray-400">HYPE Balance:</span>
-              <span className="text-white">{balance} HYPE</span>
+              <span className="text-gray-400">{chain.nativeSymbol} Balance:</span>
+              <span className="text-white">{balance} {chain.nativeSymbol}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-400">Deployment Address:</span>
@@ -554,6 +569,21 @@ export default function ContractDetailsPage({
                                   fontSize: "13px",
                                   lineHeight: "1.4",
                                 }}
+                                showLineNumbers
+                                wrapLines
+                                lineProps={(lineNumber: number) => {
+                                  const props: React.HTMLProps<HTMLElement> = {
+                                    id: `source-line-${lineNumber}`,
+                                    style: { display: "block" },
+                                  };
+                                  if (!showsLinkedFile) return props;
+                                  if (lineNumber === linkedLocation.revert) {
+                                    props.style = { display: "block", backgroundColor: "rgba(239, 68, 68, 0.25)" };
+                                  } else if (lineNumber === linkedLocation.line) {
+                                    props.style = { display: "block", backgroundColor: "rgba(250, 204, 21, 0.15)" };
+                                  }
+                                  return props;
+                                }}
                               >
                                 {(() => {
                                   // Prefer parsed multi-file JSON if available
@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { RefreshCw, ChevronDown, Plus, Upload, CheckCircle, Info } from "lucide-react";
 import Image from "next/image";
+import { useSelectedChain } from "@/hooks/use-chain";
 
 /** @jsxImportSource react */
 interface ContractData {
@@ -21,6 +22,7 @@ export default function ContractsPage() {
   const [contracts, setContracts] = useState<ContractData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [hasSimulationData, setHasSimulationData] = useState(false);
+  const chain = useSelectedChain();
 
   useEffect(() => {
     const loadContracts = async () => {
@@ -80,9 +82,9 @@ export default function ContractsPage() {
 
   const getNetworkInfo = () => {
     return {
-      name: "HyperEVM Mainnet",
+      name: chain.name,
       icon: "🌐",
-      color: "text-blue-400",
+      color: chain.testnet ? "text-yellow-400" : "text-blue-400",
     };
   };
 
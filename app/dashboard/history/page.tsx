@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Pin, PinOff, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  HistoryRun,
+  RunStatus,
+  clearHistory,
+  deleteRun,
+  historyAvailable,
+  historyRerunHref,
+  historyViewHref,
+  listRuns,
+  matchesSearch,
+  setPinned,
+} from "@/lib/history";
+import { formatAddress } from "@/lib/utils";
+
+const STATUS_STYLE: Record<RunStatus, string> = {
+  success: "text-green-400 border-green-700",
+  reverted: "text-red-400 border-red-700",
+  error: "text-yellow-400 border-yellow-700",
+};
+
+const panelStyle = {
+  backgroundColor: "rgba(30, 30, 30, 0.6)",
+  borderColor: "var(--border)",
+};
+
+export default function HistoryPage() {
+  const [runs, setRuns] = useState<HistoryRun[]>([]);
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<RunStatus | "all">("all");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    if (!historyAvailable()) {
+      setError("History needs IndexedDB, which this browser does not provide.");
+      setIsLoading(false);
+      return;
+    }
+    try {
+      setRuns(await listRuns());
+      setError(null);
+    } catch (e: any) {
+      setError(e?.message || "Failed to read history");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // pinned runs first, then newest first (listRuns order)
+  const visible = useMemo(
+    () =>
+      runs
+        .filter((r) => (status === "all" || r.status === status) && matchesSearch(r, search))
+        .sort((a, b) => Number(b.pinned) - Number(a.pinned)),
+    [runs, search, status]
+  );
+
+  const togglePin = async (run: HistoryRun) => {
+    await setPinned(run.id, !run.pinned);
+    refresh();
+  };
+
+  const remove = async (run: HistoryRun) => {
+    await deleteRun(run.id);
+    refresh();
+  };
+
+  const clearAll = async () => {
+    if (!window.confirm("Delete all stored runs, including pinned ones?")) return;
+    await clearHistory();
+    refresh();
+  };
+
+  const target = (run: HistoryRun) => {
+    if (run.kind === "trace") return run.txHash ? `tx ${run.txHash.slice(0, 10)}…` : "tx";
+    const sp = new URLSearchParams(run.query);
+    if (run.kind === "bundle") {
+      const count = "transactions" in run.request ? run.request.transactions.length : undefined;
+      return count !== undefined ? `bundle of ${count}` : "bundle";
+    }
+    const to = sp.get("to");
+    const selector = sp.get("input")?.slice(0, 10);
+    return `${to ? formatAddress(to) : "contract creation"}${selector && selector.length === 10 ? ` · ${selector}` : ""}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">History</h1>
+          <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+            Simulations and traces run in this browser. Search by address, selector, tx hash or
+            <span className="font-mono"> status:reverted</span>.
+          </p>
+        </div>
+        {runs.length > 0 && (
+          <Button variant="outline" size="sm" style={{ borderColor: "var(--border)" }} onClick={clearAll}>
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="0xabc…, 0xa9059cbb, status:reverted"
+          className="max-w-md"
+        />
+        {(["all", "success", "reverted", "error"] as const).map((s) => (
+          <button
+            key={s}
+            onClick={() => setStatus(s)}
+            className={`px-3 py-1 text-xs rounded border transition-colors ${
+              status === s ? "text-white" : "text-gray-400 hover:text-gray-200"
+            }`}
+            style={{
+              borderColor: status === s ? "var(--color-primary)" : "var(--border)",
+              backgroundColor: status === s ? "rgba(23,190,187,0.15)" : "transparent",
+            }}
+          >
+            {s}
+          </button>
+        ))}
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mr-3"></div>
+          <div className="text-white">Loading history...</div>
+        </div>
+      )}
+      {error && <div className="text-red-400">⚠️ {error}</div>}
+
+      {!isLoading && visible.length === 0 && (
+        <div className="text-gray-400 text-center py-8">
+          {runs.length === 0 ? "No runs yet. Simulations are recorded here as you run them." : "No runs match"}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {visible.map((run) => (
+          <div key={run.id} className="p-3 rounded-lg border flex flex-wrap items-center gap-3" style={panelStyle}>
+            <button
+              onClick={() => togglePin(run)}
+              className={run.pinned ? "text-yellow-400" : "text-gray-500 hover:text-gray-300"}
+              title={run.pinned ? "Unpin" : "Pin (pinned runs are never pruned)"}
+            >
+              {run.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+            </button>
+            <span className="text-xs text-gray-400 w-40">{new Date(run.timestamp).toLocaleString()}</span>
+            <span className="text-xs uppercase text-gray-500 w-16">{run.kind}</span>
+            <span className={`text-xs border rounded px-2 py-0.5 ${STATUS_STYLE[run.status]}`}>{run.status}</span>
+            <span className="font-mono text-sm text-white flex-1 min-w-0 truncate" title={run.error}>
+              {target(run)}
+              {run.error && <span className="text-yellow-400 ml-2">{run.error}</span>}
+            </span>
+            {run.gasUsed && (
+              <span className="text-xs text-gray-400 font-mono">{BigInt(run.gasUsed).toLocaleString()} gas</span>
+            )}
+            <div className="flex items-center gap-2">
+              {run.response && (
+                <Link href={historyViewHref(run)}>
+                  <Button size="sm" variant="outline" style={{ borderColor: "var(--border)" }}>
+                    Open
+                  </Button>
+                </Link>
+              )}
+              {run.query && (
+                <Link href={historyRerunHref(run)}>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    style={{ borderColor: "var(--border)" }}
+                    title="Run the same request against the latest block"
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Re-run
+                  </Button>
+                </Link>
+              )}
+              <button onClick={() => remove(run)} className="text-gray-500 hover:text-red-400" title="Delete">
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Download, FlaskConical, Pencil, Play, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { BlockPolicyField } from "@/components/save-scenario-dialog";
+import AssertionEditor, { AssertionDraft, fromDrafts, toDraft } from "../components/AssertionEditor";
+import { describeAssertion } from "@/lib/assertions";
+import { chainFromQuery } from "@/lib/chains";
+import {
+  Project,
+  Scenario,
+  deleteScenario,
+  downloadProjects,
+  getProject,
+  renameProject,
+  scenarioEditHref,
+  scenarioRunHref,
+  updateScenario,
+} from "@/lib/projects";
+
+const panelStyle = {
+  backgroundColor: "rgba(30, 30, 30, 0.6)",
+  borderColor: "var(--border)",
+};
+
+type Draft = Pick<Scenario, "title" | "notes" | "blockPolicy"> & { tags: string; assertions: AssertionDraft[] };
+
+export default function ProjectPage() {
+  const params = useParams<{ id: string }>();
+  const id = params?.id || "";
+
+  const [project, setProject] = useState<Project | null | undefined>(undefined);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; draft: Draft } | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setProject(getProject(id) ?? null);
+  }, [id]);
+
+  if (project === undefined) return null;
+  if (project === null) {
+    return (
+      <div className="text-center py-16 space-y-4">
+        <div className="text-yellow-400 text-xl">⚠️ Project not found</div>
+        <Link href="/dashboard/projects" className="underline text-gray-300">
+          Back to Projects
+        </Link>
+      </div>
+    );
+  }
+
+  const tags = Array.from(new Set(project.scenarios.flatMap((s) => s.tags))).sort();
+  const scenarios = project.scenarios.filter((s) => !tagFilter || s.tags.includes(tagFilter));
+
+  const startEdit = (s: Scenario) =>
+    setEditing({
+      id: s.id,
+      draft: {
+        title: s.title,
+        notes: s.notes,
+        tags: s.tags.join(", "),
+        blockPolicy: s.blockPolicy,
+        assertions: s.assertions.map(toDraft),
+      },
+    });
+
+  const saveEdit = () => {
+    if (!editing) return;
+    const { draft } = editing;
+    if (draft.blockPolicy.mode === "fixed" && !/^\d+$/.test(draft.blockPolicy.block.trim())) {
+      setEditError("Fixed block must be a block number");
+      return;
+    }
+    try {
+      const assertions = fromDrafts(draft.assertions);
+      setProject(updateScenario(project.id, editing.id, { ...draft, tags: draft.tags.split(","), assertions }));
+      setEditing(null);
+      setEditError(null);
+    } catch (e: any) {
+      setEditError(e?.message || "Invalid assertion");
+    }
+  };
+
+  const remove = (s: Scenario) => {
+    if (!window.confirm(`Delete scenario "${s.title}"?`)) return;
+    setProject(deleteScenario(project.id, s.id));
+  };
+
+  const setDraft = (changes: Partial<Draft>) =>
+    setEditing((prev) => (prev ? { ...prev, draft: { ...prev.draft, ...changes } } : prev));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex-1 space-y-2">
+          <Link href="/dashboard/projects" className="text-xs text-gray-400 hover:text-white">
+            ← Projects
+          </Link>
+          <Input
+            value={project.name}
+            onChange={(e) => setProject({ ...project, name: e.target.value })}
+            onBlur={() => setProject(renameProject(project.id, project.name, project.description))}
+            className="text-2xl font-bold h-12 border-0 px-0 bg-transparent"
+          />
+          <Textarea
+            value={project.description}
+            onChange={(e) => setProject({ ...project, description: e.target.value })}
+            onBlur={() => setProject(renameProject(project.id, project.name, project.description))}
+            placeholder="What this project covers"
+            className="text-sm min-h-[60px]"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Link href={`/dashboard/projects/${project.id}/run`}>
+            <Button
+              className="border-0"
+              style={{ backgroundColor: "var(--btn-primary-bg)", color: "var(--btn-primary-text)" }}
+            >
+              <FlaskConical className="h-4 w-4 mr-2" />
+              Run suite
+            </Button>
+          </Link>
+          <Button
+            variant="outline"
+            style={{ borderColor: "var(--border)" }}
+            onClick={() => downloadProjects([project], `${project.name.replace(/[^\w-]+/g, "_") || "project"}.json`)}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </div>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-400">Tags:</span>
+          {[null, ...tags].map((t) => (
+            <button
+              key={t ?? "all"}
+              onClick={() => setTagFilter(t)}
+              className={`px-3 py-1 text-xs rounded border ${tagFilter === t ? "text-white" : "text-gray-400 hover:text-gray-200"}`}
+              style={{
+                borderColor: tagFilter === t ? "var(--color-primary)" : "var(--border)",
+                backgroundColor: tagFilter === t ? "rgba(23,190,187,0.15)" : "transparent",
+              }}
+            >
+              {t ?? "all"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {project.scenarios.length === 0 && (
+        <div className="text-gray-400 text-center py-8">
+          No scenarios yet. Use “Save to Project” on the Simulator or Advance Simulator.
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {scenarios.map((s) => {
+          const draft = editing?.id === s.id ? editing.draft : null;
+          return (
+            <div key={s.id} className="p-4 rounded-lg border space-y-2" style={panelStyle}>
+              {draft ? (
+                <div className="space-y-2">
+                  <Input value={draft.title} onChange={(e) => setDraft({ title: e.target.value })} placeholder="Title" />
+                  <Textarea
+                    value={draft.notes}
+                    onChange={(e) => setDraft({ notes: e.target.value })}
+                    placeholder="Notes"
+                    className="text-sm min-h-[80px]"
+                  />
+                  <Input
+                    value={draft.tags}
+                    onChange={(e) => setDraft({ tags: e.target.value })}
+                    placeholder="Tags (comma separated)"
+                  />
+                  <BlockPolicyField value={draft.blockPolicy} onChange={(blockPolicy) => setDraft({ blockPolicy })} />
+                  <AssertionEditor
+                    drafts={draft.assertions}
+                    onChange={(assertions) => setDraft({ assertions })}
+                    bundle={s.kind === "bundle"}
+                  />
+                  {editError && <div className="text-sm text-red-400">{editError}</div>}
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={saveEdit}
+                      style={{ backgroundColor: "var(--btn-primary-bg)", color: "var(--btn-primary-text)" }}
+                    >
+                      Save
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        setEditing(null);
+                        setEditError(null);
+                      }}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="text-xs uppercase text-gray-500">{s.kind === "bundle" ? "bundle" : "tx"}</span>
+                      <span className="text-white font-medium truncate">{s.title}</span>
+                      <span className="text-xs text-gray-400">
+                        {chainFromQuery(s.query).shortName} ·{" "}
+                        {s.blockPolicy.mode === "fixed" ? `block ${s.blockPolicy.block}` : "latest block"}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Link href={scenarioRunHref(s)}>
+                        <Button
+                          size="sm"
+                          className="border-0"
+                          style={{ backgroundColor: "var(--btn-primary-bg)", color: "var(--btn-primary-text)" }}
+                        >
+                          <Play className="h-3 w-3 mr-1" />
+                          Run
+                        </Button>
+                      </Link>
+                      <Link href={scenarioEditHref(s)}>
+                        <Button size="sm" variant="outline" style={{ borderColor: "var(--border)" }}>
+                          Open in {s.kind === "bundle" ? "Advance Simulator" : "Simulator"}
+                        </Button>
+                      </Link>
+                      <button onClick={() => startEdit(s)} className="text-gray-500 hover:text-white" title="Edit">
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => remove(s)} className="text-gray-500 hover:text-red-400" title="Delete">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                  {s.notes && <div className="text-sm text-gray-400 whitespace-pre-wrap">{s.notes}</div>}
+                  {s.assertions.length > 0 && (
+                    <ul className="text-xs text-gray-400 font-mono space-y-0.5">
+                      {s.assertions.map((a, i) => (
+                        <li key={i} className="break-all">
+                          ✓ {describeAssertion(a)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {s.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {s.tags.map((t) => (
+                        <span key={t} className="text-xs px-2 py-0.5 rounded border text-gray-300" style={{ borderColor: "var(--border)" }}>
+                          {t}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
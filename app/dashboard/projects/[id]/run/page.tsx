@@ -0,0 +1,156 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { CheckCircle2, CircleSlash, FlaskConical, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { describeAssertion } from "@/lib/assertions";
+import { Project, getProject, scenarioRunHref } from "@/lib/projects";
+import { ScenarioReport, ScenarioStatus, SuiteReport, runSuite } from "@/lib/testRunner";
+
+const STATUS_STYLE: Record<ScenarioStatus, string> = {
+  pass: "text-green-400 border-green-700",
+  fail: "text-red-400 border-red-700",
+  error: "text-yellow-400 border-yellow-700",
+  skipped: "text-gray-400 border-gray-600",
+};
+
+const panelStyle = {
+  backgroundColor: "rgba(30, 30, 30, 0.6)",
+  borderColor: "var(--border)",
+};
+
+export default function SuiteRunnerPage() {
+  const params = useParams<{ id: string }>();
+  const id = params?.id || "";
+
+  const [project, setProject] = useState<Project | null | undefined>(undefined);
+  const [reports, setReports] = useState<ScenarioReport[]>([]);
+  const [summary, setSummary] = useState<SuiteReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setProject(getProject(id) ?? null);
+    return () => controllerRef.current?.abort();
+  }, [id]);
+
+  const run = async () => {
+    if (!project) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setReports([]);
+    setSummary(null);
+    try {
+      const report = await runSuite(project, {
+        signal: controller.signal,
+        onScenario: (r) => setReports((prev) => [...prev, r]),
+      });
+      if (!controller.signal.aborted) setSummary(report);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (project === undefined) return null;
+  if (project === null) {
+    return (
+      <div className="text-center py-16 space-y-4">
+        <div className="text-yellow-400 text-xl">⚠️ Project not found</div>
+        <Link href="/dashboard/projects" className="underline text-gray-300">
+          Back to Projects
+        </Link>
+      </div>
+    );
+  }
+
+  const withAssertions = project.scenarios.filter((s) => s.assertions.length).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div className="space-y-1">
+          <Link href={`/dashboard/projects/${project.id}`} className="text-xs text-gray-400 hover:text-white">
+            ← {project.name}
+          </Link>
+          <h1 className="text-3xl font-bold">Test Run</h1>
+          <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+            Replays {project.scenarios.length} scenario(s), {withAssertions} with assertions, one after another.
+            Headless: <span className="font-mono">npm run -s illusio -- suite project.json</span>
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {running && (
+            <Button variant="outline" style={{ borderColor: "var(--border)" }} onClick={() => controllerRef.current?.abort()}>
+              Stop
+            </Button>
+          )}
+          <Button
+            onClick={run}
+            disabled={running || !withAssertions}
+            className="border-0"
+            style={{ backgroundColor: "var(--btn-primary-bg)", color: "var(--btn-primary-text)" }}
+          >
+            <FlaskConical className="h-4 w-4 mr-2" />
+            {running ? "Running..." : "Run suite"}
+          </Button>
+        </div>
+      </div>
+
+      {!withAssertions && (
+        <div className="text-gray-400">No scenario has assertions yet. Edit a scenario in the project to add some.</div>
+      )}
+
+      {summary && (
+        <div className="p-4 rounded-lg border flex flex-wrap gap-4 text-sm" style={panelStyle}>
+          <span className="text-green-400">{summary.counts.pass} passed</span>
+          <span className="text-red-400">{summary.counts.fail} failed</span>
+          <span className="text-yellow-400">{summary.counts.error} errored</span>
+          <span className="text-gray-400">{summary.counts.skipped} skipped</span>
+          <span className="text-gray-500 ml-auto">{(summary.durationMs / 1000).toFixed(1)} s</span>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {reports.map((r) => (
+          <div key={r.scenario.id} className="p-4 rounded-lg border space-y-2" style={panelStyle}>
+            <div className="flex items-center gap-3">
+              <span className={`text-xs border rounded px-2 py-0.5 uppercase ${STATUS_STYLE[r.status]}`}>{r.status}</span>
+              <span className="text-white font-medium">{r.scenario.title}</span>
+              <span className="text-xs text-gray-500">{r.durationMs} ms</span>
+              <Link href={scenarioRunHref(r.scenario)} className="ml-auto text-xs underline text-gray-400 hover:text-white">
+                Open result
+              </Link>
+            </div>
+            {r.error && <div className="text-sm text-yellow-400">⚠️ {r.error}</div>}
+            {r.results.map((a, i) => (
+              <div key={i} className="flex items-start gap-2 text-xs font-mono">
+                {a.pass ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-400 flex-shrink-0" />
+                ) : (
+                  <XCircle className="h-4 w-4 text-red-400 flex-shrink-0" />
+                )}
+                <span className="text-gray-300 break-all">{describeAssertion(a.assertion)}</span>
+                <span className={`break-all ${a.pass ? "text-gray-500" : "text-red-300"}`}>— {a.message}</span>
+              </div>
+            ))}
+            {r.status === "skipped" && (
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                <CircleSlash className="h-4 w-4" />
+                No assertions
+              </div>
+            )}
+          </div>
+        ))}
+        {running && (
+          <div className="flex items-center text-gray-400 text-sm">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-3"></div>
+            Running scenario {reports.length + 1} of {project.scenarios.length}...
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
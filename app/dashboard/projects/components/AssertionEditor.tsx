@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Assertion, AssertionType, InvalidAssertionError, normalizeAssertion } from "@/lib/assertions";
+
+// Form fields of one assertion, all as text; converted with normalizeAssertion on save
+export type AssertionDraft = Record<string, string> & { type: AssertionType };
+
+const TYPES: { id: AssertionType; label: string }[] = [
+  { id: "status", label: "Succeeds / reverts" },
+  { id: "event", label: "Emits event" },
+  { id: "balance", label: "Balance changes by" },
+  { id: "storage", label: "Storage slot" },
+  { id: "gas", label: "Gas under" },
+];
+
+const FIELDS: Record<AssertionType, { key: string; placeholder: string; width?: string }[]> = {
+  status: [{ key: "error", placeholder: "error name or message (optional)", width: "w-64" }],
+  event: [
+    { key: "name", placeholder: "Transfer or Transfer(address,address,uint256)", width: "w-64" },
+    { key: "address", placeholder: "emitter (optional)", width: "w-48" },
+    { key: "args", placeholder: "to=0x…, value=1000 (optional)", width: "w-64" },
+  ],
+  balance: [
+    { key: "holder", placeholder: "holder address", width: "w-48" },
+    { key: "token", placeholder: "token (empty = native)", width: "w-48" },
+    { key: "delta", placeholder: "delta, raw units", width: "w-40" },
+  ],
+  storage: [
+    { key: "address", placeholder: "contract address", width: "w-48" },
+    { key: "slot", placeholder: "0x slot or variable (slot0.tick)", width: "w-56" },
+    { key: "delta", placeholder: "changes by", width: "w-32" },
+    { key: "equals", placeholder: "or ends as", width: "w-32" },
+  ],
+  gas: [{ key: "max", placeholder: "max gas used", width: "w-40" }],
+};
+
+export function toDraft(a: Assertion): AssertionDraft {
+  const draft: AssertionDraft = { type: a.type, tx: a.tx !== undefined ? String(a.tx + 1) : "" };
+  for (const [k, v] of Object.entries(a)) {
+    if (k === "type" || k === "tx" || v === undefined) continue;
+    draft[k] = k === "args" ? Object.entries(v as Record<string, string>).map(([n, x]) => `${n}=${x}`).join(", ") : String(v);
+  }
+  return draft;
+}
+
+/** Throws InvalidAssertionError with a message for the first invalid draft */
+export function fromDrafts(drafts: AssertionDraft[]): Assertion[] {
+  return drafts.map((d) => {
+    const args: Record<string, string> = {};
+    for (const pair of (d.args ?? "").split(",")) {
+      const [k, ...rest] = pair.split("=");
+      if (k?.trim() && rest.length) args[k.trim()] = rest.join("=").trim();
+    }
+    const txText = d.tx?.trim();
+    if (txText && !/^[1-9]\d*$/.test(txText)) throw new InvalidAssertionError(`tx # must be 1 or more, got "${txText}"`);
+    const tx = txText ? Number(txText) - 1 : undefined;
+    return normalizeAssertion({ ...d, args, tx });
+  });
+}
+
+export default function AssertionEditor({
+  drafts,
+  onChange,
+  bundle,
+}: {
+  drafts: AssertionDraft[];
+  onChange: (drafts: AssertionDraft[]) => void;
+  bundle: boolean;
+}) {
+  const [newType, setNewType] = useState<AssertionType>("status");
+
+  const update = (i: number, changes: Partial<AssertionDraft>) =>
+    onChange(drafts.map((d, j) => (j === i ? ({ ...d, ...changes } as AssertionDraft) : d)));
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-gray-400">Assertions</div>
+      {drafts.map((d, i) => (
+        <div key={i} className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-300 w-36">{TYPES.find((t) => t.id === d.type)?.label}</span>
+          {d.type === "status" && (
+            <Select value={d.expect || "success"} onValueChange={(expect) => update(i, { expect })}>
+              <SelectTrigger className="w-28 h-8 text-sm" style={{ borderColor: "var(--border)" }}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="success">succeeds</SelectItem>
+                <SelectItem value="revert">reverts</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          {FIELDS[d.type].map((f) => (
+            <Input
+              key={f.key}
+              value={d[f.key] ?? ""}
+              onChange={(e) => update(i, { [f.key]: e.target.value })}
+              placeholder={f.placeholder}
+              className={`h-8 text-sm font-mono ${f.width ?? ""}`}
+            />
+          ))}
+          {bundle && (
+            <Input
+              value={d.tx ?? ""}
+              onChange={(e) => update(i, { tx: e.target.value })}
+              placeholder="tx # (all)"
+              className="h-8 text-sm w-24"
+            />
+          )}
+          <button
+            type="button"
+            onClick={() => onChange(drafts.filter((_, j) => j !== i))}
+            className="text-gray-500 hover:text-red-400"
+            title="Remove assertion"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <Select value={newType} onValueChange={(v) => setNewType(v as AssertionType)}>
+          <SelectTrigger className="w-48 h-8 text-sm" style={{ borderColor: "var(--border)" }}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TYPES.map((t) => (
+              <SelectItem key={t.id} value={t.id}>
+                {t.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          style={{ borderColor: "var(--border)" }}
+          onClick={() => onChange([...drafts, { type: newType, ...(newType === "status" ? { expect: "success" } : {}) } as AssertionDraft])}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add assertion
+        </Button>
+      </div>
+    </div>
+  );
+}
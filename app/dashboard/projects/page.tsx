@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Download, FolderOpen, Plus, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Project,
+  createProject,
+  deleteProject,
+  downloadProjects,
+  importProjects,
+  loadProjects,
+  projectsStorageWarning,
+} from "@/lib/projects";
+
+const panelStyle = {
+  backgroundColor: "rgba(30, 30, 30, 0.6)",
+  borderColor: "var(--border)",
+};
+
+export default function ProjectsPage() {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [name, setName] = useState("");
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    setProjects(loadProjects());
+    setStorageWarning(projectsStorageWarning());
+  };
+
+  useEffect(refresh, []);
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    try {
+      createProject(name);
+      setName("");
+      refresh();
+    } catch (e: any) {
+      setMessage({ text: e?.message || "Could not create the project", error: true });
+    }
+  };
+
+  const handleDelete = (p: Project) => {
+    if (!window.confirm(`Delete "${p.name}" and its ${p.scenarios.length} scenario(s)?`)) return;
+    try {
+      deleteProject(p.id);
+      refresh();
+    } catch (e: any) {
+      setMessage({ text: e?.message || "Could not delete the project", error: true });
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = importProjects(JSON.parse(await file.text()));
+      const count = imported.reduce((n, p) => n + p.scenarios.length, 0);
+      setMessage({ text: `Imported ${imported.length} project(s) with ${count} scenario(s)` });
+      refresh();
+    } catch (e: any) {
+      setMessage({ text: e instanceof SyntaxError ? "Invalid JSON" : e?.message || "Import failed", error: true });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Projects</h1>
+          <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+            Named groups of saved simulations and bundles. Save scenarios from the Simulator or Advance
+            Simulator; share a project as a JSON file.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = "";
+            }}
+          />
+          <Button variant="outline" style={{ borderColor: "var(--border)" }} onClick={() => fileInput.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          {projects.length > 0 && (
+            <Button variant="outline" style={{ borderColor: "var(--border)" }} onClick={() => downloadProjects(projects)}>
+              <Download className="h-4 w-4 mr-2" />
+              Export all
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {message && <div className={`text-sm ${message.error ? "text-red-400" : "text-gray-400"}`}>{message.text}</div>}
+      {storageWarning && <div className="text-sm text-yellow-400">{storageWarning}</div>}
+
+      <div className="flex gap-2 max-w-md">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+          placeholder="New project name"
+        />
+        <Button
+          onClick={handleCreate}
+          className="border-0"
+          style={{ backgroundColor: "var(--btn-primary-bg)", color: "var(--btn-primary-text)" }}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Create
+        </Button>
+      </div>
+
+      {projects.length === 0 && <div className="text-gray-400 text-center py-8">No projects yet</div>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {projects.map((p) => {
+          const tags = Array.from(new Set(p.scenarios.flatMap((s) => s.tags)));
+          return (
+            <div key={p.id} className="p-4 rounded-lg border space-y-2" style={panelStyle}>
+              <div className="flex items-center justify-between">
+                <Link href={`/dashboard/projects/${p.id}`} className="flex items-center gap-2 text-white font-medium hover:underline">
+                  <FolderOpen className="h-4 w-4" style={{ color: "var(--color-primary)" }} />
+                  {p.name}
+                </Link>
+                <button onClick={() => handleDelete(p)} className="text-gray-500 hover:text-red-400" title="Delete project">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              {p.description && <div className="text-sm text-gray-400">{p.description}</div>}
+              <div className="text-xs text-gray-500">
+                {p.scenarios.filter((s) => s.kind === "simulate").length} simulation(s) ·{" "}
+                {p.scenarios.filter((s) => s.kind === "bundle").length} bundle(s) · updated{" "}
+                {new Date(p.updatedAt).toLocaleString()}
+              </div>
+              {tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {tags.map((t) => (
+                    <span key={t} className="text-xs px-2 py-0.5 rounded border text-gray-300" style={{ borderColor: "var(--border)" }}>
+                      {t}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
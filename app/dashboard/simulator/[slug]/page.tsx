@@ -16,12 +16,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ChevronDown, ChevronUp, Loader2, Plus, Sparkles } from "lucide-react";
 import { useParams, useRouter } from "next/navigation";
 import {
-  fetchContractABI,
-  ContractABI,
   EtherscanFunction,
   getFunctionDisplayName,
+  getFunctionSignature,
   encodeFunctionCall,
 } from "@/lib/etherscan";
+import { ParamValue, emptyValue, functionParamsIssues } from "@/lib/abiParams";
+import { decodeCalldata, functionSignature, nestedDecoder } from "@/lib/calldata";
+import { AbiParamsForm } from "@/components/abi-param-input";
 import { ethers } from "ethers";
 import { Info } from "lucide-react";
 import {
@@ -30,6 +32,18 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { SaveScenarioDialog } from "@/components/save-scenario-dialog";
+import { PasteAbiDialog } from "@/components/paste-abi-dialog";
+import {
+  ABI_SOURCE_LABEL,
+  ResolvedContractABI,
+  resolveContractABI,
+  toContractABI,
+} from "@/lib/abiResolver";
+import { ShareLinkButton } from "@/components/share-link-button";
+import { decodeShareFragment, sharePayloadToQuery } from "@/lib/shareLink";
+import { CHAINS, chainFromQuery, setSelectedChain } from "@/lib/chains";
+import { useSelectedChain } from "@/hooks/use-chain";
 
 function serializeToQuery(
   form: {
@@ -40,6 +54,7 @@ function serializeToQuery(
     gas: string;
     gasPrice: string;
     blockNumber: string;
+    blockPosition: string;
   },
   hypeBalanceOverrides: Array<{ key: string; value: string }>,
   stateOverrideContracts: Array<{
@@ -49,7 +64,8 @@ function serializeToQuery(
   accessList: Array<{
     address: string;
     storageKeys: string[];
-  }>
+  }>,
+  chainId: number
 ) {
   // Build stateObjects like your submit path does
   const stateObjects: Record<
@@ -88,7 +104,9 @@ function serializeToQuery(
   }
 
   const qs = new URLSearchParams();
+  qs.set("chain", String(chainId));
   if (form.blockNumber) qs.set("block", form.blockNumber.trim());
+  if (form.blockPosition.trim()) qs.set("position", form.blockPosition.trim());
   if (form.from) qs.set("from", form.from.trim());
   if (form.to) qs.set("to", form.to.trim());
   if (form.gas) qs.set("gas", form.gas.trim());
@@ -113,6 +131,7 @@ function deserializeFromQuery(searchParams: URLSearchParams) {
     gas: searchParams.get("gas") || "",
     gasPrice: searchParams.get("gasPrice") || "",
     blockNumber: searchParams.get("block") || "",
+    blockPosition: searchParams.get("position") || "",
   };
 
   let hypeBalanceOverrides: Array<{ key: string; value: string }> = [];
@@ -183,6 +202,7 @@ export default function SimulatorPage() {
     gas: "",
     gasPrice: "",
     blockNumber: "",
+    blockPosition: "",
   });
   const [isLoading, setIsLoading] = useState(false);
   const [inputType, setInputType] = useState<"function" | "raw">("function");
@@ -192,14 +212,17 @@ export default function SimulatorPage() {
     "hydrate" | "raw" | "function" | null
   >(null);
   const [currentBlock, setCurrentBlock] = useState<number | null>(null);
+  const chain = useSelectedChain();
 
-  // Etherscan ABI
-  const [contractABI, setContractABI] = useState<ContractABI | null>(null);
+  // ABI from the resolver (local artifacts, Sourcify, Etherscan or pasted)
+  const [contractABI, setContractABI] = useState<ResolvedContractABI | null>(
+    null
+  );
   const [isLoadingABI, setIsLoadingABI] = useState(false);
   const [selectedFunction, setSelectedFunction] =
     useState<EtherscanFunction | null>(null);
   const [functionParameters, setFunctionParameters] = useState<
-    Array<{ name: string; type: string; value: string }>
+    Array<{ name: string; type: string; value: ParamValue }>
   >([]);
 
   // Hype Balance State
@@ -225,11 +248,23 @@ export default function SimulatorPage() {
   >([]);
 
   useEffect(() => {
-    // Only hydrate if URL has meaningful params
+    // Only hydrate if URL has meaningful params (or a #s= / #id= share link)
     if (typeof window === "undefined") return;
-    const sp = new URLSearchParams(window.location.search);
+    decodeShareFragment(window.location.hash, "simulate")
+      .then((shared) =>
+        hydrate(
+          shared
+            ? new URLSearchParams(sharePayloadToQuery(shared))
+            : new URLSearchParams(window.location.search)
+        )
+      )
+      .catch((e) => alert(e.message));
+  }, []);
+
+  function hydrate(sp: URLSearchParams) {
     if ([...sp.keys()].length === 0) return;
 
+    setSelectedChain(chainFromQuery(sp).id);
     const {
       form,
       hypeBalanceOverrides: balances,
@@ -256,7 +291,7 @@ export default function SimulatorPage() {
 
     setStateOverrideContracts(storNorm);
     setInputOrigin("hydrate");
-  }, []);
+  }
 
   useEffect(() => {
     const t = setTimeout(() => {
@@ -264,7 +299,8 @@ export default function SimulatorPage() {
         formData,
         hypeBalanceOverrides,
         stateOverrideContracts,
-        accessList
+        accessList,
+        chain.id
       );
       const nextSlug = "v1";
       // avoid infinite replaces: only replace if URL differs
@@ -277,7 +313,7 @@ export default function SimulatorPage() {
     }, 350); // debounce a bit
 
     return () => clearTimeout(t);
-  }, [formData, hypeBalanceOverrides, stateOverrideContracts, router]);
+  }, [formData, hypeBalanceOverrides, stateOverrideContracts, chain.id, router]);
 
   useEffect(() => {
     const fetchABI = async () => {
@@ -289,7 +325,7 @@ export default function SimulatorPage() {
       }
       setIsLoadingABI(true);
       try {
-        const abi = await fetchContractABI(formData.to);
+        const abi = await resolveContractABI(formData.to, chain);
         setContractABI(abi);
         setSelectedFunction(null);
         setFunctionParameters([]);
@@ -302,33 +338,24 @@ export default function SimulatorPage() {
     };
     const timeoutId = setTimeout(fetchABI, 1000);
     return () => clearTimeout(timeoutId);
-  }, [formData.to]);
-
-  useEffect(() => {
-    if (selectedFunction) {
-      const params = selectedFunction.inputs.map((input, index) => ({
-        name: input.name || `param${index}`,
-        type: input.type,
-        value: "",
-      }));
-      setFunctionParameters(params);
-    } else {
-      setFunctionParameters([]);
-    }
-  }, [selectedFunction]);
+  }, [formData.to, chain]);
 
+  // Raw calldata (typed, pasted or from a link) → function form, against the ABI or the signature database.
+  // Form edits write the calldata themselves (inputOrigin "function") and are not decoded back.
   useEffect(() => {
-    if (selectedFunction && contractABI) {
-      const encodedInput = encodeFunctionCall(
-        selectedFunction.name,
-        functionParameters,
-        contractABI
-      );
-      setInputOrigin("function");
-
-      setFormData((prev) => ({ ...prev, input: encodedInput }));
-    }
-  }, [selectedFunction, functionParameters, contractABI]);
+    if (inputOrigin === "function") return;
+    const decoded = decodeCalldata(formData.input, contractABI?.functions ?? []);
+    setSelectedFunction(decoded ? (decoded.fn as EtherscanFunction) : null);
+    setFunctionParameters(
+      decoded
+        ? decoded.fn.inputs.map((input, index) => ({
+            name: input.name || `param${index}`,
+            type: input.type,
+            value: decoded.values[index],
+          }))
+        : []
+    );
+  }, [formData.input, contractABI, inputOrigin]);
 
   useEffect(() => {
     if (!formData.input || formData.input.trim() === "") return;
@@ -345,7 +372,8 @@ export default function SimulatorPage() {
 
     async function loadBlock() {
       try {
-        const res = await fetch(process.env.NEXT_PUBLIC_RPC_URL as string, {
+        if (!chain.rpcUrl) return;
+        const res = await fetch(chain.rpcUrl, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -376,7 +404,7 @@ export default function SimulatorPage() {
       cancelled = true;
       clearInterval(t);
     };
-  }, []);
+  }, [chain.rpcUrl]);
 
   const loadExample = () => {
     const exampleInput = "0xac9650d80000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000164c04b8d59000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000a0000000000000000000000000d70c9e61ba506a8cf1c25b54d14b25abdc048fd400000000000000000000000000000000000000000000000000000198db70636f0000000000000000000000000000000000000000000002434d7ec4e83e4eb045000000000000000000000000000000000000000000000000000000000bcf72350000000000000000000000000000000000000000000000000000000000000064618275f8efe54c2afa87bfb9f210a52f0ff89364000000000000000000000000000000000000000055555555555555555555555555555555555555550000000000000000000000000000000000000000b8ce59fc3717ada4c02eadf9682a9e934f625ebb0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000";
@@ -394,6 +422,7 @@ export default function SimulatorPage() {
       gas: "800000",
       gasPrice: "100000000000",
       blockNumber: "11971891",
+      blockPosition: "",
     });
 
     // Optional: seed example overrides
@@ -421,13 +450,15 @@ export default function SimulatorPage() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (parameterIssues.length) return;
     setIsLoading(true);
     try {
       const qs = serializeToQuery(
         formData,
         hypeBalanceOverrides,
         stateOverrideContracts,
-        accessList
+        accessList,
+        chain.id
       );
       const slug = "v1";
       router.push(
@@ -442,19 +473,55 @@ export default function SimulatorPage() {
   };
 
   // ---------------- UI Events ----------------
-  const handleFunctionSelect = (functionName: string) => {
+  // keyed by full signature so overloads stay distinct
+  const handleFunctionSelect = (signature: string) => {
     if (contractABI) {
-      const func = contractABI.functions.find((f) => f.name === functionName);
+      const func = contractABI.functions.find(
+        (f) => getFunctionSignature(f) === signature
+      );
+      const params = (func?.inputs ?? []).map((input, index) => ({
+        name: input.name || `param${index}`,
+        type: input.type,
+        value: emptyValue(input),
+      }));
       setSelectedFunction(func || null);
+      setFunctionParameters(params);
+      setInputOrigin("function");
+      setFormData((prev) => ({
+        ...prev,
+        input: func ? encodeFunctionCall(func, params) : "",
+      }));
     }
   };
 
-  const handleParameterChange = (index: number, value: string) => {
-    const updatedParams = [...functionParameters];
-    updatedParams[index].value = value;
-    setFunctionParameters(updatedParams);
+  // Calldata follows the form while it encodes; invalid edits keep the last valid calldata
+  const handleParametersChange = (values: ParamValue[]) => {
+    const params = functionParameters.map((param, index) => ({
+      ...param,
+      value: values[index],
+    }));
+    setFunctionParameters(params);
+    const encodedInput =
+      selectedFunction && encodeFunctionCall(selectedFunction, params);
+    if (encodedInput) {
+      setInputOrigin("function");
+      setFormData((prev) => ({ ...prev, input: encodedInput }));
+    }
   };
 
+  // decoded through the signature database rather than the contract's ABI
+  const functionFromSignatures =
+    selectedFunction !== null &&
+    !contractABI?.functions.includes(selectedFunction);
+
+  const parameterIssues =
+    inputType === "function" && selectedFunction
+      ? functionParamsIssues(
+          selectedFunction.inputs,
+          functionParameters.map((p) => p.value)
+        )
+      : [];
+
   const isLeftSideComplete =
     formData.to.trim() !== "" &&
     ((inputType === "function" && selectedFunction) ||
@@ -466,24 +533,50 @@ export default function SimulatorPage() {
       <div className="mb-4 flex items-center justify-between">
         <h1 className="text-3xl font-bold">New Simulation</h1>
 
-        <Button
-          type="button"
-          onClick={loadExample}
-          variant="outline"
-          className="flex items-center gap-2"
-          style={{
-            borderColor: "var(--border)",
-            color: "var(--text-primary)",
-            backgroundColor: "rgba(30,30,30,0.6)",
-          }}
-        >
-          <Sparkles className="h-4 w-4" />
-          Load Example
-        </Button>
+        <div className="flex items-center gap-2">
+          <SaveScenarioDialog
+            kind="simulate"
+            getQuery={() =>
+              serializeToQuery(
+                formData,
+                hypeBalanceOverrides,
+                stateOverrideContracts,
+                accessList,
+                chain.id
+              )
+            }
+          />
+          <ShareLinkButton
+            kind="simulate"
+            getQuery={() =>
+              serializeToQuery(
+                formData,
+                hypeBalanceOverrides,
+                stateOverrideContracts,
+                accessList,
+                chain.id
+              )
+            }
+          />
+          <Button
+            type="button"
+            onClick={loadExample}
+            variant="outline"
+            className="flex items-center gap-2"
+            style={{
+              borderColor: "var(--border)",
+              color: "var(--text-primary)",
+              backgroundColor: "rgba(30,30,30,0.6)",
+            }}
+          >
+            <Sparkles className="h-4 w-4" />
+            Load Example
+          </Button>
+        </div>
       </div>
 
       <p className="text-sm mb-2" style={{ color: "var(--text-secondary)" }}>
-        Simulations run against current or archived HyperEVM state at the specified block, providing accurate gas estimates and state changes without broadcasting the transaction.
+        Simulations run against current or archived {chain.name} state at the specified block, providing accurate gas estimates and state changes without broadcasting the transaction.
       </p>
 
       <form onSubmit={handleSubmit}>
@@ -537,14 +630,38 @@ export default function SimulatorPage() {
                     )}
                   </div>
                   {contractABI && (
-                    <p className="text-xs text-green-400 mt-1">
-                      ✓ Contract verified on Etherscan
-                    </p>
+                    <div className="flex items-center gap-3 mt-1">
+                      <p
+                        className="text-xs text-green-400"
+                        title={contractABI.detail}
+                      >
+                        ✓ {contractABI.name ? `${contractABI.name} — ` : ""}ABI
+                        from {ABI_SOURCE_LABEL[contractABI.source]}
+                      </p>
+                      {contractABI.source === "manual" && (
+                        <PasteAbiDialog
+                          address={formData.to.trim()}
+                          label="Replace"
+                          onSaved={(r) => {
+                            setContractABI(toContractABI(r));
+                            setSelectedFunction(null);
+                          }}
+                        />
+                      )}
+                    </div>
                   )}
                   {formData.to.trim() && !isLoadingABI && !contractABI && (
-                    <p className="text-xs text-yellow-400 mt-1">
-                      ⚠ Contract not verified or not found
-                    </p>
+                    <div className="flex items-center gap-3 mt-1">
+                      <p className="text-xs text-yellow-400">
+                        ⚠ No ABI found for this contract
+                      </p>
+                      {ethers.isAddress(formData.to.trim()) && (
+                        <PasteAbiDialog
+                          address={formData.to.trim()}
+                          onSaved={(r) => setContractABI(toContractABI(r))}
+                        />
+                      )}
+                    </div>
                   )}
                 </div>
 
@@ -555,7 +672,10 @@ export default function SimulatorPage() {
                   >
                     Network
                   </Label>
-                  <Select>
+                  <Select
+                    value={String(chain.id)}
+                    onValueChange={(id) => setSelectedChain(Number(id))}
+                  >
                     <SelectTrigger
                       className="border"
                       style={{
@@ -565,7 +685,7 @@ export default function SimulatorPage() {
                         opacity: 0.8,
                       }}
                     >
-                      <SelectValue placeholder="HyperEVM Mainnet" />
+                      <SelectValue />
                     </SelectTrigger>
                     <SelectContent
                       className="border"
@@ -575,9 +695,11 @@ export default function SimulatorPage() {
                         color: "var(--text-primary)",
                       }}
                     >
-                      <SelectItem value="HyperEVM_Mainnet">
-                        HyperEVM Mainnet
-                      </SelectItem>
+                      {CHAINS.map((c) => (
+                        <SelectItem key={c.id} value={String(c.id)}>
+                          {c.name}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -650,7 +772,14 @@ export default function SimulatorPage() {
                             </span>
                           </div>
                         ) : contractABI ? (
-                          <Select onValueChange={handleFunctionSelect}>
+                          <Select
+                            value={
+                              selectedFunction && !functionFromSignatures
+                                ? getFunctionSignature(selectedFunction)
+                                : ""
+                            }
+                            onValueChange={handleFunctionSelect}
+                          >
                             <SelectTrigger
                               className="border"
                               style={{
@@ -671,22 +800,38 @@ export default function SimulatorPage() {
                               }}
                             >
                               {contractABI.functions.map((func, index) => (
-                                <SelectItem key={index} value={func.name}>
+                                <SelectItem
+                                  key={index}
+                                  value={getFunctionSignature(func)}
+                                >
                                   {getFunctionDisplayName(func)}
                                 </SelectItem>
                               ))}
                             </SelectContent>
                           </Select>
                         ) : (
-                          <div
-                            className="p-3 border rounded text-sm text-gray-400"
-                            style={{
-                              backgroundColor: "var(--bg-primary)",
-                              borderColor: "var(--border)",
-                            }}
-                          >
-                            Enter a verified contract address to load functions
-                          </div>
+                          !selectedFunction && (
+                            <div
+                              className="p-3 border rounded text-sm text-gray-400"
+                              style={{
+                                backgroundColor: "var(--bg-primary)",
+                                borderColor: "var(--border)",
+                              }}
+                            >
+                              Enter a verified contract address to load functions
+                            </div>
+                          )
+                        )}
+
+                        {selectedFunction && functionFromSignatures && (
+                          <p className="mt-2 text-xs text-yellow-400">
+                            Decoded as{" "}
+                            <span className="font-mono">
+                              {functionSignature(selectedFunction)}
+                            </span>{" "}
+                            from the signature database
+                            {contractABI ? " (not in the contract's ABI)" : ""}
+                          </p>
                         )}
 
                         {selectedFunction && functionParameters.length > 0 && (
@@ -697,32 +842,16 @@ export default function SimulatorPage() {
                             >
                               Function Parameters
                             </Label>
-                            <div className="space-y-2">
-                              {functionParameters.map((param, index) => (
-                                <div key={index}>
-                                  <Label className="text-xs text-gray-400 block mb-1">
-                                    {param.name} ({param.type})
-                                  </Label>
-                                  <Input
-                                    placeholder={`Enter ${param.name}`}
-                                    value={param.value}
-                                    onChange={(e) =>
-                                      handleParameterChange(
-                                        index,
-                                        e.target.value
-                                      )
-                                    }
-                                    className="border text-sm"
-                                    style={{
-                                      backgroundColor: "var(--bg-primary)",
-                                      borderColor: "var(--border)",
-                                      color: "var(--text-primary)",
-                                      opacity: 0.8,
-                                    }}
-                                  />
-                                </div>
-                              ))}
-                            </div>
+                            <AbiParamsForm
+                              inputs={selectedFunction.inputs}
+                              values={functionParameters.map((p) => p.value)}
+                              onChange={handleParametersChange}
+                              decodeNested={nestedDecoder(
+                                selectedFunction,
+                                functionParameters.map((p) => p.value),
+                                contractABI?.functions ?? []
+                              )}
+                            />
                           </div>
                         )}
                       </div>
@@ -836,6 +965,42 @@ export default function SimulatorPage() {
                     </div>
                   </div>
 
+                  <div className="grid grid-cols-12 gap-4 items-center">
+                    <Label
+                      className="col-span-3 text-secondary mb-5"
+                      style={{ color: "var(--text-secondary)" }}
+                    >
+                      Position in block
+                    </Label>
+                    <div className="col-span-8">
+                      <Input
+                        placeholder="End of block"
+                        value={formData.blockPosition}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            blockPosition: e.target.value,
+                          })
+                        }
+                        className="border w-full"
+                        disabled={!isLeftSideComplete}
+                        style={{
+                          backgroundColor: "var(--bg-primary)",
+                          borderColor: "var(--border)",
+                          color: "var(--text-primary)",
+                          opacity: 0.8,
+                        }}
+                      />
+                      <div className="mt-1 text-xs text-gray-400 pl-3">
+                        {formData.blockPosition.trim()
+                          ? `Runs after the first ${formData.blockPosition.trim()} txs of block ${
+                              formData.blockNumber || "…"
+                            }, replayed on the state of the block before`
+                          : "Empty: runs on the state at the end of the block"}
+                      </div>
+                    </div>
+                  </div>
+
                   <div>
                     <Label
                       className="text-secondary"
@@ -973,7 +1138,7 @@ export default function SimulatorPage() {
                     className="text-primary flex items-center gap-1"
                     style={{ color: "var(--text-primary)" }}
                   >
-                    HYPE Balance Override
+                    {chain.nativeSymbol} Balance Override
                     <TooltipProvider>
                       <Tooltip>
                         <TooltipTrigger asChild>
@@ -992,7 +1157,7 @@ export default function SimulatorPage() {
                           }}
                         >
                           Override account balances for simulation. For example,
-                          simulate an address having more HYPE than it actually
+                          simulate an address having more {chain.nativeSymbol} than it actually
                           does.
                         </TooltipContent>
                       </Tooltip>
@@ -1543,9 +1708,12 @@ export default function SimulatorPage() {
             <Button
               type="submit"
               className="w-full py-3"
-              disabled={!isLeftSideComplete || isLoading}
+              disabled={
+                !isLeftSideComplete || parameterIssues.length > 0 || isLoading
+              }
               style={{
-                backgroundColor: isLeftSideComplete
+                backgroundColor:
+                  isLeftSideComplete && !parameterIssues.length
                   ? "var(--btn-primary-bg)"
                   : "var(--text-secondary)",
                 color: "var(--btn-primary-text)",
@@ -1560,6 +1728,13 @@ export default function SimulatorPage() {
                 "Simulate Transaction"
               )}
             </Button>
+            {isLeftSideComplete && parameterIssues.length > 0 && (
+              <p className="text-xs text-red-400 text-center">
+                {parameterIssues.length} parameter
+                {parameterIssues.length === 1 ? "" : "s"} to fix —{" "}
+                {parameterIssues[0].path}: {parameterIssues[0].message}
+              </p>
+            )}
           </div>
         </div>
       </form>
@@ -1,23 +1,94 @@
+import { useEffect, useMemo, useState } from "react";
+import { formatAddress, getContractName } from "@/lib/utils";
+import { SimulationResult } from "@/lib/simulation";
 import {
-    
-    getContractName,
-   
-  } from "@/lib/utils";
+  BalanceChange,
+  TokenMetadata,
+  computeBalanceChanges,
+  extractTokenTransfers,
+  fetchTokenMetadata,
+  formatTokenAmount,
+  tokenMetadataFromResult,
+} from "@/lib/tokens";
 
 export default function BalanceStateTab({
   responseData,
 }: {
-  responseData: any;
+  responseData: SimulationResult;
 }) {
+  const transfers = useMemo(() => extractTokenTransfers(responseData), [responseData]);
+  const changes = useMemo(
+    () => computeBalanceChanges(responseData, transfers),
+    [responseData, transfers]
+  );
+
+  // decimals/symbol from the simulation itself, topped up over RPC for the rest
+  const [metadata, setMetadata] = useState<Record<string, TokenMetadata>>({});
+  useEffect(() => {
+    const tokens = Array.from(new Set(changes.map((c) => c.token).concat(transfers.map((t) => t.token))));
+    const known: Record<string, TokenMetadata> = {};
+    for (const t of tokens) known[t] = tokenMetadataFromResult(responseData, t);
+    setMetadata(known);
+
+    const missing = tokens.filter((t) => known[t].decimals === undefined || !known[t].symbol);
+    if (!missing.length) return;
+    const controller = new AbortController();
+    fetchTokenMetadata(missing, { signal: controller.signal }).then((fetched) => {
+      if (controller.signal.aborted) return;
+      setMetadata((prev) => {
+        const next = { ...prev };
+        for (const [t, m] of Object.entries(fetched)) {
+          next[t] = {
+            symbol: prev[t]?.symbol ?? m.symbol,
+            name: prev[t]?.name ?? m.name,
+            decimals: prev[t]?.decimals ?? m.decimals,
+          };
+        }
+        return next;
+      });
+    });
+    return () => controller.abort();
+  }, [responseData, changes, transfers]);
+
+  const displayName = (address: string) => {
+    const name = getContractName(address, responseData);
+    return name !== address ? name : formatAddress(address);
+  };
+  const tokenLabel = (token: string) => metadata[token]?.symbol || displayName(token);
+
+  const byHolder = useMemo(() => {
+    const groups = new Map<string, BalanceChange[]>();
+    for (const c of changes) groups.set(c.holder, [...(groups.get(c.holder) ?? []), c]);
+    return Array.from(groups.entries());
+  }, [changes]);
+
+  const renderAmount = (c: BalanceChange) => {
+    const decimals = c.standard === "erc721" || c.standard === "erc1155" ? 0 : metadata[c.token]?.decimals;
+    return (
+      <div key={`${c.token}-${c.tokenId ?? ""}`} className="flex flex-wrap items-center gap-x-3 font-mono text-sm">
+        <span className={c.delta > BigInt(0) ? "text-green-400" : "text-red-400"}>
+          {formatTokenAmount(c.delta, decimals, true)} {tokenLabel(c.token)}
+          {c.tokenId !== undefined && ` #${c.tokenId.toString()}`}
+        </span>
+        {c.before !== undefined && c.after !== undefined && (
+          <span className="text-gray-500 text-xs">
+            {formatTokenAmount(c.before, decimals)} → {formatTokenAmount(c.after, decimals)}
+          </span>
+        )}
+        {decimals === undefined && <span className="text-gray-500 text-xs">(raw units)</span>}
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-4">
       <h3 className="text-lg font-semibold text-white mb-4">Balance Changes</h3>
+      {byHolder.length === 0 && (
+        <div className="text-gray-400 text-center py-8">No balance changes</div>
+      )}
       <div className="space-y-4">
-        {Object.entries(responseData.transaction.balanceDiff || {}).map(
-          ([address, balanceData]: [string, any]) => {
+        {byHolder.map(([address, holderChanges]) => {
             const contractName = getContractName(address, responseData);
-            const fromBalance = parseInt(balanceData.from, 16);
-            const toBalance = parseInt(balanceData.to, 16);
 
             return (
               <div
@@ -37,7 +108,7 @@ export default function BalanceStateTab({
                   />
                   <div>
                     <div className="text-white font-medium">
-                      {contractName || "Unknown Contract"}
+                      {contractName !== address ? contractName : "Account"}
                     </div>
                     <div className="text-gray-400 text-sm font-mono">
                       {address}
@@ -45,17 +116,37 @@ export default function BalanceStateTab({
                   </div>
                 </div>
 
-                {/* Balance Change */}
-                <div className="flex items-center space-x-3">
-                  <span className="text-red-400 font-mono">{fromBalance/1e18} HYPE</span>
-                  <span className="text-gray-400">→</span>
-                  <span className="text-green-400 font-mono">{toBalance/1e18} HYPE</span>
-                </div>
+                {/* Net change per token */}
+                <div className="space-y-1">{holderChanges.map(renderAmount)}</div>
               </div>
             );
           }
         )}
       </div>
+
+      {transfers.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold text-white mt-6 mb-2">Token Transfers</h3>
+          {transfers.map((t, i) => {
+            const decimals = t.standard === "erc20" ? metadata[t.token]?.decimals : 0;
+            return (
+              <div
+                key={`${t.logIndex}-${i}`}
+                className="flex flex-wrap items-center gap-x-2 text-sm font-mono text-gray-300"
+              >
+                <span className="text-gray-500">{displayName(t.from)}</span>
+                <span className="text-gray-500">→</span>
+                <span className="text-gray-500">{displayName(t.to)}</span>
+                <span>
+                  {formatTokenAmount(t.amount, decimals)} {tokenLabel(t.token)}
+                  {t.tokenId !== undefined && ` #${t.tokenId.toString()}`}
+                </span>
+                <span className="text-xs text-gray-500 uppercase">{t.standard}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,7 +1,10 @@
-import { EXPLORER_URL } from "@/utils/constants";
 import { ExternalLink } from "lucide-react";
+import { SimulationResult } from "@/lib/simulation";
+import { PROXY_KIND_LABEL, ProxyKind } from "@/lib/proxyDetection";
+import { useSelectedChain } from "@/hooks/use-chain";
 
-export default function ContractsTab({ responseData }: { responseData: any }) {
+export default function ContractsTab({ responseData }: { responseData: SimulationResult }) {
+  const chain = useSelectedChain();
   return (
     <div className="space-y-4">
       <h3 className="text-lg font-semibold text-white mb-4">Contracts</h3>
@@ -18,8 +21,8 @@ export default function ContractsTab({ responseData }: { responseData: any }) {
             </tr>
           </thead>
           <tbody>
-            {Object.entries(responseData.contracts || {}).map(
-              ([address, contract]: [string, any]) => (
+            {Object.entries(responseData.contracts).map(
+              ([address, contract]) => (
                 <tr
                   key={address}
                   className="border-b"
@@ -34,7 +37,7 @@ export default function ContractsTab({ responseData }: { responseData: any }) {
                       />
                       <div>
                         <a
-                          href={`${EXPLORER_URL}/address/${address}`}
+                          href={`${chain.explorerUrl}/address/${address}`}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="text-white font-medium flex items-center gap-1 hover:underline"
@@ -45,6 +48,17 @@ export default function ContractsTab({ responseData }: { responseData: any }) {
                         <div className="text-gray-400 text-sm font-mono">
                           {address}
                         </div>
+                        {contract.Proxy === "1" && contract.Implementation && (
+                          <div className="text-gray-500 text-xs font-mono">
+                            Proxy
+                            {contract.ProxyType && ` (${PROXY_KIND_LABEL[contract.ProxyType as ProxyKind] ?? contract.ProxyType})`}
+                            {" → "}
+                            {contract.Implementation}
+                            {contract.PreviousImplementation && (
+                              <span className="text-yellow-400"> · upgraded in this tx from {contract.PreviousImplementation}</span>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </td>
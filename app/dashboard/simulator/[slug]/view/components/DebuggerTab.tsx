@@ -0,0 +1,372 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  CircleDot,
+  FastForward,
+  Rewind,
+  SkipBack,
+  SkipForward,
+  StepBack,
+  StepForward,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SimulationResult } from "@/lib/simulation";
+import { BundleSimulateRequest, SimulateRequest } from "@/lib/backend";
+import {
+  Breakpoint,
+  buildDebugSession,
+  findBreakpointHit,
+  firstStepOfFrame,
+  frameOf,
+  hitsBreakpoint,
+  stepOver,
+} from "@/lib/debugger";
+import { useDebugTrace } from "@/hooks/use-debug-trace";
+import { DecodedNode } from "@/utils/decodeCallTrace";
+
+type DebuggerTabProps = {
+  responseData: SimulationResult;
+  decodedTraceTree: DecodedNode | null;
+  /** Request that produced `responseData`; null for a run opened from History */
+  request: SimulateRequest | BundleSimulateRequest | null;
+  focusFramePath?: number[] | null; // open at this frame's first step (from the Summary tree)
+};
+
+const panelStyle = {
+  backgroundColor: "rgba(30, 30, 30, 0.6)",
+  borderColor: "var(--border)",
+};
+
+const WINDOW = 12; // opcodes listed on each side of the current step
+
+export default function DebuggerTab({
+  responseData,
+  decodedTraceTree,
+  request,
+  focusFramePath,
+}: DebuggerTabProps) {
+  const { trace, fallbackReason } = useDebugTrace(responseData, request);
+  const [current, setCurrent] = useState(0);
+  const [breakpoints, setBreakpoints] = useState<Breakpoint[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // breakpoint form
+  const [bpKind, setBpKind] = useState<Breakpoint["kind"]>("function");
+  const [bpFunction, setBpFunction] = useState("");
+  const [bpAddress, setBpAddress] = useState("");
+  const [bpSlot, setBpSlot] = useState("");
+
+  const session = useMemo(
+    () => (trace ? buildDebugSession(trace, decodedTraceTree, fallbackReason !== null) : null),
+    [trace, decodedTraceTree, fallbackReason]
+  );
+
+  useEffect(() => {
+    if (!session || !focusFramePath) return;
+    const first = firstStepOfFrame(session, focusFramePath);
+    if (first !== null) {
+      setCurrent(first);
+      setNotice(null);
+    } else {
+      setNotice("That frame executed no code (EOA or precompile).");
+    }
+  }, [session, focusFramePath]);
+
+  if (!session) {
+    return (
+      <div className="flex items-center justify-center h-32 text-gray-400">
+        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-3" />
+        Loading opcode trace...
+      </div>
+    );
+  }
+
+  const total = session.steps.length;
+  if (!total) {
+    return <div className="text-gray-400 text-center py-12">No steps to debug.</div>;
+  }
+
+  const index = Math.min(current, total - 1);
+  const step = session.steps[index];
+  const frame = frameOf(session, step);
+  const go = (i: number | null) => {
+    if (i === null) {
+      setNotice("No breakpoint hit in that direction.");
+      return;
+    }
+    setNotice(null);
+    setCurrent(Math.max(0, Math.min(total - 1, i)));
+  };
+
+  const addBreakpoint = () => {
+    const id = `${Date.now()}-${breakpoints.length}`;
+    if (bpKind === "function") {
+      if (!bpFunction.trim()) return;
+      setBreakpoints((b) => [
+        ...b,
+        { id, kind: "function", functionName: bpFunction.trim(), address: bpAddress.trim() || undefined },
+      ]);
+      setBpFunction("");
+      setBpAddress("");
+    } else {
+      if (!bpSlot.trim()) return;
+      setBreakpoints((b) => [...b, { id, kind: bpKind, slot: bpSlot.trim() }]);
+      setBpSlot("");
+    }
+  };
+
+  const describeBreakpoint = (bp: Breakpoint) =>
+    bp.kind === "function"
+      ? `${bp.functionName}${bp.address ? ` @ ${bp.address.slice(0, 10)}…` : ""}`
+      : `${bp.kind.toUpperCase()} slot ${bp.slot}`;
+
+  const contractName = (address?: string) => {
+    if (!address) return "";
+    const key = Object.keys(responseData.contracts).find(
+      (k) => k.toLowerCase() === address.toLowerCase()
+    );
+    return (key && responseData.contracts[key].ContractName) || address;
+  };
+
+  const listFrom = Math.max(0, index - WINDOW);
+  const listTo = Math.min(total, index + WINDOW + 1);
+
+  return (
+    <div className="space-y-4">
+      {session.synthetic && (
+        <div className="text-xs text-yellow-400 border border-yellow-700 rounded px-3 py-2">
+          Opcode trace unavailable ({fallbackReason}). Showing call-level steps built from the call trace:
+          stack, memory and storage are not available.
+        </div>
+      )}
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2 p-3 border rounded" style={panelStyle}>
+        <Button size="sm" variant="ghost" title="First step" onClick={() => go(0)}>
+          <SkipBack className="h-4 w-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          title="Continue back to previous breakpoint"
+          onClick={() => go(findBreakpointHit(session, index, -1, breakpoints))}
+        >
+          <Rewind className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="ghost" title="Step over (back)" onClick={() => go(stepOver(session, index, -1))}>
+          <StepBack className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="ghost" title="Step back" onClick={() => go(index - 1)}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="ghost" title="Step" onClick={() => go(index + 1)}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="ghost" title="Step over" onClick={() => go(stepOver(session, index, 1))}>
+          <StepForward className="h-4 w-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          title="Continue to next breakpoint"
+          onClick={() => go(findBreakpointHit(session, index, 1, breakpoints))}
+        >
+          <FastForward className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="ghost" title="Last step" onClick={() => go(total - 1)}>
+          <SkipForward className="h-4 w-4" />
+        </Button>
+
+        <input
+          type="range"
+          min={0}
+          max={total - 1}
+          value={index}
+          onChange={(e) => go(Number(e.target.value))}
+          className="flex-1 min-w-[160px]"
+        />
+        <span className="text-xs text-gray-400 font-mono">
+          step {index + 1} / {total}
+        </span>
+      </div>
+      {notice && <div className="text-xs text-gray-400">{notice}</div>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* Opcodes */}
+        <div className="border rounded p-3" style={panelStyle}>
+          <h4 className="text-sm font-semibold text-white mb-2">Opcodes</h4>
+          <div className="font-mono text-xs space-y-0.5">
+            {session.steps.slice(listFrom, listTo).map((s) => {
+              const isCurrent = s.index === index;
+              const isBreak = breakpoints.some((bp) => hitsBreakpoint(session, s.index, bp));
+              return (
+                <div
+                  key={s.index}
+                  onClick={() => go(s.index)}
+                  className={`flex items-center cursor-pointer px-1 rounded ${
+                    isCurrent ? "bg-blue-900/60 text-white" : "text-gray-300 hover:bg-gray-800"
+                  }`}
+                  style={{ paddingLeft: `${(s.depth - 1) * 8 + 4}px` }}
+                >
+                  <span className="w-4">
+                    {isBreak && <CircleDot className="h-3 w-3 text-red-500" />}
+                  </span>
+                  <span className="w-14 text-gray-500">{s.pc}</span>
+                  <span className={`flex-1 ${s.op === "REVERT" || s.error ? "text-red-400" : ""}`}>
+                    {s.op}
+                  </span>
+                  <span className="text-gray-500">{s.gasCost || ""}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Frame + stack */}
+        <div className="space-y-4">
+          <div className="border rounded p-3 text-xs" style={panelStyle}>
+            <h4 className="text-sm font-semibold text-white mb-2">Call frame</h4>
+            {frame?.node ? (
+              <div className="space-y-1 font-mono break-all">
+                <div>
+                  <span className="text-gray-400">contract: </span>
+                  <span className="text-white">{contractName(frame.node.to)}</span>
+                </div>
+                <div>
+                  <span className="text-gray-400">function: </span>
+                  <span className="text-blue-300">
+                    {frame.node.signature || frame.node.functionSelector || "fallback()"}
+                  </span>
+                </div>
+                <div>
+                  <span className="text-gray-400">caller: </span>
+                  <span className="text-gray-300">{contractName(frame.node.from)}</span>
+                </div>
+                <div>
+                  <span className="text-gray-400">depth: </span>
+                  <span className="text-gray-300">{step.depth}</span>
+                  <span className="text-gray-400 ml-3">gas left: </span>
+                  <span className="text-gray-300">{step.gas.toLocaleString()}</span>
+                </div>
+                {step.error && <div className="text-red-400">error: {step.error}</div>}
+              </div>
+            ) : (
+              <div className="text-gray-500">Frame not in the decoded call tree</div>
+            )}
+          </div>
+
+          <div className="border rounded p-3" style={panelStyle}>
+            <h4 className="text-sm font-semibold text-white mb-2">Stack</h4>
+            {step.stack.length ? (
+              <div className="font-mono text-xs space-y-0.5 max-h-64 overflow-y-auto">
+                {[...step.stack].reverse().map((v, i) => (
+                  <div key={i} className="flex">
+                    <span className="w-8 text-gray-500">{i}</span>
+                    <span className="text-gray-300 break-all">{v}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-xs text-gray-500">Empty</div>
+            )}
+          </div>
+        </div>
+
+        {/* Memory + storage + breakpoints */}
+        <div className="space-y-4">
+          <div className="border rounded p-3" style={panelStyle}>
+            <h4 className="text-sm font-semibold text-white mb-2">Memory</h4>
+            {step.memory.length ? (
+              <div className="font-mono text-xs space-y-0.5 max-h-48 overflow-y-auto">
+                {step.memory.map((word, i) => (
+                  <div key={i} className="flex">
+                    <span className="w-14 text-gray-500">0x{(i * 32).toString(16).padStart(4, "0")}</span>
+                    <span className="text-gray-300 break-all">{word}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-xs text-gray-500">Empty</div>
+            )}
+          </div>
+
+          <div className="border rounded p-3" style={panelStyle}>
+            <h4 className="text-sm font-semibold text-white mb-2">Storage</h4>
+            {Object.keys(step.storage).length ? (
+              <div className="font-mono text-xs space-y-1 max-h-48 overflow-y-auto">
+                {Object.entries(step.storage).map(([slot, value]) => (
+                  <div key={slot} className="break-all">
+                    <div className="text-gray-500">{slot}</div>
+                    <div className="text-gray-300 pl-2">{value}</div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-xs text-gray-500">No slots accessed yet</div>
+            )}
+          </div>
+
+          <div className="border rounded p-3 space-y-2" style={panelStyle}>
+            <h4 className="text-sm font-semibold text-white">Breakpoints</h4>
+            <div className="flex space-x-1">
+              {(["function", "sload", "sstore"] as const).map((k) => (
+                <Button
+                  key={k}
+                  size="sm"
+                  variant={bpKind === k ? "secondary" : "ghost"}
+                  onClick={() => setBpKind(k)}
+                >
+                  {k === "function" ? "Function" : k.toUpperCase()}
+                </Button>
+              ))}
+            </div>
+            {bpKind === "function" ? (
+              <div className="space-y-1">
+                <Input
+                  value={bpFunction}
+                  onChange={(e) => setBpFunction(e.target.value)}
+                  placeholder="Function name, signature or selector"
+                  className="h-8 text-xs"
+                />
+                <Input
+                  value={bpAddress}
+                  onChange={(e) => setBpAddress(e.target.value)}
+                  placeholder="Contract address (optional)"
+                  className="h-8 text-xs"
+                />
+              </div>
+            ) : (
+              <Input
+                value={bpSlot}
+                onChange={(e) => setBpSlot(e.target.value)}
+                placeholder="Storage slot (hex or decimal)"
+                className="h-8 text-xs"
+              />
+            )}
+            <Button size="sm" onClick={addBreakpoint} className="w-full">
+              Add breakpoint
+            </Button>
+
+            {breakpoints.map((bp) => (
+              <div key={bp.id} className="flex items-center justify-between text-xs font-mono">
+                <span className="text-gray-300 break-all">{describeBreakpoint(bp)}</span>
+                <button
+                  onClick={() => setBreakpoints((b) => b.filter((x) => x.id !== bp.id))}
+                  className="text-gray-500 hover:text-white ml-2"
+                  title="Remove breakpoint"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
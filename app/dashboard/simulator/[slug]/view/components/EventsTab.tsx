@@ -4,74 +4,12 @@ import { useMemo, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ChevronDown, ChevronUp } from "lucide-react";
-import { InterfaceAbi } from "ethers";
-import { decodeEventLog, RawEventLog } from "@/lib/eventDecoder";
+import { RawEventLog, decodeSimulationEvents } from "@/lib/eventDecoder";
+import { SimulationResult } from "@/lib/simulation";
 
 
 type EventItem = RawEventLog;
 
-type ContractMeta = {
-  address: string;
-  ABI?: string | InterfaceAbi;
-  ContractName?: string;
-  Proxy?: string | number;
-  Implementation?: string;
-};
-
-type ContractsMap = Record<string, ContractMeta>;
-
-
-function tryParseAbiString(s: string): InterfaceAbi | null {
-  try {
-    return JSON.parse(s);
-  } catch {
-    try {
-      const once = JSON.parse(s);
-      return JSON.parse(once);
-    } catch {
-      return null;
-    }
-  }
-}
-
-function normalizeAbi(abiLike: string | InterfaceAbi | null | undefined): InterfaceAbi | null {
-  if (!abiLike) return null;
-  if (Array.isArray(abiLike)) return abiLike as InterfaceAbi;
-  if (typeof abiLike === "string") return tryParseAbiString(abiLike);
-  return abiLike as InterfaceAbi;
-}
-
-function normAddr(a?: string) {
-  return (a ?? "").toLowerCase();
-}
-
-function resolveAbiForAddress(
-  addr: string,
-  contracts: ContractsMap
-): { abi: InterfaceAbi | null; name: string | null } {
-  const key = normAddr(addr);
-  const rec =
-    contracts[key] ||
-    Object.values(contracts).find((c) => normAddr(c.address) === key);
-
-  if (!rec) return { abi: null, name: null };
-
-  const isProxy = String(rec.Proxy ?? "0") === "1";
-  if (isProxy && rec.Implementation) {
-    const implKey = normAddr(rec.Implementation);
-    const implRec =
-      contracts[implKey] ||
-      Object.values(contracts).find((c) => normAddr(c.address) === implKey);
-    const implAbi = normalizeAbi(implRec?.ABI);
-    if (implAbi) {
-      return { abi: implAbi, name: implRec?.ContractName ?? rec.ContractName ?? null };
-    }
-  }
-
-  const abi = normalizeAbi(rec.ABI);
-  return { abi, name: rec.ContractName ?? null };
-}
-
 function shortAddr(a: string) {
   if (!a || a.length < 10) return a;
   return `${a.slice(0, 6)}…${a.slice(-4)}`;
@@ -88,85 +26,15 @@ function jsonSafe(v: any): any {
   return v;
 }
 
-/* ----------------------- GLOBAL FALLBACK DECODE ----------------------- */
-
-function tryDecodeWithAnyAbi(
-  log: EventItem,
-  contracts: ContractsMap
-): { success: boolean; decoded?: ReturnType<typeof decodeEventLog>; name?: string | null } {
-  for (const meta of Object.values(contracts)) {
-    const abi = normalizeAbi(meta.ABI);
-    if (!abi) continue;
-    try {
-      const decoded = decodeEventLog(log, abi);
-      if (!decoded.name.startsWith("unknown(")) {
-        return { success: true, decoded, name: meta.ContractName ?? null };
-      }
-    } catch {
-      // keep trying
-    }
-  }
-  return { success: false };
-}
-
 /* ------------------------------ Component ------------------------------ */
 
-export default function EventsTab({ responseData }: { responseData: any }) {
-  const events: EventItem[] =
-    responseData?.transaction?.events ?? responseData?.events ?? [];
+export default function EventsTab({ responseData }: { responseData: SimulationResult }) {
+  const events: EventItem[] = responseData.transaction.events;
 
-  const contracts: ContractsMap = responseData?.contracts ?? {};
+  const contracts = responseData.contracts;
 
   const decoded = useMemo(() => {
-    return events.map((evt) => {
-      const direct = resolveAbiForAddress(evt.address, contracts);
-
-      let decoded:
-        | ReturnType<typeof decodeEventLog>
-        | {
-            name: string;
-            signature?: string;
-            argNames: string[];
-            argValues: any[];
-            address: string;
-            index?: number;
-            topic0?: string;
-          };
-
-      let contractName: string | null = direct.name ?? null;
-
-      if (direct.abi) {
-        try {
-          decoded = decodeEventLog(evt, direct.abi);
-        } catch {
-          decoded = {
-            name: `unknown(${evt.topics?.[0] ?? ""})`,
-            argNames: [],
-            argValues: [],
-            address: evt.address,
-            index: evt.index,
-            topic0: evt.topics?.[0],
-          };
-        }
-      } else {
-        decoded = {
-          name: `unknown(${evt.topics?.[0] ?? ""})`,
-          argNames: [],
-          argValues: [],
-          address: evt.address,
-          index: evt.index,
-          topic0: evt.topics?.[0],
-        };
-      }
-
-      if (decoded.name.startsWith("unknown(")) {
-        const alt = tryDecodeWithAnyAbi(evt, contracts);
-        if (alt.success && alt.decoded) {
-          decoded = alt.decoded;
-          if (!contractName) contractName = alt.name ?? null;
-        }
-      }
-
+    return decodeSimulationEvents(events, contracts).map(({ raw, decoded, contractName, candidates }) => {
       const args = decoded.argNames.map((n, i) => ({
         name: n,
         value: jsonSafe(decoded.argValues[i]),
@@ -175,19 +43,21 @@ export default function EventsTab({ responseData }: { responseData: any }) {
       // display title rules: if unknown(xxx) => show just xxx (no brackets/label)
       let displayTitle = decoded.name;
       if (displayTitle.startsWith("unknown(")) {
-        const topic = (decoded as any).topic0 ?? evt.topics?.[0] ?? "";
+        const topic = decoded.topic0 ?? raw.topics?.[0] ?? "";
         displayTitle = topic || "0x";
       }
 
       return {
-        raw: evt,
+        raw,
         pretty: {
           title: displayTitle,
           // signature removed per request
           args,
+          guessed: !!decoded.guessed,
+          candidates,
         },
         contractName: contractName ?? "Unknown",
-        contractAddr: evt.address,
+        contractAddr: raw.address,
       };
     });
   }, [events, contracts]);
@@ -215,7 +85,12 @@ function EventCard({
 }: {
   row: {
     raw: EventItem;
-    pretty: { title: string; args: Array<{ name: string; value: any }> };
+    pretty: {
+      title: string;
+      args: Array<{ name: string; value: any }>;
+      guessed: boolean;
+      candidates: string[];
+    };
     contractName: string;
     contractAddr: string;
   };
@@ -233,6 +108,14 @@ function EventCard({
           <div className="space-y-1">
             <div className="text-lg font-semibold text-white">
               {row.pretty.title}
+              {row.pretty.guessed && (
+                <span
+                  className="ml-2 px-1.5 py-0.5 rounded border border-yellow-600 text-yellow-400 text-xs font-normal align-middle"
+                  title={`Guessed from the signature database (no verified ABI). Candidates: ${row.pretty.candidates.join(", ")}`}
+                >
+                  guess
+                </span>
+              )}
             </div>
           </div>
 
@@ -1,185 +1,297 @@
 "use client";
 
-import React, { useMemo } from "react";
+import React, { useMemo, useState } from "react";
 import { ResponsiveIcicle } from "@nivo/icicle";
+import { ArrowDown, Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { SimulationResult } from "@/lib/simulation";
+import { DecodedNode } from "@/utils/decodeCallTrace";
+import {
+  GasAggregate,
+  GasAggregateBy,
+  GasFrame,
+  aggregateGas,
+  buildGasProfile,
+  frameContractLabel,
+  matchingFrames,
+} from "@/lib/gasProfile";
 
+// Icicle datum: value is the frame's self gas, so the chart's summed width is its inclusive gas
+type FlameDatum = Omit<GasFrame, "children"> & { value: number; children?: FlameDatum[] };
 
+const toFlameDatum = (f: GasFrame): FlameDatum => ({
+  ...f,
+  value: f.self,
+  children: f.children.length ? f.children.map(toFlameDatum) : undefined,
+});
 
-export default function GasProfileTab({
-  responseData,
-  decodedTraceTree,
-}: {
-  responseData: any;
-  decodedTraceTree: any;
-}) {
-  // ---------- helpers ----------
-  const functionDisplay = (trace: any) => {
-    if (trace?.functionName) return String(trace.functionName).split("(")[0];
-    if (trace?.functionSelector) return String(trace.functionSelector);
-    const raw = trace?.inputRaw ?? trace?.input;
-    if (raw && raw !== "0x") return String(raw).slice(0, 10);
-    if (!raw || raw === "0x") return "fallback()";
-    return "unknown";
-  };
+const maxDepth = (f: GasFrame): number =>
+  f.children.length ? 1 + Math.max(...f.children.map(maxDepth)) : 1;
 
-  const nameFromSignature = (sig?: string) => {
-    if (!sig) return undefined;
-    const m = String(sig).match(/^([^(]+)/);
-    return m?.[1];
-  };
+const formatGas = (n: number) => n.toLocaleString("en-US");
 
-  const labelFromNode = (node: any): string => {
-    let base: string;
-    if (node?.signature) {
-      const fromSig = nameFromSignature(node.signature);
-      if (node?.functionName) base = String(node.functionName).split("(")[0];
-      else if (fromSig) base = fromSig;
-      else base = functionDisplay(node);
-    } else {
-      base = functionDisplay(node);
-    }
-    const gas = gasUsedNum(node);
-    return `${base} - ${gas} GAS`;
-  };
+const lighten = (hex: string, amount: number) => {
+  const num = parseInt(hex.replace("#", ""), 16);
+  const channel = (v: number) =>
+    Math.round(v + (255 - v) * amount)
+      .toString(16)
+      .padStart(2, "0");
+  return `#${channel((num >> 16) & 0xff)}${channel((num >> 8) & 0xff)}${channel(num & 0xff)}`;
+};
 
-  const gasUsedNum = (node: any): number => {
-    const g = node?.gasUsed ?? node?.gas_used ?? node?.gas;
-    const n = Number(g);
-    return Number.isFinite(n) ? n : 0;
-  };
+type SortKey = "self" | "inclusive" | "calls";
 
-  const childrenOf = (node: any): any[] => {
-    if (!node || typeof node !== "object") return [];
-    if (Array.isArray(node.children)) return node.children;
-    if (Array.isArray(node.calls)) return node.calls;
-    return [];
-  };
-
-  const convertRawCallTrace = (t: any): any => ({
-    functionName: undefined,
-    signature: undefined,
-    functionSelector:
-      typeof t?.input === "string" && t.input.startsWith("0x")
-        ? String(t.input).slice(0, 10)
-        : undefined,
-    inputRaw: t?.input,
-    gasUsed: t?.gasUsed ?? t?.gas_used ?? t?.gas,
-    children: Array.isArray(t?.calls) ? t.calls.map(convertRawCallTrace) : [],
-  });
-
-  const normalizeRoot = (decoded: any): any[] => {
-    if (!decoded) return [];
-    if (Array.isArray(decoded)) return decoded;
-    if (decoded.root && typeof decoded.root === "object") return [decoded.root];
-    return [decoded];
-  };
-
-  // ---------- color lighten ----------
-  const lighten = (hex: string, amount: number) => {
-    const h = hex.replace("#", "");
-    const num = parseInt(h, 16);
-    let r = (num >> 16) & 0xff;
-    let g = (num >> 8) & 0xff;
-    let b = num & 0xff;
-    r = Math.round(r + (255 - r) * amount);
-    g = Math.round(g + (255 - g) * amount);
-    b = Math.round(b + (255 - b) * amount);
-    const toHex = (v: number) => v.toString(16).padStart(2, "0");
-    return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
-  };
-
-  // ---------- build the tree ----------
-  const nivoData = useMemo(() => {
-    const decodedRoots = normalizeRoot(decodedTraceTree);
-    let roots: any[] = decodedRoots;
+function TopConsumersTable({
+  rows,
+  by,
+  total,
+  search,
+}: {
+  rows: GasAggregate[];
+  by: GasAggregateBy;
+  total: number;
+  search: string;
+}) {
+  const [sortKey, setSortKey] = useState<SortKey>("self");
+  const sorted = useMemo(
+    () => [...rows].sort((a, b) => b[sortKey] - a[sortKey]),
+    [rows, sortKey]
+  );
+  const q = search.trim().toLowerCase();
 
-    if (!decodedTraceTree || decodedRoots.length === 0) {
-      const raw = responseData?.transaction?.callTrace;
-      const rawRoots = Array.isArray(raw) ? raw : raw ? [raw] : [];
-      roots = rawRoots.map(convertRawCallTrace).filter(Boolean);
-    }
+  const header = (key: SortKey, label: string) => (
+    <th
+      className="text-right py-2 px-3 text-xs font-medium text-gray-400 cursor-pointer select-none hover:text-white"
+      onClick={() => setSortKey(key)}
+    >
+      <span className="inline-flex items-center gap-1">
+        {label}
+        {sortKey === key && <ArrowDown className="h-3 w-3" />}
+      </span>
+    </th>
+  );
 
-    const normalize = (node: any): any => {
-      const id = labelFromNode(node); // now includes functionName + gas
-      const value = gasUsedNum(node);
-      const kids = childrenOf(node).map(normalize);
-      return kids.length > 0 ? { id, value, children: kids } : { id, value };
-    };
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b" style={{ borderColor: "var(--border)" }}>
+            <th className="text-left py-2 px-3 text-xs font-medium text-gray-400">
+              {by === "contract" ? "Contract" : "Function"}
+            </th>
+            {header("calls", "Calls")}
+            {header("self", "Self gas")}
+            {header("inclusive", "Inclusive gas")}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.slice(0, 25).map((row) => {
+            const highlighted =
+              q !== "" &&
+              [row.label, row.contract, row.key].some((s) => s?.toLowerCase().includes(q));
+            return (
+              <tr
+                key={row.key}
+                className="border-b text-sm"
+                style={{
+                  borderColor: "var(--border)",
+                  backgroundColor: highlighted ? "rgba(245,158,11,0.12)" : undefined,
+                }}
+              >
+                <td className="py-2 px-3">
+                  <div className="text-white font-mono break-all">{row.label}</div>
+                  {row.contract && (
+                    <div className="text-xs text-gray-500 font-mono">{row.contract}</div>
+                  )}
+                </td>
+                <td className="py-2 px-3 text-right text-gray-300">{row.calls}</td>
+                <td className="py-2 px-3 text-right text-white font-mono">
+                  {formatGas(row.self)}
+                  <span className="text-xs text-gray-500 ml-1">
+                    {total ? ((100 * row.self) / total).toFixed(1) : "0"}%
+                  </span>
+                </td>
+                <td className="py-2 px-3 text-right text-gray-300 font-mono">
+                  {formatGas(row.inclusive)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
 
-    const children = roots.map(normalize);
-    const dataRoot = children.length === 1 ? children[0] : { id: "", children };
+export default function GasProfileTab({
+  responseData,
+  decodedTraceTree,
+}: {
+  responseData: SimulationResult;
+  decodedTraceTree: DecodedNode | null;
+}) {
+  const [search, setSearch] = useState("");
+  const [aggregateBy, setAggregateBy] = useState<GasAggregateBy>("function");
 
-    console.log("[GasProfileTab] Icicle data:", JSON.stringify(dataRoot, null, 2));
-    return dataRoot;
-  }, [decodedTraceTree, responseData]);
+  const profile = useMemo(
+    () => buildGasProfile(responseData, decodedTraceTree),
+    [responseData, decodedTraceTree]
+  );
+  const flameData = useMemo(() => profile && toFlameDatum(profile), [profile]);
+  const aggregates = useMemo(
+    () => profile && aggregateGas(profile, aggregateBy),
+    [profile, aggregateBy]
+  );
+  const matches = useMemo(
+    () => (profile ? matchingFrames(profile, search) : new Set<string>()),
+    [profile, search]
+  );
 
-  const getDepth = (node: any, depth = 1): number => {
-    if (!node.children || node.children.length === 0) return depth;
-    return Math.max(...node.children.map((c: any) => getDepth(c, depth + 1)));
-  };
-  
-  // inside your component:
-  const depth = getDepth(nivoData);
-  const rowHeight = 40; // px per level, tweak smaller for thinner bars
-  const chartHeight = depth * rowHeight;
+  const total = profile?.inclusive ?? 0;
+  const rowHeight = 40; // px per call depth
+  const chartHeight = profile ? maxDepth(profile) * rowHeight : 0;
 
   return (
     <div className="space-y-6">
-      <h3 className="text-lg font-semibold text-white">Gas Profiler</h3>
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold text-white">Gas Profiler</h3>
+        <div className="relative w-72">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-500" />
+          <Input
+            placeholder="Highlight function, contract or address"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-8 h-8 text-sm border"
+            style={{
+              backgroundColor: "var(--bg-primary)",
+              borderColor: "var(--border)",
+              color: "var(--text-primary)",
+            }}
+          />
+        </div>
+      </div>
 
-      <div
-        className="border rounded-lg"
-        style={{
-          height: chartHeight,
-          backgroundColor: "rgba(30,30,30,0.6)",
-          borderColor: "var(--border)",
-        }}
-      >
-        <ResponsiveIcicle
-                margin={{ top: 3, right: 3, bottom: 3, left: 3 }}
+      {!profile || !flameData ? (
+        <p className="text-gray-400 text-sm">No call trace to profile.</p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span>
+              Total {formatGas(total)} gas · bar width is inclusive gas · click a
+              frame to zoom, click it again (or Esc) to zoom out
+            </span>
+            {search.trim() && (
+              <span className="text-yellow-400">
+                {matches.size} matching frame{matches.size === 1 ? "" : "s"}
+              </span>
+            )}
+          </div>
 
-          data={nivoData}
-          valueFormat=">-.0s"
-          enableLabels={true}
-          labelBoxAnchor="center"
-          labelPaddingX={3}
-          labelPaddingY={2}
-          labelAlign="end"
-          labelBaseline="center"
-          labelRotation={0}
-          labelSkipWidth={150}
-          borderRadius={13}
-          label={(n) => (n?.id as string) ?? ""}
-          colors={(node: any) => {
-            const base = "#17BEBB";
-            const depth = Number(node.depth ?? 0);
-            const t = Math.min(0.12 * depth, 0.8);
-            return lighten(base, t);
-          }}
-          borderColor={{ from: "color", modifiers: [["darker", 0.6]] }}
-          theme={{
-            text: { fill: "#e5e7eb" },
-            axis: { ticks: { text: { fill: "#9ca3af" } } },
-            tooltip: {
-              container: { background: "#111827", color: "#e5e7eb" },
-            },
-          }}
-          tooltip={(node) => (
-            <div
-              style={{
-                padding: "6px 8px",
-                background: "#111827",
-                border: "1px solid #374151",
-                borderRadius: 6,
-                fontSize: 12,
+          <div
+            className="border rounded-lg"
+            style={{
+              height: chartHeight,
+              backgroundColor: "rgba(30,30,30,0.6)",
+              borderColor: "var(--border)",
+            }}
+          >
+            <ResponsiveIcicle<FlameDatum>
+              margin={{ top: 3, right: 3, bottom: 3, left: 3 }}
+              data={flameData}
+              identity="id"
+              value="value"
+              valueFormat=">-.0s"
+              enableZooming
+              isFocusable
+              enableLabels={true}
+              labelBoxAnchor="center"
+              labelPaddingX={3}
+              labelPaddingY={2}
+              labelAlign="end"
+              labelBaseline="center"
+              labelRotation={0}
+              labelSkipWidth={150}
+              borderRadius={13}
+              label={(n) => `${n.data.fn} - ${formatGas(n.data.inclusive)} GAS`}
+              colors={(node) => {
+                if (search.trim()) {
+                  return matches.has(node.data.id) ? "#F59E0B" : "#374151";
+                }
+                const base = node.data.reverted ? "#E5484D" : "#17BEBB";
+                return lighten(base, Math.min(0.12 * node.data.depth, 0.8));
+              }}
+              inheritColorFromParent={false}
+              borderColor={{ from: "color", modifiers: [["darker", 0.6]] }}
+              theme={{
+                text: { fill: "#e5e7eb" },
+                axis: { ticks: { text: { fill: "#9ca3af" } } },
+                tooltip: {
+                  container: { background: "#111827", color: "#e5e7eb" },
+                },
               }}
-            >
-              <div style={{ fontFamily: "monospace" }}>{String(node.id)}</div>
-              <div style={{ opacity: 0.8 }}>{Number(node.value)} gas</div>
+              tooltip={(node) => (
+                <div
+                  style={{
+                    padding: "6px 8px",
+                    background: "#111827",
+                    border: "1px solid #374151",
+                    borderRadius: 6,
+                    fontSize: 12,
+                  }}
+                >
+                  <div style={{ fontFamily: "monospace" }}>
+                    {frameContractLabel(node.data)}.
+                    {node.data.signature ?? node.data.fn}
+                  </div>
+                  {node.data.type && (
+                    <div style={{ opacity: 0.6 }}>{node.data.type}</div>
+                  )}
+                  <div style={{ opacity: 0.8 }}>
+                    {formatGas(node.data.inclusive)} gas inclusive ·{" "}
+                    {formatGas(node.data.self)} self ·{" "}
+                    {total ? ((100 * node.data.inclusive) / total).toFixed(1) : "0"}% of total
+                  </div>
+                </div>
+              )}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-lg font-semibold text-white">Top consumers</h4>
+              <div className="flex gap-2">
+                {(["function", "contract"] as GasAggregateBy[]).map((by) => (
+                  <button
+                    key={by}
+                    type="button"
+                    onClick={() => setAggregateBy(by)}
+                    className={`px-3 py-1 rounded-lg text-xs border transition-colors ${
+                      aggregateBy === by ? "text-white" : "text-gray-400 hover:text-white"
+                    }`}
+                    style={{
+                      borderColor: aggregateBy === by ? "var(--color-primary)" : "var(--border)",
+                    }}
+                  >
+                    By {by}
+                  </button>
+                ))}
+              </div>
             </div>
-          )}
-        />
-      </div>
+            <p className="text-gray-400 text-sm">
+              Self gas is spent in the frame's own code; inclusive gas adds
+              everything it called (recursive calls are counted once).
+            </p>
+            {aggregates && (
+              <TopConsumersTable
+                rows={aggregates}
+                by={aggregateBy}
+                total={total}
+                search={search}
+              />
+            )}
+          </div>
+        </>
+      )}
 
       {/* Recommended Access List (unchanged) */}
       <div className="p-1 rounded-lg">
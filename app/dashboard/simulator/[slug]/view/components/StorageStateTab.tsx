@@ -1,14 +1,27 @@
 import {
     getContractName,
   } from "@/lib/utils";
-  import { useState } from "react"
+  import { useMemo, useState } from "react"
   import { ChevronDown, ChevronRight } from "lucide-react"
+  import { SimulationResult } from "@/lib/simulation"
+  import { decodeStorageChanges } from "@/lib/storageLayout"
   
 export default function ContractsTab({ responseData, toggleStorageSection, expandedStorageSections }: { 
-    responseData: any, 
+    responseData: SimulationResult, 
     toggleStorageSection: (address: string) => void,
     expandedStorageSections: Set<string>
   })  {
+    // keccak over every mapping key candidate is not free; decode once per result
+    const decodings = useMemo(
+      () =>
+        Object.fromEntries(
+          Object.keys(responseData.transaction.storageDiff).map((address) => [
+            address,
+            decodeStorageChanges(responseData, address),
+          ])
+        ),
+      [responseData]
+    );
 
     return (
         <div className="space-y-4">
@@ -17,10 +30,11 @@ export default function ContractsTab({ responseData, toggleStorageSection, expan
         </h3>
         <div className="space-y-4">
           {Object.entries(
-            responseData.transaction.storageDiff || {}
-          ).map(([address, storageChanges]: [string, any]) => {
+            responseData.transaction.storageDiff
+          ).map(([address, storageChanges]) => {
             const contractName = getContractName(address, responseData);
             const changeCount = Object.keys(storageChanges).length;
+            const decoding = decodings[address];
 
             return (
               <div
@@ -48,6 +62,66 @@ export default function ContractsTab({ responseData, toggleStorageSection, expan
                   </div>
                 </div>
 
+                {/* Decoded State Variables */}
+                {decoding.slots.length > 0 && (
+                  <div className="space-y-2 mb-4">
+                    <div className="text-gray-300 text-sm">
+                      State variables
+                      <span className="text-gray-500 text-xs ml-2">
+                        {decoding.contractName}
+                        {decoding.layoutSource === "source" && " · layout derived from verified source"}
+                      </span>
+                    </div>
+                    {decoding.slots.flatMap((slot) =>
+                      slot.variables.map((v) => (
+                        <div
+                          key={`${slot.slot}-${v.label}`}
+                          className={`text-sm font-mono pl-4 break-all ${
+                            v.changed ? "text-gray-200" : "text-gray-500"
+                          }`}
+                          title={`slot ${slot.slot}`}
+                        >
+                          <span className="text-blue-300">{v.label}</span>
+                          <span className="text-gray-500 text-xs ml-2">{v.type}</span>
+                          <div className="pl-4">
+                            {v.changed ? (
+                              <>
+                                <span className="text-red-300">{v.before}</span>
+                                <span className="text-gray-500"> → </span>
+                                <span className="text-green-300">{v.after}</span>
+                              </>
+                            ) : (
+                              <span>{v.after} (unchanged)</span>
+                            )}
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+
+                {/* Slots no layout explains */}
+                {decoding.undecoded.length > 0 && (
+                  <div className="space-y-2 mb-4">
+                    <div className="text-gray-300 text-sm">
+                      Undecoded slots ({decoding.undecoded.length})
+                      {!decoding.layoutSource && (
+                        <span className="text-gray-500 text-xs ml-2">no storage layout available</span>
+                      )}
+                    </div>
+                    {decoding.undecoded.map((u) => (
+                      <div key={u.slot} className="text-gray-400 text-sm font-mono pl-4 break-all">
+                        <div>
+                          <span className="font-medium">Key:</span> {u.slot}
+                        </div>
+                        <div className="pl-4">
+                          {u.from} → {u.to}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Raw State Changes Section */}
                 <div className="space-y-3">
                   <div
@@ -76,7 +150,7 @@ export default function ContractsTab({ responseData, toggleStorageSection, expan
                     }`}
                   >
                     {Object.entries(storageChanges).map(
-                      ([key, changeData]: [string, any]) => (
+                      ([key, changeData]) => (
                         <div key={key} className="space-y-2">
                           <div className="text-gray-400 text-sm">
                             <span className="font-medium">Key:</span>{" "}
@@ -1,17 +1,54 @@
-import { useState } from "react";
-import { ChevronDown, ChevronRight } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { Bug, ChevronDown, ChevronRight, CornerDownRight, FileCode } from "lucide-react";
+import { SimulationResult } from "@/lib/simulation";
+import { BundleSimulateRequest, SimulateRequest } from "@/lib/backend";
+import { DecodedNode } from "@/utils/decodeCallTrace";
+import { findRevertOrigin } from "@/lib/revert";
+import { useSelectedChain } from "@/hooks/use-chain";
+import { useDebugTrace } from "@/hooks/use-debug-trace";
+import { resolveFrameSource, contractSourceHref } from "@/lib/sourceMap";
+import { buildDebugSession, revertPcOf } from "@/lib/debugger";
 
 type SummaryTabProps = {
   activeTab: string;
-  responseData: any; // { contracts: { [addr]: { ContractName?: string, ... } } }
-  decodedTraceTree: any; // root DecodedNode from your decoder
+  responseData: SimulationResult;
+  decodedTraceTree: DecodedNode | null; // root DecodedNode from your decoder
+  onDebugFrame?: (path: number[]) => void; // open the step debugger at a frame
+  request?: SimulateRequest | BundleSimulateRequest | null; // request that produced responseData
 };
 
 export default function SummaryTab({
   activeTab,
   responseData,
   decodedTraceTree,
+  onDebugFrame,
+  request,
 }: SummaryTabProps) {
+  const chain = useSelectedChain();
+  // path (child indexes from the root) of the frame "jump to first revert" landed on
+  const [focusPath, setFocusPath] = useState<number[] | null>(null);
+  const revertOrigin = findRevertOrigin(decodedTraceTree);
+
+  // exact revert lines need each failing frame's last pc: trace only when a record has a source map
+  const wantsRevertPcs =
+    !!request &&
+    !!revertOrigin &&
+    Object.values(responseData.contracts ?? {}).some((c) => !!c.DeployedSourceMap);
+  const { trace: debugTrace, fallbackReason } = useDebugTrace(responseData, request ?? null, wantsRevertPcs);
+  const debugSession = useMemo(
+    () => (debugTrace ? buildDebugSession(debugTrace, decodedTraceTree, fallbackReason !== null) : null),
+    [debugTrace, decodedTraceTree, fallbackReason]
+  );
+
+  const nodeDomId = (path: number[]) => `trace-node-${["root", ...path].join("-")}`;
+
+  useEffect(() => {
+    if (!focusPath) return;
+    document
+      .getElementById(nodeDomId(focusPath))
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [focusPath]);
+
   // ---------------- helpers ----------------
   const hasValues = (v: any) =>
     v != null &&
@@ -83,10 +120,10 @@ export default function SummaryTab({
   };
 
   const formatEth = (ethStr?: string) => {
-    if (!ethStr) return "0 HYPE";
-    const n = Number(ethStr)/1e18;
-    if (Number.isNaN(n)) return `${ethStr} HYPE`;
-    return `${n} HYPE`;
+    if (!ethStr) return `0 ${chain.nativeSymbol}`;
+    const n = Number(ethStr) / 10 ** chain.nativeDecimals;
+    if (Number.isNaN(n)) return `${ethStr} ${chain.nativeSymbol}`;
+    return `${n} ${chain.nativeSymbol}`;
   };
 
   const functionDisplay = (trace: any) => {
@@ -170,20 +207,33 @@ export default function SummaryTab({
     contracts,
     isRoot = false,
     level = 0,
+    path = [],
   }: {
     trace: any;
     contracts: any;
     isRoot?: boolean;
     level?: number;
+    path?: number[];
   }) => {
     const [isExpanded, setIsExpanded] = useState(true);
     const hasChildren =
       Array.isArray(trace.children) && trace.children.length > 0;
-      
+    const isFocused =
+      focusPath !== null && nodeDomId(focusPath) === nodeDomId(path);
+    const source = resolveFrameSource(
+      contracts ?? {},
+      trace,
+      trace.error && debugSession ? revertPcOf(debugSession, path) : undefined
+    );
 
     return (
       <div className="space-y-2">
-        <div className="flex items-start space-x-2">
+        <div
+          id={nodeDomId(path)}
+          className={`flex items-start space-x-2 ${
+            isFocused ? "ring-1 ring-red-500 rounded bg-red-950/30" : ""
+          }`}
+        >
           {/* Collapsible arrow */}
           <button
             onClick={() => setIsExpanded(!isExpanded)}
@@ -246,10 +296,46 @@ export default function SummaryTab({
                   {functionDisplay(trace)}
                 </span>
               )}
+              {trace.signatureGuessed && (
+                <span
+                  className="ml-2 px-1 rounded border border-yellow-600 text-yellow-400 text-[10px] align-middle"
+                  title={`Guessed from the signature database (no verified ABI). Candidates: ${(trace.signatureCandidates ?? []).join(", ")}`}
+                >
+                  guess
+                </span>
+              )}
 
               <span className="text-gray-500 text-xs ml-2 break-words">
                 gas: {formatGas(trace.gasUsed || "0")}
               </span>
+
+              {source && (
+                <a
+                  href={contractSourceHref(source.address, source.definition, source.revert)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center ml-2 text-xs text-gray-400 hover:text-white"
+                  title={
+                    source.revert
+                      ? `Open ${source.revert.file}:${source.revert.line} (revert)`
+                      : `Open ${source.definition.file}:${source.definition.line}`
+                  }
+                >
+                  <FileCode className="h-3 w-3 mr-0.5" />
+                  source
+                </a>
+              )}
+
+              {onDebugFrame && (
+                <button
+                  onClick={() => onDebugFrame(path)}
+                  className="inline-flex items-center ml-2 text-xs text-gray-400 hover:text-white"
+                  title="Step through this call in the debugger"
+                >
+                  <Bug className="h-3 w-3 mr-0.5" />
+                  debug
+                </button>
+              )}
             </div>
 
             {/* Function selector */}
@@ -306,10 +392,24 @@ export default function SummaryTab({
               </div>
             ) : null}
 
-            {/* Error */}
+            {/* Error (revert data decoded as Error(string) / Panic / custom error) */}
             {trace.error && trace.error !== "" && (
               <div className="text-red-400 text-xs break-words">
-                error: {trace.revertReason}
+                error:{" "}
+                {trace.revertDecoded?.message || trace.revertReason || trace.error}
+                {trace.revertDecoded?.kind === "custom" && trace.revertDecoded.signature && (
+                  <span className="text-gray-500 ml-2">
+                    {trace.revertDecoded.signature}
+                  </span>
+                )}
+                {trace.revertDecoded?.guessed && (
+                  <span
+                    className="ml-2 px-1 rounded border border-yellow-600 text-yellow-400 text-[10px] align-middle"
+                    title="Error signature guessed from the signature database (no verified ABI)"
+                  >
+                    guess
+                  </span>
+                )}
               </div>
             )}
           </div>
@@ -325,6 +425,7 @@ export default function SummaryTab({
                 contracts={contracts}
                 isRoot={false}
                 level={level + 1}
+                path={[...path, index]}
               />
             ))}
           </div>
@@ -530,9 +631,21 @@ export default function SummaryTab({
       >
         <div className="p-4">
           <div className="space-y-3">
-            <h3 className="text-lg font-semibold text-white mb-4">
-              Decoded Transaction Trace
-            </h3>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-white">
+                Decoded Transaction Trace
+              </h3>
+              {revertOrigin && (
+                <button
+                  onClick={() => setFocusPath(revertOrigin.path)}
+                  className="flex items-center space-x-1 text-xs text-red-400 hover:text-red-300"
+                  title={revertOrigin.node.revertDecoded?.message}
+                >
+                  <CornerDownRight className="h-3 w-3" />
+                  <span>Jump to first revert</span>
+                </button>
+              )}
+            </div>
             <div className="w-full">
               {decodedTraceTree ? (
                 <DecodedTraceTree
@@ -5,8 +5,13 @@ import {
     decodeFunctionInput,
   } from "@/lib/utils";
 import { CheckCircle, XCircle } from "lucide-react";
+import { SimulationResult } from "@/lib/simulation";
+import { DecodedNode } from "@/utils/decodeCallTrace";
+import { findRevertOrigin } from "@/lib/revert";
+import { useSelectedChain } from "@/hooks/use-chain";
 
-export default function TransactionDetails({ responseData, decodedTraceTree }: { responseData: any, decodedTraceTree: any }) {
+export default function TransactionDetails({ responseData, decodedTraceTree }: { responseData: SimulationResult, decodedTraceTree: DecodedNode | null }) {
+  const chain = useSelectedChain();
   const shortenHex = (hex: string, start = 18, end = 15) => {
     if (!hex) return "";
     if (hex.length <= start + end) return hex;
@@ -20,9 +25,14 @@ export default function TransactionDetails({ responseData, decodedTraceTree }: {
     
     // Check if there's an error field in the root trace
     if (rootTrace.error) {
+      // Prefer decoded revert data; when the root reverted without data, use the originating frame's
+      const decoded =
+        decodedTraceTree?.revertDecoded?.kind !== "empty"
+          ? decodedTraceTree?.revertDecoded
+          : findRevertOrigin(decodedTraceTree)?.node.revertDecoded;
       return {
         hasError: true,
-        message: rootTrace.revertReason || rootTrace.error
+        message: decoded?.message || rootTrace.revertReason || rootTrace.error
       };
     }
     
@@ -47,7 +57,7 @@ export default function TransactionDetails({ responseData, decodedTraceTree }: {
   // console.log(responseData);
   const gasPrice = responseData.transaction?.gasPrice || "0x0";
   const gasPriceInWei = parseInt(gasPrice, 16);
-  const gasPriceInEth = gasPriceInWei / 1e18;
+  const gasPriceInEth = gasPriceInWei / 10 ** chain.nativeDecimals;
 
   // Get nonce from block header
   const nonce = responseData.transaction?.blockHeader?.nonce || "0x0";
@@ -69,7 +79,7 @@ export default function TransactionDetails({ responseData, decodedTraceTree }: {
               <span className="text-sm text-gray-400">Network</span>
               <div className="flex items-center space-x-2">
                 <div className="w-4 h-4 bg-purple-500 rounded-full"></div>
-                <span className="text-sm text-white">HyperEVM Mainnet</span>
+                <span className="text-sm text-white">{chain.name}</span>
               </div>
             </div>
 
@@ -95,7 +105,7 @@ export default function TransactionDetails({ responseData, decodedTraceTree }: {
             <div className="flex items-center justify-between">
               <span className="text-sm text-gray-400">Block</span>
               <span className="text-sm text-white font-mono">
-                {parseInt(responseData.transaction.blockHeader?.number) || "0"}
+                {parseInt(responseData.transaction.blockHeader.number ?? "0") || "0"}
               </span>
             </div>
 
@@ -183,9 +193,9 @@ export default function TransactionDetails({ responseData, decodedTraceTree }: {
                       const gasUsed = parseInt(responseData.transaction.callTrace[0].gasUsed, 16);
                       const gasPrice = parseInt(responseData.transaction.gasPrice || "0", 16);
                       const feeWei = gasUsed * gasPrice;
-                      const feeEth = feeWei / 1e18; // assuming HYPE uses 18 decimals like ETH
+                      const feeEth = feeWei / 10 ** chain.nativeDecimals;
 
-                      return `${feeEth.toFixed(12)} HYPE`;
+                      return `${feeEth.toFixed(12)} ${chain.nativeSymbol}`;
                     })()
                   : "Unknown"}
               </span>
@@ -195,8 +205,8 @@ export default function TransactionDetails({ responseData, decodedTraceTree }: {
               <span className="text-sm text-gray-400">Gas Price</span>
               <span className="text-sm text-white">
                 {gasPriceInWei > 0 
-                  ? `${gasPriceInWei.toLocaleString()} Wei (${gasPriceInEth.toFixed(12)} HYPE)`
-                  : "0 Wei (0 HYPE)"
+                  ? `${gasPriceInWei.toLocaleString()} Wei (${gasPriceInEth.toFixed(12)} ${chain.nativeSymbol})`
+                  : `0 Wei (0 ${chain.nativeSymbol})`
                 }
               </span>
             </div>
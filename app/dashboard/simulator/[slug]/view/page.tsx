@@ -9,131 +9,104 @@ import GasProfileTab from "./components/GasProfileTab";
 import StorageStateTab from "./components/StorageStateTab";
 import TransactionDetails from "./components/TransactionDetails";
 import EventsTab from "./components/EventsTab";
-import { RotateCcw } from "lucide-react";
-
-const BACKEND = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-const ensure0x = (v?: string) =>
-  v && (v.startsWith("0x") || v.startsWith("0X")) ? v : `0x${v ?? "0"}`;
-
-const toHex = (value?: string): string => {
-  const s = (value || "").trim();
-  if (!s) return "0x0";
-  if (s.startsWith("0x") || s.startsWith("0X")) return s;
-  try {
-    const bi = BigInt(s);
-    return "0x" + bi.toString(16);
-  } catch {
-    const n = Number(s);
-    if (!Number.isFinite(n)) return "0x0";
-    return "0x" + Math.trunc(n).toString(16);
-  }
-};
-
-const parseStateOverrides = (sp: URLSearchParams) => {
-  const raw = sp.get("stateOverrides");
-  if (!raw) return {};
-  try {
-    const parsed = JSON.parse(raw) as Record<
-      string,
-      { balance?: string; stateDiff?: Record<string, string> }
-    >;
-
-    const normalized: Record<
-      string,
-      { balance?: string; stateDiff?: Record<string, string> }
-    > = {};
-    for (const [addr, obj] of Object.entries(parsed)) {
-      normalized[addr] = {
-        balance: obj.balance ? toHex(obj.balance) : undefined,
-        stateDiff: obj.stateDiff
-          ? Object.fromEntries(
-              Object.entries(obj.stateDiff).map(([k, v]) => [
-                ensure0x(k),
-                toHex(v),
-              ])
-            )
-          : undefined,
-      };
-    }
-    return normalized;
-  } catch {
-    return {};
-  }
-};
+import DebuggerTab from "./components/DebuggerTab";
+import { GitCompare, RotateCcw } from "lucide-react";
+import { SimulationResult, decodeSimulationTrace } from "@/lib/simulation";
+import {
+  BundleSimulateRequest,
+  SimulateRequest,
+  buildSimulateRequest,
+  getBackendClient,
+  isAbortError,
+} from "@/lib/backend";
+import {
+  BlockPosition,
+  blockPositionFromQuery,
+  runSimulateQuery,
+} from "@/lib/blockReplay";
+import { DecodedNode } from "@/utils/decodeCallTrace";
+import { SignaturesDialog } from "@/components/signatures-dialog";
+import { getRun, recordRun } from "@/lib/history";
+import { expandShareLink } from "@/lib/shareLink";
+import { chainFromQuery, setSelectedChain } from "@/lib/chains";
+import { withDetectedProxies } from "@/lib/proxyDetection";
+import { ShareLinkButton } from "@/components/share-link-button";
+import { BlockPositionNote } from "@/components/block-position-note";
 
 export default function SimulatorViewPage() {
-  const [responseData, setResponseData] = useState<any>(null);
+  const [responseData, setResponseData] = useState<SimulationResult | null>(
+    null
+  );
   const [activeTab, setActiveTab] = useState("summary");
   const [expandedStorageSections, setExpandedStorageSections] = useState<
     Set<string>
   >(new Set());
-  const [decodedTraceTree, setDecodedTraceTree] = useState<any>(null);
+  const [decodedTraceTree, setDecodedTraceTree] =
+    useState<DecodedNode | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [signaturesVersion, setSignaturesVersion] = useState(0);
+  const [debugFramePath, setDebugFramePath] = useState<number[] | null>(null);
+  const [storedAt, setStoredAt] = useState<number | null>(null); // opened from History
+  const [blockPosition, setBlockPosition] = useState<BlockPosition | null>(null);
+  // request that produced the result (a bundle for ?position= runs); null when opened from History
+  const [runRequest, setRunRequest] = useState<SimulateRequest | BundleSimulateRequest | null>(null);
 
   useEffect(() => {
     let cancelled = false;
+    const controller = new AbortController();
 
     const run = async () => {
       try {
         setIsLoading(true);
         setError(null);
 
-        // 1) Read query params
+        // 1) Read query params (share links in the fragment are expanded into them first)
+        await expandShareLink("simulate");
         const sp = new URLSearchParams(window.location.search);
-
-        // 2) Safely parse accessList if present
-        let parsedAccessList: any = undefined;
-        try {
-          parsedAccessList = sp.get("accessList")
-            ? JSON.parse(sp.get("accessList")!)
-            : undefined;
-        } catch {
-          parsedAccessList = undefined;
-        }
-
-        // 3) Build request body for backend
-        const requestBody = {
-          from: sp.get("from") || "",
-          to: sp.get("to") || "",
-          input: sp.get("input") || "0x",
-          value: toHex(sp.get("value") || "0"),
-          gas: toHex(sp.get("gas") || "0"),
-          gasPrice: toHex(sp.get("gasPrice") || "0"),
-          generateAccessList: true,
-          blockNumber: sp.get("block") ? toHex(sp.get("block")!) : "latest",
-          stateObjects: parseStateOverrides(sp),
-          accessList: parsedAccessList, // ✅ FIX: no double parse
-        };
-
-        // 4) Call backend
-        const res = await fetch(`${BACKEND}/api/simulate`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(requestBody),
-        });
-        if (!res.ok) {
-          let errorMsg = `HTTP ${res.status}`;
+        const chain = chainFromQuery(sp);
+        setSelectedChain(chain.id);
+
+        setBlockPosition(blockPositionFromQuery(sp));
+
+        // 2) Stored run from History (?historyId=), else call backend and record the run
+        const historyId = sp.get("historyId");
+        const stored = historyId ? await getRun(historyId).catch(() => undefined) : undefined;
+        let data: SimulationResult;
+        if (stored?.response && !("results" in stored.response)) {
+          data = stored.response;
+          setStoredAt(stored.timestamp);
+        } else {
+          sp.delete("historyId");
+          // built before running so a failed run can still be recorded with it
+          const request = buildSimulateRequest(sp);
           try {
-            const errorBody = await res.json();
-            console.log(errorBody?.error);
-            if (errorBody?.error?.message) {
-              errorMsg += ` - ${errorBody?.error?.message}`;
+            // with ?position= it runs as a bundle behind the earlier txs of the block
+            const outcome = await runSimulateQuery(sp, getBackendClient(chain), {
+              chain,
+              signal: controller.signal,
+            });
+            data = outcome.result;
+            setRunRequest(outcome.request);
+            recordRun({ kind: "simulate", query: sp.toString(), request: outcome.request, response: data });
+          } catch (e: any) {
+            if (!isAbortError(e)) {
+              recordRun({ kind: "simulate", query: sp.toString(), request, status: "error", error: e?.message });
             }
-          } catch (_) {
-            // ignore if not JSON
+            throw e;
           }
-          throw new Error(errorMsg);
         }
-        const data = await res.json();
         if (cancelled) return;
 
-        // 5) Set response
+        // 3) Proxies from on-chain slots, so the decoders use implementation ABIs
+        data = await withDetectedProxies(data, { chain, signal: controller.signal });
+        if (cancelled) return;
+
+        // 4) Set response
         setResponseData(data);
 
-        // 6) Cache contracts for later usage
-        if (data.contracts) {
+        // 5) Cache contracts for later usage
+        if (Object.keys(data.contracts).length) {
           const existing = JSON.parse(
             localStorage.getItem("contractsStorage") || "{}"
           );
@@ -141,60 +114,16 @@ export default function SimulatorViewPage() {
           localStorage.setItem("contractsStorage", JSON.stringify(merged));
         }
 
-        // 7) Decode traces
+        // 6) Decode traces
         try {
-          const { TraceDecoderManual } = await import(
-            "@/utils/decodeCallTrace"
-          );
-
-          const contracts: Record<string, any> = {};
-          if (data.contracts) {
-            Object.entries(data.contracts).forEach(
-              ([addr, contract]: [string, any]) => {
-                contracts[addr] = {
-                  address: addr,
-                  ABI: contract.ABI,
-                  Implementation: contract.Implementation,
-                  Proxy:
-                    contract.Proxy || (contract.Implementation ? "1" : "0"),
-                };
-              }
-            );
-          }
-
-          const manual = new TraceDecoderManual(contracts);
-
-          const convertCallTrace = (trace: any): any => ({
-            from: trace.from || "",
-            to: trace.to || "",
-            input: trace.input || "0x",
-            output: trace.output || "0x",
-            gas: trace.gas,
-            gasUsed: trace.gasUsed ?? trace.gas_used,
-            error: trace.error || "",
-            revertReason: trace.revertReason || "",
-            value: trace.value,
-            type: trace.type,
-            calls: Array.isArray(trace.calls)
-              ? trace.calls.map(convertCallTrace)
-              : undefined,
-          });
-
-          const rawRoot = data.transaction?.callTrace?.[0]
-            ? convertCallTrace(data.transaction.callTrace[0])
-            : null;
-
-          if (rawRoot) {
-            const decoded = await manual.decodeTrace(rawRoot);
-            if (!cancelled) setDecodedTraceTree(decoded);
-          } else {
-            if (!cancelled) setDecodedTraceTree(null);
-          }
+          const decoded = await decodeSimulationTrace(data);
+          if (!cancelled) setDecodedTraceTree(decoded);
         } catch (e) {
           console.error("Trace decode error:", e);
           if (!cancelled) setDecodedTraceTree(null);
         }
       } catch (e: any) {
+        if (isAbortError(e)) return;
         console.error("Failed to load simulation:", e);
         if (!cancelled) {
           setError(e?.message || "Failed to load simulation");
@@ -209,6 +138,7 @@ export default function SimulatorViewPage() {
     run();
     return () => {
       cancelled = true;
+      controller.abort();
     };
   }, []);
 
@@ -267,8 +197,17 @@ export default function SimulatorViewPage() {
     { id: "storage", label: "Storage state" },
     { id: "events", label: "Events" },
     { id: "gas-profiler", label: "Gas Profiler" },
+    { id: "debugger", label: "Debugger" },
   ];
 
+  // user added signatures → re-decode so guesses show up without re-simulating
+  const handleSignaturesChange = () => {
+    setSignaturesVersion((v) => v + 1);
+    decodeSimulationTrace(responseData)
+      .then(setDecodedTraceTree)
+      .catch((e) => console.error("Trace decode error:", e));
+  };
+
   const toggleStorageSection = (address: string) => {
     setExpandedStorageSections((prev) => {
       const newSet = new Set(prev);
@@ -289,22 +228,46 @@ export default function SimulatorViewPage() {
           <h1 className="text-2xl font-bold text-white">Simulation</h1>
         </div>
 
-        <Button
-          className="border-0 px-4 py-2 rounded-xl font-semibold transition-colors flex items-center space-x-2"
-          style={{
-            backgroundColor: "var(--btn-primary-bg)",
-            color: "var(--btn-primary-text)",
-          }}
-          onClick={() => {
-            const url = window.location.href.replace("/view?", "?");
-            window.location.href = url;
-          }}
-        >
-          <RotateCcw className="h-4 w-4" />
-          <span>Re-simulate</span>
-        </Button>
+        <div className="flex items-center space-x-3">
+          <SignaturesDialog onChange={handleSignaturesChange} />
+          <ShareLinkButton kind="simulate" getQuery={() => window.location.search} />
+          <Button
+            variant="outline"
+            className="rounded-xl flex items-center space-x-2"
+            style={{ borderColor: "var(--border)" }}
+            onClick={() => {
+              const a = encodeURIComponent(window.location.search.slice(1));
+              window.location.href = `/dashboard/compare?a=${a}`;
+            }}
+          >
+            <GitCompare className="h-4 w-4" />
+            <span>Compare</span>
+          </Button>
+          <Button
+            className="border-0 px-4 py-2 rounded-xl font-semibold transition-colors flex items-center space-x-2"
+            style={{
+              backgroundColor: "var(--btn-primary-bg)",
+              color: "var(--btn-primary-text)",
+            }}
+            onClick={() => {
+              const url = window.location.href.replace("/view?", "?");
+              window.location.href = url;
+            }}
+          >
+            <RotateCcw className="h-4 w-4" />
+            <span>Re-simulate</span>
+          </Button>
+        </div>
       </div>
 
+      {storedAt !== null && (
+        <div className="text-xs text-yellow-400 border border-yellow-700 rounded px-3 py-2">
+          Stored result from {new Date(storedAt).toLocaleString()}, opened from History without re-simulating.
+        </div>
+      )}
+
+      {blockPosition && <BlockPositionNote at={blockPosition} />}
+
       {/* Simulation Details */}
       <TransactionDetails
         responseData={responseData}
@@ -344,6 +307,11 @@ export default function SimulatorViewPage() {
             activeTab={activeTab}
             responseData={responseData}
             decodedTraceTree={decodedTraceTree}
+            request={runRequest}
+            onDebugFrame={(path) => {
+              setDebugFramePath(path);
+              setActiveTab("debugger");
+            }}
           />
         )}
         {activeTab !== "summary" && (
@@ -364,7 +332,14 @@ export default function SimulatorViewPage() {
                 decodedTraceTree={decodedTraceTree}
               />
             ) : activeTab === "events" ? (
-              <EventsTab responseData={responseData} />
+              <EventsTab key={signaturesVersion} responseData={responseData} />
+            ) : activeTab === "debugger" ? (
+              <DebuggerTab
+                responseData={responseData}
+                decodedTraceTree={decodedTraceTree}
+                request={runRequest}
+                focusFramePath={debugFramePath}
+              />
             ) : (
               <p className="text-gray-400 text-center">
                 Content for {tabs.find((t) => t.id === activeTab)?.label} tab
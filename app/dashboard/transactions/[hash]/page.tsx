@@ -10,14 +10,26 @@ import GasProfileTab from "@/app/dashboard/simulator/[slug]/view/components/GasP
 import StorageStateTab from "@/app/dashboard/simulator/[slug]/view/components/StorageStateTab";
 import TransactionDetails from "@/app/dashboard/simulator/[slug]/view/components/TransactionDetails";
 import EventsTab from "../../simulator/[slug]/view/components/EventsTab";
+import { SimulationResult, decodeSimulationTrace, hexToBigInt } from "@/lib/simulation";
+import { getBackendClient, isAbortError } from "@/lib/backend";
+import { DecodedNode } from "@/utils/decodeCallTrace";
+import { getRun, recordRun, traceToQuery } from "@/lib/history";
+import { chainFromQuery, setSelectedChain } from "@/lib/chains";
+import { withDetectedProxies } from "@/lib/proxyDetection";
+import { useSelectedChain } from "@/hooks/use-chain";
+import { ForkTransactionButtons } from "@/components/fork-transaction-buttons";
 
 export default function TransactionTracePage() {
   const router = useRouter();
   const params = useParams<{ hash: string }>();
   const txHash = params?.hash || "";
+  const chain = useSelectedChain();
 
-  const [responseData, setResponseData] = useState<any>(null);
-  const [decodedTraceTree, setDecodedTraceTree] = useState<any>(null);
+  const [responseData, setResponseData] = useState<SimulationResult | null>(
+    null
+  );
+  const [decodedTraceTree, setDecodedTraceTree] =
+    useState<DecodedNode | null>(null);
 
   const [activeTab, setActiveTab] = useState("summary");
   const [expandedStorageSections, setExpandedStorageSections] = useState<
@@ -26,116 +38,72 @@ export default function TransactionTracePage() {
 
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-
-  // Build API URL (configure base via NEXT_PUBLIC_TRACE_API_BASE when not localhost)
-
-  const url = `${
-    process.env.NEXT_PUBLIC_BACKEND_URL
-  }/api/trace/tx?txHash=${encodeURIComponent(txHash)}`;
+  const [storedAt, setStoredAt] = useState<number | null>(null); // opened from History
 
   useEffect(() => {
     if (!txHash) return;
+    const controller = new AbortController();
 
     const load = async () => {
       setIsLoading(true);
       setError(null);
 
       try {
-        const res = await fetch(url, { method: "GET" });
-        if (!res.ok) {
-          let errorMsg = `HTTP ${res.status}`;
+        // stored trace from History (?historyId=), else fetch and record it
+        const sp = new URLSearchParams(window.location.search);
+        const chain = chainFromQuery(sp);
+        setSelectedChain(chain.id);
+        const historyId = sp.get("historyId");
+        const stored = historyId ? await getRun(historyId).catch(() => undefined) : undefined;
+        let data: SimulationResult;
+        if (stored?.response && !("results" in stored.response)) {
+          data = stored.response;
+          setStoredAt(stored.timestamp);
+        } else {
           try {
-            const errorBody = await res.json();
-            console.log(errorBody?.error);
-            if (errorBody?.error?.message) {
-              errorMsg += ` - ${errorBody?.error?.message}`;
+            data = await getBackendClient(chain).traceTransaction(txHash, {
+              signal: controller.signal,
+            });
+          } catch (e: any) {
+            if (!isAbortError(e)) {
+              recordRun({ kind: "trace", txHash, query: `chain=${chain.id}`, request: { txHash }, status: "error", error: e?.message });
             }
-          } catch (_) {
-            // ignore if not JSON
+            throw e;
           }
-          throw new Error(errorMsg);
+          recordRun({ kind: "trace", txHash, query: traceToQuery(data, chain.id), request: { txHash }, response: data });
         }
+        if (controller.signal.aborted) return;
 
-        const data = await res.json();
-        console.log("API response:", data);
+        // proxies as of the block before the tx (the tx's own upgrades come from its storageDiff)
+        const block = hexToBigInt(data.transaction.blockHeader?.number);
+        data = await withDetectedProxies(data, {
+          chain,
+          block: block > BigInt(0) ? (block - BigInt(1)).toString() : undefined,
+          signal: controller.signal,
+        });
+        if (controller.signal.aborted) return;
         setResponseData(data);
 
         // Decode trace using your manual decoder (proxy-aware)
         try {
-          const { TraceDecoderManual } = await import(
-            "@/utils/decodeCallTrace"
-          );
-
-          // build a proxy-aware contracts map
-          const contracts: Record<string, any> = {};
-          Object.entries(data.contracts ?? {}).forEach(
-            ([addr, contract]: [string, any]) => {
-              const rec = {
-                address: addr,
-                ABI: contract.ABI,
-                Implementation: contract.Implementation,
-                Proxy: contract.Proxy || (contract.Implementation ? "1" : "0"),
-              };
-              contracts[addr] = rec;
-
-              // ⭐ new: also key the ABI by implementation address so the decoder can find it
-              if (contract.Implementation && contract.ABI) {
-                const implAddr = String(contract.Implementation);
-                if (!contracts[implAddr]) {
-                  contracts[implAddr] = {
-                    address: implAddr,
-                    ABI: contract.ABI,
-                    Proxy: "0",
-                  };
-                }
-              }
-            }
-          );
-
-          const manual = new TraceDecoderManual(contracts);
-
-          // Convert callTrace item to decoder format (defensive)
-          // wherever you have convertCallTrace:
-          const convertCallTrace = (trace: any): any => ({
-            from: trace?.from || "",
-            to: trace?.to || "",
-            input: trace?.input || "0x",
-            output: trace?.output || "0x",
-            gas: trace?.gas ?? trace?.gasUsed ?? trace?.gas_used,           // ← add fallbacks
-            gasUsed: trace?.gas_used ?? trace?.gasUsed ?? trace?.gas,       // ← add fallbacks
-            error: trace?.error || "",
-            revertReason: trace?.revertReason || "",
-            value: trace?.value,
-            type: trace?.type,
-            calls: Array.isArray(trace?.calls) ? trace.calls.map(convertCallTrace) : undefined,
-          });
-
-          // Your API returns the same shape as simulator: data.transaction.callTrace = [root...]
-          const rawRoot = data.transaction?.callTrace?.[0]
-            ? convertCallTrace(data.transaction.callTrace[0])
-            : null;
-
-          if (rawRoot) {
-            const decoded = await manual.decodeTrace(rawRoot);
-            setDecodedTraceTree(decoded);
-          } else {
-            setDecodedTraceTree(null);
-          }
+          setDecodedTraceTree(await decodeSimulationTrace(data));
         } catch (e) {
           console.error("Trace decode error:", e);
           // non-fatal: keep the raw response visible even if decode fails
           setDecodedTraceTree(null);
         }
       } catch (e: any) {
+        if (isAbortError(e)) return;
         console.error("Failed to load trace:", e);
         setError(e?.message || "Failed to load trace");
       } finally {
-        setIsLoading(false);
+        if (!controller.signal.aborted) setIsLoading(false);
       }
     };
 
     load();
-  }, [txHash, url]);
+    return () => controller.abort();
+  }, [txHash]);
 
   const tabs = [
     { id: "summary", label: "Summary" },
@@ -236,9 +204,16 @@ export default function TransactionTracePage() {
           <span className="text-xs text-gray-400 break-all">
             Tx Hash: {txHash}
           </span>
+          <ForkTransactionButtons txHash={txHash} chain={chain} />
         </div>
       </div>
 
+      {storedAt !== null && (
+        <div className="text-xs text-yellow-400 border border-yellow-700 rounded px-3 py-2">
+          Stored trace from {new Date(storedAt).toLocaleString()}, opened from History.
+        </div>
+      )}
+
       {/* Core details (reusing same component set) */}
       <TransactionDetails
         responseData={responseData}
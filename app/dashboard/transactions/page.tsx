@@ -5,6 +5,7 @@ import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { usePathname, useRouter } from "next/navigation"
 import { Sparkles } from "lucide-react"   // ⭐ import Sparkles icon
+import { getSelectedChain } from "@/lib/chains"
 
 export default function TransactionsPage() {
   const [txHash, setTxHash] = useState("")
@@ -13,7 +14,7 @@ export default function TransactionsPage() {
 
   const handleSearch = () => {
     if (!txHash.trim()) return
-    router.push(`${pathname}/${txHash.trim()}`)
+    router.push(`${pathname}/${txHash.trim()}?chain=${getSelectedChain().id}`)
   }
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -0,0 +1,403 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Braces, ListTree, Plus, X } from "lucide-react"
+import { ParamType, formatUnits } from "ethers"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  AbiParam,
+  ParamValue,
+  UNITS,
+  amountToInteger,
+  emptyValue,
+  leafError,
+  paramType,
+  structName,
+  valueFromJson,
+  valueToJson,
+} from "@/lib/abiParams"
+import { NestedBytes, NestedDecoder } from "@/lib/calldata"
+
+const fieldStyle = {
+  backgroundColor: "var(--bg-primary)",
+  borderColor: "var(--border)",
+  color: "var(--text-primary)",
+  opacity: 0.8,
+}
+
+const CUSTOM_UNIT = "custom"
+
+// One field per function input; tuples and arrays nest recursively. `bytes` values that
+// `decodeNested` recognizes (calls, router commands) can be edited as parameters too.
+export function AbiParamsForm({
+  inputs,
+  values,
+  onChange,
+  decodeNested,
+}: {
+  inputs: AbiParam[]
+  values: ParamValue[]
+  onChange: (values: ParamValue[]) => void
+  decodeNested?: NestedDecoder
+}) {
+  return (
+    <div className="space-y-3">
+      {inputs.map((input, i) => (
+        <ParamField
+          key={i}
+          param={paramType(input)}
+          label={input.name || `param${i}`}
+          hint={structName(input)}
+          value={values[i] ?? emptyValue(input)}
+          onChange={(v) => onChange(inputs.map((inp, j) => (j === i ? v : values[j] ?? emptyValue(inp))))}
+          path={[i]}
+          decodeNested={decodeNested}
+        />
+      ))}
+    </div>
+  )
+}
+
+type FieldProps = {
+  param: ParamType
+  label: string
+  hint?: string
+  value: ParamValue
+  onChange: (value: ParamValue) => void
+  path: number[]
+  decodeNested?: NestedDecoder
+}
+
+function ParamField(props: FieldProps) {
+  return props.param.isTuple() || props.param.isArray() ? <CompositeField {...props} /> : <LeafField {...props} />
+}
+
+function FieldLabel({ label, type }: { label: string; type: string }) {
+  return (
+    <div className="text-xs text-gray-400 mb-1">
+      {label} <span className="font-mono text-gray-500">{type}</span>
+    </div>
+  )
+}
+
+/* ----------------------------- Leaves ----------------------------- */
+function LeafField({ param, label, value, onChange, path, decodeNested }: FieldProps) {
+  const [touched, setTouched] = useState(false)
+  const [expanded, setExpanded] = useState(true)
+  const text = typeof value === "string" ? value : ""
+  const error = leafError(param.baseType, text)
+  const showError = error && (touched || (text.trim() !== "" && error !== "Required"))
+  const nested = param.baseType === "bytes" && !error && decodeNested ? decodeNested(path, text.trim()) : null
+
+  let control
+  if (param.baseType === "bool") {
+    control = (
+      <Select value={/^(true|1)$/i.test(text) ? "true" : "false"} onValueChange={onChange}>
+        <SelectTrigger className="border text-sm" style={fieldStyle}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="true">true</SelectItem>
+          <SelectItem value="false">false</SelectItem>
+        </SelectContent>
+      </Select>
+    )
+  } else if (/int/.test(param.baseType)) {
+    control = <IntegerInput value={text} onChange={onChange} onBlur={() => setTouched(true)} />
+  } else {
+    control = (
+      <Input
+        placeholder={placeholderFor(param.baseType)}
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        onBlur={() => setTouched(true)}
+        className={`border text-sm ${param.baseType === "string" ? "" : "font-mono"}`}
+        style={{ ...fieldStyle, borderColor: showError ? "rgb(248,113,113)" : fieldStyle.borderColor }}
+      />
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2">
+        <FieldLabel label={label} type={param.type} />
+        {nested && (
+          <button
+            type="button"
+            onClick={() => setExpanded((v) => !v)}
+            className="inline-flex items-center gap-1 text-xs text-gray-400 hover:text-white mb-1"
+            title={expanded ? "Hide decoded parameters" : "Edit as decoded parameters"}
+          >
+            <ListTree className="h-3 w-3" />
+            <span className="font-mono">{nested.label}</span>
+          </button>
+        )}
+      </div>
+      {control}
+      {showError && <p className="text-xs text-red-400 mt-1">{error}</p>}
+      {nested && expanded && <NestedBytesEditor nested={nested} value={text.trim()} onChange={onChange} />}
+    </div>
+  )
+}
+
+// Decoded form of a bytes value. Local values keep half-typed edits that don't encode yet;
+// the bytes are only rewritten once every nested field is valid.
+function NestedBytesEditor({
+  nested,
+  value,
+  onChange,
+}: {
+  nested: NestedBytes
+  value: string
+  onChange: (value: string) => void
+}) {
+  const [values, setValues] = useState(nested.values)
+  const emitted = useRef({ value, label: nested.label })
+
+  // bytes or their meaning changed outside this editor (raw edit, JSON, router command): start over
+  useEffect(() => {
+    if (value.toLowerCase() !== emitted.current.value.toLowerCase() || nested.label !== emitted.current.label) {
+      emitted.current = { value, label: nested.label }
+      setValues(nested.values)
+    }
+  }, [value, nested])
+
+  const change = (next: ParamValue[]) => {
+    setValues(next)
+    try {
+      const bytes = nested.encode(next)
+      emitted.current = { value: bytes, label: nested.label }
+      onChange(bytes)
+    } catch {
+      // keep the last valid bytes until the nested fields are fixed
+    }
+  }
+
+  return (
+    <div className="mt-2 ml-2 pl-3 border-l space-y-1" style={{ borderColor: "var(--border)" }}>
+      {nested.source === "signatures" && (
+        <p className="text-xs text-yellow-400">Decoded from the signature database; parameter names are unknown</p>
+      )}
+      <AbiParamsForm
+        inputs={nested.inputs}
+        values={values}
+        onChange={change}
+        decodeNested={nested.nested(values)}
+      />
+    </div>
+  )
+}
+
+function placeholderFor(type: string): string {
+  if (type === "address") return "0x…"
+  if (type === "bytes") return "0x (hex)"
+  const fixed = type.match(/^bytes(\d+)$/)
+  if (fixed) return `0x + ${Number(fixed[1]) * 2} hex characters`
+  return `Enter ${type}`
+}
+
+const rawToAmount = (raw: string, decimals: number) => {
+  try {
+    return raw.trim() ? formatUnits(BigInt(raw.trim()), decimals).replace(/\.0$/, "") : ""
+  } catch {
+    return ""
+  }
+}
+
+// Integer with a unit helper: amounts typed in gwei/ether/token decimals are stored as the raw integer
+function IntegerInput({
+  value,
+  onChange,
+  onBlur,
+}: {
+  value: string
+  onChange: (value: string) => void
+  onBlur: () => void
+}) {
+  const [unit, setUnit] = useState("0")
+  const [customDecimals, setCustomDecimals] = useState("6")
+  const [amount, setAmount] = useState("")
+  const decimals = unit === CUSTOM_UNIT ? Number(customDecimals) || 0 : Number(unit)
+  // last raw value this field produced; anything else came from outside (JSON edit, cleared form, …)
+  const emitted = useRef(value)
+
+  useEffect(() => {
+    if (value === emitted.current) return
+    emitted.current = value
+    setAmount(rawToAmount(value, decimals))
+  }, [value, decimals])
+
+  const changeUnit = (next: string) => {
+    const d = next === CUSTOM_UNIT ? Number(customDecimals) || 0 : Number(next)
+    setUnit(next)
+    setAmount(rawToAmount(value, d))
+  }
+
+  const changeAmount = (text: string, d = decimals) => {
+    setAmount(text)
+    // an amount that doesn't fit the unit is passed through so validation reports it
+    const raw = d === 0 ? text : amountToInteger(text, d) ?? text
+    emitted.current = raw
+    onChange(raw)
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          placeholder={unit === "0" ? "Whole number (decimal or 0x hex)" : "Amount"}
+          value={unit === "0" ? value : amount}
+          onChange={(e) => changeAmount(e.target.value)}
+          onBlur={onBlur}
+          className="border text-sm font-mono flex-1"
+          style={fieldStyle}
+        />
+        <Select value={unit} onValueChange={changeUnit}>
+          <SelectTrigger className="border text-sm w-28" style={fieldStyle}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {UNITS.map((u) => (
+              <SelectItem key={u.label} value={String(u.decimals)}>
+                {u.label}
+              </SelectItem>
+            ))}
+            <SelectItem value={CUSTOM_UNIT}>decimals…</SelectItem>
+          </SelectContent>
+        </Select>
+        {unit === CUSTOM_UNIT && (
+          <Input
+            value={customDecimals}
+            onChange={(e) => {
+              setCustomDecimals(e.target.value)
+              changeAmount(amount, Number(e.target.value) || 0)
+            }}
+            className="border text-sm w-16"
+            style={fieldStyle}
+            title="Token decimals"
+          />
+        )}
+      </div>
+      {unit !== "0" && value.trim() !== "" && (
+        <p className="text-xs text-gray-500 font-mono break-all">= {value}</p>
+      )}
+    </div>
+  )
+}
+
+/* ----------------------------- Tuples and arrays ----------------------------- */
+function CompositeField({ param, label, hint, value, onChange, path, decodeNested }: FieldProps) {
+  const [jsonOpen, setJsonOpen] = useState(false)
+  const [jsonText, setJsonText] = useState("")
+  const [jsonError, setJsonError] = useState<string | null>(null)
+  const children = Array.isArray(value) ? value : (emptyValue(param) as ParamValue[])
+  const dynamic = param.isArray() && param.arrayLength < 0
+
+  const openJson = () => {
+    setJsonText(JSON.stringify(valueToJson(param, children), null, 2))
+    setJsonError(null)
+    setJsonOpen((v) => !v)
+  }
+
+  const applyJson = () => {
+    try {
+      onChange(valueFromJson(param, JSON.parse(jsonText)))
+      setJsonOpen(false)
+      setJsonError(null)
+    } catch (e: any) {
+      setJsonError(e?.message || "Invalid JSON")
+    }
+  }
+
+  const setChild = (i: number, v: ParamValue) => onChange(children.map((c, j) => (j === i ? v : c)))
+
+  return (
+    <div className="border rounded p-3 space-y-3" style={{ borderColor: "var(--border)" }}>
+      <div className="flex items-center justify-between gap-2">
+        <FieldLabel label={label} type={hint ? `${hint} ${param.format()}` : param.format()} />
+        <button
+          type="button"
+          onClick={openJson}
+          className="inline-flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+          title="Edit as JSON"
+        >
+          <Braces className="h-3 w-3" />
+          JSON
+        </button>
+      </div>
+
+      {jsonOpen && (
+        <div className="space-y-2">
+          <Textarea
+            value={jsonText}
+            onChange={(e) => setJsonText(e.target.value)}
+            className="font-mono text-xs min-h-[120px]"
+            style={fieldStyle}
+          />
+          {jsonError && <p className="text-xs text-red-400">{jsonError}</p>}
+          <button type="button" onClick={applyJson} className="text-xs underline text-gray-300 hover:text-white">
+            Apply
+          </button>
+        </div>
+      )}
+
+      {param.isTuple() &&
+        param.components.map((c, i) => (
+          <ParamField
+            key={i}
+            param={c}
+            label={c.name || `[${i}]`}
+            value={children[i] ?? emptyValue(c)}
+            onChange={(v) => setChild(i, v)}
+            path={[...path, i]}
+            decodeNested={decodeNested}
+          />
+        ))}
+
+      {param.isArray() &&
+        children.map((child, i) => (
+          <div key={i} className="flex items-start gap-2">
+            <div className="flex-1">
+              <ParamField
+                param={param.arrayChildren}
+                label={`[${i}]`}
+                value={child}
+                onChange={(v) => setChild(i, v)}
+                path={[...path, i]}
+                decodeNested={decodeNested}
+              />
+            </div>
+            {dynamic && (
+              <button
+                type="button"
+                onClick={() => onChange(children.filter((_, j) => j !== i))}
+                className="mt-6 text-gray-500 hover:text-red-400"
+                title="Remove element"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        ))}
+
+      {dynamic && (
+        <button
+          type="button"
+          onClick={() => onChange([...children, emptyValue(param.arrayChildren)])}
+          className="inline-flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+        >
+          <Plus className="h-3 w-3" />
+          Add element
+        </button>
+      )}
+    </div>
+  )
+}
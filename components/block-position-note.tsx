@@ -0,0 +1,14 @@
+"use client"
+
+import { BlockPosition } from "@/lib/blockReplay"
+
+// Results of a simulation with ?position=: the replayed block prefix is not part of them
+export function BlockPositionNote({ at }: { at: BlockPosition }) {
+  return (
+    <div className="text-xs text-gray-300 border rounded px-3 py-2" style={{ borderColor: "var(--border)" }}>
+      Simulated at position {at.position} of block {at.block}: {at.position} earlier transaction
+      {at.position === 1 ? " of the block was" : "s of the block were"} replayed first and{" "}
+      {at.position === 1 ? "is" : "are"} not shown.
+    </div>
+  )
+}
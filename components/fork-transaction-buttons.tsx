@@ -0,0 +1,77 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { FlaskConical, Layers, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ChainConfig } from "@/lib/chains"
+import { bundleForkHref, fetchMinedTransaction, simulatorForkHref } from "@/lib/txFork"
+
+// "Open in Simulator" / "Open in Bundle" for a mined tx: its original fields, prefilled on the block before it,
+// or at its position in its block when the earlier txs are replayed too
+export function ForkTransactionButtons({ txHash, chain }: { txHash: string; chain: ChainConfig }) {
+  const router = useRouter()
+  const [withPrefix, setWithPrefix] = useState(false)
+  const [pending, setPending] = useState<"simulator" | "bundle" | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const open = async (target: "simulator" | "bundle") => {
+    setPending(target)
+    setError(null)
+    try {
+      const tx = await fetchMinedTransaction(txHash, { chain })
+      router.push(
+        target === "simulator" ? simulatorForkHref(tx, chain.id, withPrefix) : bundleForkHref(tx, chain.id, withPrefix)
+      )
+    } catch (e: any) {
+      setError(e?.message || "Could not load the transaction")
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="relative flex items-center gap-3">
+      <label className="flex items-center gap-2 text-xs text-gray-400" title="Replay the txs mined before this one in its block first">
+        <input
+          type="checkbox"
+          checked={withPrefix}
+          onChange={(e) => setWithPrefix(e.target.checked)}
+          style={{ accentColor: "var(--color-primary)" }}
+        />
+        Include earlier txs in block
+      </label>
+      <Button
+        type="button"
+        variant="outline"
+        className="rounded-xl flex items-center space-x-2"
+        style={{ borderColor: "var(--border)" }}
+        disabled={pending !== null}
+        onClick={() => open("bundle")}
+        title="Open in the bundle builder to add transactions before or after it"
+      >
+        {pending === "bundle" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Layers className="h-4 w-4" />}
+        <span>Open in Bundle</span>
+      </Button>
+      <Button
+        type="button"
+        className="border-0 rounded-xl font-semibold flex items-center space-x-2"
+        style={{ backgroundColor: "var(--btn-primary-bg)", color: "var(--btn-primary-text)" }}
+        disabled={pending !== null}
+        onClick={() => open("simulator")}
+        title="Open in the simulator with editable fields and overrides"
+      >
+        {pending === "simulator" ? <Loader2 className="h-4 w-4 animate-spin" /> : <FlaskConical className="h-4 w-4" />}
+        <span>Open in Simulator</span>
+      </Button>
+      {error && (
+        <div
+          className="absolute right-0 top-full mt-1 z-10 w-72 text-xs rounded border px-2 py-1 text-red-400"
+          style={{ backgroundColor: "var(--bg-primary)", borderColor: "var(--border)" }}
+        >
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,9 @@ import { useState } from "react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useSelectedChain } from "@/hooks/use-chain"
+import { CHAINS, setSelectedChain } from "@/lib/chains"
 
 export function Navbar() {
 
@@ -13,6 +16,7 @@ export function Navbar() {
 
   // Hide the button if we're on any dashboard route
   const isOnDashboard = pathname?.startsWith('/dashboard')
+  const chain = useSelectedChain()
 
   return (
     <nav className="flex h-20 w-full items-center justify-between border-b px-6" style={{
@@ -31,6 +35,24 @@ export function Navbar() {
         </div>
       </Link>
       
+      {isOnDashboard && (
+        <Select value={String(chain.id)} onValueChange={(id) => setSelectedChain(Number(id))}>
+          <SelectTrigger className="w-56" style={{ borderColor: 'var(--border)' }} title="Chain used by new simulations">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CHAINS.map((c) => (
+              <SelectItem key={c.id} value={String(c.id)}>
+                <span className="flex items-center gap-2">
+                  <span className={`h-2 w-2 rounded-full ${c.testnet ? 'bg-yellow-400' : 'bg-green-400'}`} />
+                  {c.name}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
       {!isOnDashboard && (
         <Link href="/dashboard/simulator/v1">
           <Button 
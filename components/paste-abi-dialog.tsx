@@ -0,0 +1,98 @@
+"use client"
+
+import { useState } from "react"
+import { FileJson } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { ResolvedAbi, saveManualAbi } from "@/lib/abiResolver"
+import { useSelectedChain } from "@/hooks/use-chain"
+
+// Stores a user-pasted ABI for one address; the resolver falls back to it when no other source knows the contract
+export function PasteAbiDialog({
+  address,
+  onSaved,
+  label = "Paste ABI",
+}: {
+  address: string
+  onSaved: (resolved: ResolvedAbi) => void
+  label?: string
+}) {
+  const chain = useSelectedChain()
+  const [open, setOpen] = useState(false)
+  const [text, setText] = useState("")
+  const [name, setName] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const handleOpenChange = (v: boolean) => {
+    setOpen(v)
+    if (v) setError(null)
+  }
+
+  const handleSave = () => {
+    try {
+      onSaved(saveManualAbi(address, chain, text, name))
+      setOpen(false)
+      setText("")
+      setName("")
+    } catch (e: any) {
+      setError(e?.message || "Could not save the ABI")
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <button type="button" className="inline-flex items-center gap-1 text-xs underline text-gray-400 hover:text-white">
+          <FileJson className="h-3 w-3" />
+          {label}
+        </button>
+      </DialogTrigger>
+      <DialogContent style={{ backgroundColor: "var(--bg-primary)", borderColor: "var(--border)" }}>
+        <DialogHeader>
+          <DialogTitle className="text-white">Paste ABI</DialogTitle>
+          <DialogDescription className="break-all">
+            Used for {address} on {chain.name}. Stored in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label className="text-sm text-gray-400">Contract name (optional)</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Vault" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm text-gray-400">ABI JSON or Foundry/Hardhat artifact</Label>
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder='[{"type":"function","name":"deposit",...}]'
+              className="font-mono text-xs min-h-[200px]"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="items-center">
+          {error && <span className="text-sm text-red-400 mr-auto">{error}</span>}
+          <Button
+            onClick={handleSave}
+            disabled={!text.trim()}
+            style={{ backgroundColor: "var(--btn-primary-bg)", color: "var(--btn-primary-text)" }}
+          >
+            Save ABI
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { FolderPlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  BlockPolicy,
+  Project,
+  ScenarioKind,
+  addScenario,
+  blockPolicyFromQuery,
+  createProject,
+  loadProjects,
+} from "@/lib/projects"
+
+const NEW_PROJECT = "__new__"
+
+// "latest" or a fixed block; shared by the save dialog and the project page
+export function BlockPolicyField({ value, onChange }: { value: BlockPolicy; onChange: (v: BlockPolicy) => void }) {
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={value.mode}
+        onValueChange={(mode) => onChange(mode === "fixed" ? { mode: "fixed", block: "" } : { mode: "latest" })}
+      >
+        <SelectTrigger className="w-36 h-8 text-sm" style={{ borderColor: "var(--border)" }}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="latest">Latest block</SelectItem>
+          <SelectItem value="fixed">Fixed block</SelectItem>
+        </SelectContent>
+      </Select>
+      {value.mode === "fixed" && (
+        <Input
+          value={value.block}
+          onChange={(e) => onChange({ mode: "fixed", block: e.target.value })}
+          placeholder="Block number"
+          className="w-40 h-8 text-sm"
+        />
+      )}
+    </div>
+  )
+}
+
+// Saves the builder's current state (its query string) as a named scenario in a project
+export function SaveScenarioDialog({ kind, getQuery }: { kind: ScenarioKind; getQuery: () => string }) {
+  const [open, setOpen] = useState(false)
+  const [projects, setProjects] = useState<Project[]>([])
+  const [projectId, setProjectId] = useState(NEW_PROJECT)
+  const [projectName, setProjectName] = useState("")
+  const [title, setTitle] = useState("")
+  const [notes, setNotes] = useState("")
+  const [tags, setTags] = useState("")
+  const [blockPolicy, setBlockPolicy] = useState<BlockPolicy>({ mode: "latest" })
+  const [saved, setSaved] = useState<{ projectId: string; name: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleOpenChange = (v: boolean) => {
+    setOpen(v)
+    if (!v) return
+    const list = loadProjects()
+    setProjects(list)
+    setProjectId((prev) => (list.some((p) => p.id === prev) ? prev : list[0]?.id ?? NEW_PROJECT))
+    setBlockPolicy(blockPolicyFromQuery(getQuery()))
+    setSaved(null)
+    setError(null)
+  }
+
+  const handleSave = () => {
+    if (!title.trim()) {
+      setError("Give the scenario a title")
+      return
+    }
+    if (blockPolicy.mode === "fixed" && !/^\d+$/.test(blockPolicy.block.trim())) {
+      setError("Fixed block must be a block number")
+      return
+    }
+    try {
+      const project =
+        projectId === NEW_PROJECT ? createProject(projectName) : projects.find((p) => p.id === projectId)!
+      addScenario(project.id, { kind, title, notes, tags: tags.split(","), blockPolicy, query: getQuery() })
+      setSaved({ projectId: project.id, name: project.name })
+      setProjects(loadProjects())
+      setProjectId(project.id)
+      setTitle("")
+      setNotes("")
+      setTags("")
+      setError(null)
+    } catch (e: any) {
+      setError(e?.message || "Could not save the scenario")
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          className="flex items-center gap-2"
+          style={{ borderColor: "var(--border)", color: "var(--text-primary)" }}
+        >
+          <FolderPlus className="h-4 w-4" />
+          Save to Project
+        </Button>
+      </DialogTrigger>
+      <DialogContent style={{ backgroundColor: "var(--bg-primary)", borderColor: "var(--border)" }}>
+        <DialogHeader>
+          <DialogTitle className="text-white">Save {kind === "bundle" ? "bundle" : "simulation"} scenario</DialogTitle>
+          <DialogDescription>Stored in this browser. Export the project from Projects to share it.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label className="text-sm text-gray-400">Project</Label>
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger style={{ borderColor: "var(--border)" }}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value={NEW_PROJECT}>+ New project</SelectItem>
+              </SelectContent>
+            </Select>
+            {projectId === NEW_PROJECT && (
+              <Input value={projectName} onChange={(e) => setProjectName(e.target.value)} placeholder="Project name" />
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-sm text-gray-400">Title</Label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Swap with max slippage" />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-sm text-gray-400">Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} className="text-sm min-h-[80px]" />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-sm text-gray-400">Tags (comma separated)</Label>
+            <Input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="regression, router" />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-sm text-gray-400">Block</Label>
+            <BlockPolicyField value={blockPolicy} onChange={setBlockPolicy} />
+          </div>
+        </div>
+
+        <DialogFooter className="items-center">
+          {error && <span className="text-sm text-red-400 mr-auto">{error}</span>}
+          {saved && !error && (
+            <span className="text-sm text-gray-400 mr-auto">
+              Saved to{" "}
+              <Link href={`/dashboard/projects/${saved.projectId}`} className="underline">
+                {saved.name}
+              </Link>
+            </span>
+          )}
+          <Button
+            onClick={handleSave}
+            style={{ backgroundColor: "var(--btn-primary-bg)", color: "var(--btn-primary-text)" }}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,51 @@
+"use client"
+
+import { useState } from "react"
+import { Check, Share2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ShareKind, createShareLink } from "@/lib/shareLink"
+
+// Copies a compressed share link for the current page; oversized scenarios get a local short id
+export function ShareLinkButton({ kind, getQuery }: { kind: ShareKind; getQuery: () => string }) {
+  const [message, setMessage] = useState<string | null>(null)
+
+  const handleShare = async () => {
+    try {
+      const query = new URLSearchParams(getQuery())
+      query.delete("historyId")
+      const link = await createShareLink(kind, query.toString(), window.location.origin, window.location.pathname)
+      await navigator.clipboard.writeText(link.url)
+      setMessage(
+        link.stored
+          ? "Too large for a link: saved in this browser, short link copied. Export a project to share it with others."
+          : "Link copied"
+      )
+    } catch (e: any) {
+      setMessage(e?.message || "Could not create a share link")
+    }
+    setTimeout(() => setMessage(null), 4000)
+  }
+
+  return (
+    <div className="relative">
+      <Button
+        type="button"
+        variant="outline"
+        className="rounded-xl flex items-center space-x-2"
+        style={{ borderColor: "var(--border)" }}
+        onClick={handleShare}
+      >
+        {message === "Link copied" ? <Check className="h-4 w-4" /> : <Share2 className="h-4 w-4" />}
+        <span>Share</span>
+      </Button>
+      {message && (
+        <div
+          className="absolute right-0 top-full mt-1 z-10 w-64 text-xs rounded border px-2 py-1 text-gray-300"
+          style={{ backgroundColor: "var(--bg-primary)", borderColor: "var(--border)" }}
+        >
+          {message}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -15,6 +15,9 @@ export function Sidebar() {
     { href: "/dashboard/contracts",     label: "Contracts", disabled: false },
     { href: "/dashboard/simulator/v1",     label: "Simulator", disabled: false },
     { href: "/dashboard/advanceSimulator/v1",     label: "Advance Simulator", disabled: false },
+    { href: "/dashboard/projects",     label: "Projects", disabled: false },
+    { href: "/dashboard/compare",     label: "Compare", disabled: false },
+    { href: "/dashboard/history",     label: "History", disabled: false },
 
   ]
 
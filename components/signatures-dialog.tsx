@@ -0,0 +1,106 @@
+"use client"
+
+import { useState } from "react"
+import { BookOpen } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { SignatureKind, addUserSignatures, importUserSignatures } from "@/lib/signatures"
+
+const KINDS: { id: SignatureKind; label: string; placeholder: string }[] = [
+  { id: "function", label: "Functions", placeholder: "transfer(address,uint256)\nswap(address,bool,int256,uint160,bytes)" },
+  { id: "event", label: "Events", placeholder: "Transfer(address,address,uint256)" },
+  { id: "error", label: "Errors", placeholder: "InsufficientBalance(uint256,uint256)" },
+]
+
+// Lets the user extend the local signature database used to decode unverified contracts
+export function SignaturesDialog({ onChange }: { onChange?: () => void }) {
+  const [open, setOpen] = useState(false)
+  const [kind, setKind] = useState<SignatureKind>("function")
+  const [text, setText] = useState("")
+  const [message, setMessage] = useState<string | null>(null)
+
+  const handleAdd = () => {
+    const input = text.trim()
+    if (!input) return
+
+    let added: number
+    if (input.startsWith("{")) {
+      // 4byte.directory JSON: {"0xa9059cbb": ["transfer(address,uint256)"]} or an API results page
+      try {
+        added = importUserSignatures(kind, JSON.parse(input))
+      } catch {
+        setMessage("Invalid JSON")
+        return
+      }
+    } else {
+      added = addUserSignatures(kind, input.split(/\n+/))
+    }
+
+    setMessage(added ? `Added ${added} signature${added === 1 ? "" : "s"}` : "No new signatures")
+    if (added) {
+      setText("")
+      onChange?.()
+    }
+  }
+
+  const current = KINDS.find((k) => k.id === kind)!
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => { setOpen(v); setMessage(null) }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="rounded-xl flex items-center space-x-2" style={{ borderColor: "var(--border)" }}>
+          <BookOpen className="h-4 w-4" />
+          <span>Signatures</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent style={{ backgroundColor: "var(--bg-primary)", borderColor: "var(--border)" }}>
+        <DialogHeader>
+          <DialogTitle className="text-white">Signature database</DialogTitle>
+          <DialogDescription>
+            Used for contracts without a verified ABI. Paste one signature per line, or a 4byte.directory JSON dump.
+            Matches are marked as guesses.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex space-x-1">
+          {KINDS.map((k) => (
+            <Button
+              key={k.id}
+              size="sm"
+              variant={kind === k.id ? "secondary" : "ghost"}
+              onClick={() => setKind(k.id)}
+            >
+              {k.label}
+            </Button>
+          ))}
+        </div>
+
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={current.placeholder}
+          className="font-mono text-xs min-h-[160px]"
+        />
+
+        <DialogFooter className="items-center">
+          {message && <span className="text-sm text-gray-400 mr-auto">{message}</span>}
+          <Button
+            onClick={handleAdd}
+            style={{ backgroundColor: "var(--btn-primary-bg)", color: "var(--btn-primary-text)" }}
+          >
+            Add
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
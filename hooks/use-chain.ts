@@ -0,0 +1,9 @@
+import * as React from "react"
+import { ChainConfig, DEFAULT_CHAIN_ID, getChain, getSelectedChain, onSelectedChainChange } from "@/lib/chains"
+
+const serverChain = () => getChain(DEFAULT_CHAIN_ID)
+
+/** Chain picked in the navbar; re-renders when it changes */
+export function useSelectedChain(): ChainConfig {
+  return React.useSyncExternalStore(onSelectedChainChange, getSelectedChain, serverChain)
+}
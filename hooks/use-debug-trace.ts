@@ -0,0 +1,68 @@
+import * as React from "react"
+import { DebugTrace, SimulationResult } from "@/lib/simulation"
+import { BundleSimulateRequest, SimulateRequest, getBackendClient } from "@/lib/backend"
+import { synthesizeDebugTrace } from "@/lib/debugger"
+
+export type DebugTraceState = {
+  trace: DebugTrace | null
+  fallbackReason: string | null // set when `trace` is the call-level stand-in
+}
+
+// one opcode trace per request, shared by the Summary and Debugger tabs (traces can be large)
+const traces = new WeakMap<object, Promise<DebugTrace>>()
+
+function fetchTrace(request: SimulateRequest): Promise<DebugTrace> {
+  let pending = traces.get(request)
+  if (!pending) {
+    pending = getBackendClient()
+      .debugTrace(request)
+      .then((t) => {
+        if (!t.structLogs.length) throw new Error("Backend returned an empty opcode trace")
+        return t
+      })
+    pending.catch(() => traces.delete(request))
+    traces.set(request, pending)
+  }
+  return pending
+}
+
+/**
+ * Opcode trace for the request that produced `responseData`, else the call-level stand-in.
+ * Stored runs would be re-traced against today's state, and prefixed runs are bundles.
+ * Nothing is fetched while `enabled` is false.
+ */
+export function useDebugTrace(
+  responseData: SimulationResult,
+  request: SimulateRequest | BundleSimulateRequest | null,
+  enabled = true
+): DebugTraceState {
+  const [state, setState] = React.useState<DebugTraceState>({ trace: null, fallbackReason: null })
+
+  React.useEffect(() => {
+    if (!enabled) return
+    if (!request || "transactions" in request) {
+      setState({
+        trace: synthesizeDebugTrace(responseData),
+        fallbackReason: request ? "not traced for runs at a position in a block" : "run opened from History",
+      })
+      return
+    }
+
+    let cancelled = false
+    setState({ trace: null, fallbackReason: null })
+    fetchTrace(request)
+      .then((trace) => !cancelled && setState({ trace, fallbackReason: null }))
+      .catch((e: any) => {
+        if (cancelled) return
+        setState({
+          trace: synthesizeDebugTrace(responseData),
+          fallbackReason: e?.message || "Opcode trace unavailable",
+        })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [responseData, request, enabled])
+
+  return state
+}
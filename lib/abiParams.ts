@@ -0,0 +1,227 @@
+// Typed ABI parameter values for the simulators' function forms: a value tree that mirrors the
+// ABI type (tuples and arrays hold child values, leaves hold the text the user typed), with
+// per-type validation, JSON import/export and encoding through ethers.
+
+import { FunctionFragment, Interface, ParamType, getAddress, isAddress, parseUnits } from "ethers";
+
+/* ----------------------------- Types ----------------------------- */
+export type AbiParam = {
+  name?: string;
+  type: string;
+  internalType?: string;
+  components?: AbiParam[];
+};
+
+/** Leaf: the text as typed; tuple: one value per component; array: one value per element */
+export type ParamValue = string | ParamValue[];
+
+export type ParamIssue = { path: string; message: string };
+
+export class AbiParamError extends Error {
+  constructor(public readonly path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = "AbiParamError";
+  }
+}
+
+export const paramType = (param: AbiParam | ParamType): ParamType =>
+  ParamType.isParamType(param) ? param : ParamType.from(param);
+
+/** Struct name from internalType (`struct Router.Order[]` → `Order[]`) when the ABI has one */
+export function structName(param: AbiParam): string | undefined {
+  const match = param.internalType?.match(/^struct\s+(?:\w+\.)?(\w+(?:\[\d*\])*)$/);
+  return match?.[1];
+}
+
+/* ----------------------------- Defaults ----------------------------- */
+export function emptyValue(param: AbiParam | ParamType): ParamValue {
+  const t = paramType(param);
+  if (t.isTuple()) return t.components.map(emptyValue);
+  if (t.isArray()) return t.arrayLength > 0 ? Array.from({ length: t.arrayLength }, () => emptyValue(t.arrayChildren)) : [];
+  return t.baseType === "bool" ? "false" : "";
+}
+
+/** Values whose shape no longer matches the type (old links, a different overload) are reset */
+export function coerceValue(param: AbiParam | ParamType, value: unknown): ParamValue {
+  const t = paramType(param);
+  if (t.isTuple()) {
+    return Array.isArray(value) && value.length === t.components.length
+      ? t.components.map((c, i) => coerceValue(c, value[i]))
+      : emptyValue(t);
+  }
+  if (t.isArray()) {
+    if (!Array.isArray(value) || (t.arrayLength > 0 && value.length !== t.arrayLength)) return emptyValue(t);
+    return value.map((v) => coerceValue(t.arrayChildren, v));
+  }
+  return typeof value === "string" ? value : emptyValue(t);
+}
+
+/* ----------------------------- Validation ----------------------------- */
+function parseInteger(text: string): bigint | null {
+  const s = text.trim().replace(/_/g, "");
+  if (!/^-?(0x[0-9a-fA-F]+|\d+)$/.test(s)) return null;
+  return s.startsWith("-") ? -BigInt(s.slice(1)) : BigInt(s);
+}
+
+const HEX_RE = /^0x([0-9a-fA-F]{2})*$/;
+
+/** Problem with a leaf value, or null when it encodes */
+export function leafError(type: string, text: string): string | null {
+  const value = text.trim();
+  if (type === "string") return null;
+  if (!value) return "Required";
+
+  if (type === "address") {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(value)) return "Not an address (0x + 40 hex characters)";
+    if (!isAddress(value)) return "Bad checksum: use all lowercase or the checksummed form";
+    return null;
+  }
+
+  const int = type.match(/^(u?)int(\d*)$/);
+  if (int) {
+    const n = parseInteger(value);
+    if (n === null) return "Must be a whole number (decimal or 0x hex)";
+    const bits = Number(int[2] || 256);
+    const [min, max] = int[1]
+      ? [BigInt(0), (BigInt(1) << BigInt(bits)) - BigInt(1)]
+      : [-(BigInt(1) << BigInt(bits - 1)), (BigInt(1) << BigInt(bits - 1)) - BigInt(1)];
+    if (n < min || n > max) return `Out of range for ${type} (${min} … ${max})`;
+    return null;
+  }
+
+  if (type === "bool") return /^(true|false|1|0)$/i.test(value) ? null : "Must be true or false";
+
+  const fixedBytes = type.match(/^bytes(\d+)$/);
+  if (fixedBytes) {
+    const size = Number(fixedBytes[1]);
+    if (!HEX_RE.test(value)) return "Must be 0x-prefixed hex";
+    return (value.length - 2) / 2 === size ? null : `Must be exactly ${size} bytes (${size * 2} hex characters)`;
+  }
+  if (type === "bytes") return HEX_RE.test(value) ? null : "Must be 0x-prefixed hex with an even length";
+
+  return null;
+}
+
+/** Every problem in a value tree, with paths like `orders[1].amount` */
+export function paramIssues(param: AbiParam | ParamType, value: ParamValue, path = ""): ParamIssue[] {
+  const t = paramType(param);
+  const here = path || t.name || "value";
+  if (t.isTuple()) {
+    if (!Array.isArray(value)) return [{ path: here, message: "Expected a tuple" }];
+    return t.components.flatMap((c, i) => paramIssues(c, value[i] ?? "", `${here}.${c.name || i}`));
+  }
+  if (t.isArray()) {
+    if (!Array.isArray(value)) return [{ path: here, message: "Expected an array" }];
+    return value.flatMap((v, i) => paramIssues(t.arrayChildren, v, `${here}[${i}]`));
+  }
+  const message = typeof value === "string" ? leafError(t.baseType, value) : "Expected a single value";
+  return message ? [{ path: here, message }] : [];
+}
+
+/* ----------------------------- Conversion ----------------------------- */
+/** ethers-ready value; throws AbiParamError on the first invalid leaf */
+export function toAbiValue(param: AbiParam | ParamType, value: ParamValue, path = ""): unknown {
+  const t = paramType(param);
+  const here = path || t.name || "value";
+  if (t.isTuple() || t.isArray()) {
+    const issue = paramIssues(t, value, here)[0];
+    if (issue) throw new AbiParamError(issue.path, issue.message);
+    const children = value as ParamValue[];
+    return t.isTuple()
+      ? t.components.map((c, i) => toAbiValue(c, children[i], `${here}.${c.name || i}`))
+      : children.map((v, i) => toAbiValue(t.arrayChildren, v, `${here}[${i}]`));
+  }
+
+  const text = (value as string).trim();
+  const message = leafError(t.baseType, text);
+  if (message) throw new AbiParamError(here, message);
+  if (t.baseType === "string") return value;
+  if (t.baseType === "bool") return /^(true|1)$/i.test(text);
+  if (/int/.test(t.baseType)) return parseInteger(text);
+  if (t.baseType === "address") return getAddress(text);
+  return text;
+}
+
+/** Value tree from pasted JSON: tuples as arrays or as objects keyed by component name */
+export function valueFromJson(param: AbiParam | ParamType, json: unknown, path = ""): ParamValue {
+  const t = paramType(param);
+  const here = path || t.name || "value";
+  if (t.isTuple()) {
+    if (Array.isArray(json)) {
+      if (json.length !== t.components.length) {
+        throw new AbiParamError(here, `Expected ${t.components.length} fields, got ${json.length}`);
+      }
+      return t.components.map((c, i) => valueFromJson(c, json[i], `${here}.${c.name || i}`));
+    }
+    if (json && typeof json === "object") {
+      return t.components.map((c, i) => {
+        const field = c.name && c.name in json ? (json as any)[c.name] : (json as any)[i];
+        if (field === undefined) throw new AbiParamError(`${here}.${c.name || i}`, "Missing field");
+        return valueFromJson(c, field, `${here}.${c.name || i}`);
+      });
+    }
+    throw new AbiParamError(here, "Expected an object or array");
+  }
+  if (t.isArray()) {
+    if (!Array.isArray(json)) throw new AbiParamError(here, "Expected an array");
+    if (t.arrayLength > 0 && json.length !== t.arrayLength) {
+      throw new AbiParamError(here, `Expected ${t.arrayLength} elements, got ${json.length}`);
+    }
+    return json.map((v, i) => valueFromJson(t.arrayChildren, v, `${here}[${i}]`));
+  }
+  if (typeof json === "string") return json;
+  // JSON.parse has already rounded integers past 2^53; refuse rather than encode a different value
+  if (typeof json === "number" && Number.isInteger(json) && !Number.isSafeInteger(json)) {
+    throw new AbiParamError(here, `${json} is too large for a JSON number; quote it as a string`);
+  }
+  if (typeof json === "number" || typeof json === "boolean" || typeof json === "bigint") return String(json);
+  throw new AbiParamError(here, `Expected a ${t.baseType}`);
+}
+
+/** Value tree from decoded ethers values (bigints, booleans, Result arrays) */
+export function valueFromAbi(param: AbiParam | ParamType, decoded: unknown): ParamValue {
+  const t = paramType(param);
+  if (t.isTuple()) return t.components.map((c, i) => valueFromAbi(c, (decoded as any[])[i]));
+  if (t.isArray()) return Array.from(decoded as any[]).map((v) => valueFromAbi(t.arrayChildren, v));
+  return String(decoded);
+}
+
+/** JSON form of a value tree (named tuples become objects), the inverse of valueFromJson */
+export function valueToJson(param: AbiParam | ParamType, value: ParamValue): unknown {
+  const t = paramType(param);
+  if (!Array.isArray(value)) return value;
+  if (t.isTuple()) {
+    const named = t.components.every((c) => c.name);
+    if (!named) return t.components.map((c, i) => valueToJson(c, value[i] ?? ""));
+    return Object.fromEntries(t.components.map((c, i) => [c.name, valueToJson(c, value[i] ?? "")]));
+  }
+  if (t.isArray()) return value.map((v) => valueToJson(t.arrayChildren, v));
+  return value;
+}
+
+/* ----------------------------- Units ----------------------------- */
+export const UNITS = [
+  { label: "wei", decimals: 0 },
+  { label: "gwei", decimals: 9 },
+  { label: "ether", decimals: 18 },
+] as const;
+
+/** Integer text for a decimal amount in a unit (`1.5` ether → `1500000000000000000`); null when it doesn't fit */
+export function amountToInteger(amount: string, decimals: number): string | null {
+  try {
+    return parseUnits(amount.trim(), decimals).toString();
+  } catch {
+    return null;
+  }
+}
+
+/* ----------------------------- Encoding ----------------------------- */
+/** Calldata for a function and its input values; throws AbiParamError on the first invalid leaf */
+export function encodeFunctionInputs(fn: { name: string; inputs: AbiParam[] }, values: ParamValue[]): string {
+  const fragment = FunctionFragment.from({ type: "function", name: fn.name, inputs: fn.inputs, outputs: [] });
+  const args = fragment.inputs.map((input, i) => toAbiValue(input, values[i] ?? emptyValue(input), input.name || `param${i}`));
+  return new Interface([fragment]).encodeFunctionData(fragment, args);
+}
+
+export const functionParamsIssues = (inputs: AbiParam[], values: ParamValue[]): ParamIssue[] =>
+  inputs.flatMap((input, i) => paramIssues(input, values[i] ?? emptyValue(input), input.name || `param${i}`));
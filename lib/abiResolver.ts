@@ -0,0 +1,211 @@
+// ABI resolver: tries an ordered list of providers (local artifacts, Sourcify, Etherscan, pasted ABIs)
+// and caches the first hit per chain and address, remembering where it came from.
+
+import { Interface, InterfaceAbi, isAddress } from "ethers";
+import { ChainConfig, getSelectedChain } from "@/lib/chains";
+import { ContractABI, EtherscanFunction, fetchEtherscanAbi } from "@/lib/etherscan";
+
+/* ----------------------------- Types ----------------------------- */
+export type AbiSource = "local" | "sourcify" | "etherscan" | "manual";
+
+export const ABI_SOURCE_LABEL: Record<AbiSource, string> = {
+  local: "local artifacts",
+  sourcify: "Sourcify",
+  etherscan: "Etherscan",
+  manual: "pasted ABI",
+};
+
+export type ResolvedAbi = {
+  address: string;        // lowercase
+  chainId: number;
+  abi: any[];
+  source: AbiSource;
+  name?: string;          // contract name, when the provider knows it
+  detail?: string;        // e.g. the local file it was read from
+};
+
+export type ProviderResult = Pick<ResolvedAbi, "abi" | "name" | "detail">;
+
+export interface AbiProvider {
+  source: AbiSource;
+  /** null when this provider has no ABI for the address; throws only on unexpected failures */
+  resolve(address: string, chain: ChainConfig, signal?: AbortSignal): Promise<ProviderResult | null>;
+}
+
+export class InvalidAbiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidAbiError";
+  }
+}
+
+/** ABI array out of a bare ABI, a Foundry/Hardhat artifact ({abi}) or Sourcify metadata ({output: {abi}}) */
+export function extractAbi(json: unknown): any[] | null {
+  const value: any = typeof json === "string" ? safeParse(json) : json;
+  const abi = Array.isArray(value) ? value : value?.abi ?? value?.output?.abi;
+  if (!Array.isArray(abi) || !abi.every((item) => typeof item?.type === "string")) return null;
+  try {
+    new Interface(abi as InterfaceAbi);
+    return abi;
+  } catch {
+    return null;
+  }
+}
+
+function safeParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/* ----------------------------- Providers ----------------------------- */
+/** ABI folder and Foundry/Hardhat projects on the Next.js server (app/api/abi/local) */
+export const localProvider: AbiProvider = {
+  source: "local",
+  async resolve(address, chain, signal) {
+    const res = await fetch(`/api/abi/local/${address}?chainId=${chain.id}`, { signal });
+    if (!res.ok) return null;
+    const data = await res.json();
+    const abi = extractAbi(data);
+    return abi ? { abi, name: data.name, detail: data.file } : null;
+  },
+};
+
+const SOURCIFY_URL = "https://sourcify.dev/server";
+
+export const sourcifyProvider: AbiProvider = {
+  source: "sourcify",
+  async resolve(address, chain, signal) {
+    const res = await fetch(`${SOURCIFY_URL}/v2/contract/${chain.id}/${address}?fields=abi,compilation`, { signal });
+    if (!res.ok) return null;
+    const data = await res.json();
+    const abi = extractAbi(data);
+    return abi ? { abi, name: data.compilation?.name, detail: data.match ?? undefined } : null;
+  },
+};
+
+export const etherscanProvider: AbiProvider = {
+  source: "etherscan",
+  async resolve(address, chain, signal) {
+    const hit = await fetchEtherscanAbi(address, chain, signal);
+    if (!hit) return null;
+    const detail = hit.implementation && `proxy → ${hit.implementation.address}`;
+    return { abi: hit.abi, name: hit.name, detail };
+  },
+};
+
+export const manualProvider: AbiProvider = {
+  source: "manual",
+  async resolve(address, chain) {
+    const entry = loadManualAbis()[abiKey(address, chain.id)];
+    return entry ? { abi: entry.abi, name: entry.name } : null;
+  },
+};
+
+/** First match wins; pasted ABIs are the last resort for contracts nobody has published */
+export const DEFAULT_PROVIDERS: AbiProvider[] = [localProvider, sourcifyProvider, etherscanProvider, manualProvider];
+
+/* ----------------------------- Pasted ABIs ----------------------------- */
+const MANUAL_STORAGE_KEY = "illusio.abis";
+
+type ManualAbi = { abi: any[]; name?: string; savedAt: number };
+
+const abiKey = (address: string, chainId: number) => `${chainId}:${address.toLowerCase()}`;
+
+function loadManualAbis(): Record<string, ManualAbi> {
+  if (typeof localStorage === "undefined") return {};
+  try {
+    return JSON.parse(localStorage.getItem(MANUAL_STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+/** Store a pasted ABI (JSON array or artifact) for one address; throws InvalidAbiError when it doesn't parse */
+export function saveManualAbi(address: string, chain: ChainConfig, text: string, name?: string): ResolvedAbi {
+  if (!isAddress(address)) throw new InvalidAbiError(`Not a contract address: ${address}`);
+  const abi = extractAbi(text);
+  if (!abi) throw new InvalidAbiError("Not a valid ABI: paste a JSON array or an artifact with an `abi` field");
+  const all = loadManualAbis();
+  all[abiKey(address, chain.id)] = { abi, name: name?.trim() || undefined, savedAt: Date.now() };
+  localStorage.setItem(MANUAL_STORAGE_KEY, JSON.stringify(all));
+  forgetAbi(address, chain);
+  return { address: address.toLowerCase(), chainId: chain.id, abi, source: "manual", name: name?.trim() || undefined };
+}
+
+export function deleteManualAbi(address: string, chain: ChainConfig) {
+  const all = loadManualAbis();
+  delete all[abiKey(address, chain.id)];
+  localStorage.setItem(MANUAL_STORAGE_KEY, JSON.stringify(all));
+  forgetAbi(address, chain);
+}
+
+/* ----------------------------- Resolution ----------------------------- */
+// misses are not cached: the contract may get verified, or a provider may have been briefly down
+const cache = new Map<string, ResolvedAbi>();
+const inFlight = new Map<string, Promise<ResolvedAbi | null>>();
+
+/** Drop a cached result so the next resolveAbi asks the providers again */
+export const forgetAbi = (address: string, chain: ChainConfig) => cache.delete(abiKey(address, chain.id));
+
+export async function resolveAbi(
+  address: string,
+  opts: { chain?: ChainConfig; providers?: AbiProvider[]; signal?: AbortSignal } = {}
+): Promise<ResolvedAbi | null> {
+  const { chain = getSelectedChain(), providers = DEFAULT_PROVIDERS, signal } = opts;
+  const addr = address.trim().toLowerCase();
+  if (!/^0x[0-9a-f]{40}$/.test(addr)) return null;
+
+  const key = abiKey(addr, chain.id);
+  const cached = cache.get(key);
+  if (cached) return cached;
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const run = (async () => {
+    for (const provider of providers) {
+      try {
+        const hit = await provider.resolve(addr, chain, signal);
+        if (hit) return { address: addr, chainId: chain.id, source: provider.source, ...hit };
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        console.warn(`ABI provider ${provider.source} failed for ${addr}:`, e);
+      }
+    }
+    return null;
+  })();
+
+  inFlight.set(key, run);
+  try {
+    const result = await run;
+    if (result) cache.set(key, result);
+    return result;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+/* ----------------------------- Function picker ----------------------------- */
+export type ResolvedContractABI = ContractABI & Pick<ResolvedAbi, "source" | "name" | "detail">;
+
+/** Resolved ABI split into functions / events / errors for the simulators' function pickers */
+export function toContractABI(resolved: ResolvedAbi): ResolvedContractABI {
+  return {
+    functions: resolved.abi.filter((item) => item?.type === "function") as EtherscanFunction[],
+    events: resolved.abi.filter((item) => item?.type === "event"),
+    errors: resolved.abi.filter((item) => item?.type === "error"),
+    source: resolved.source,
+    name: resolved.name,
+    detail: resolved.detail,
+  };
+}
+
+export async function resolveContractABI(
+  address: string,
+  chain: ChainConfig = getSelectedChain()
+): Promise<ResolvedContractABI | null> {
+  const resolved = await resolveAbi(address, { chain });
+  return resolved && toContractABI(resolved);
+}
@@ -0,0 +1,288 @@
+// Simulation assertions: expectations attached to saved scenarios, checked against a run's result
+
+import {
+  BundleSimulationResult,
+  SimulationResult,
+  decodeSimulationTrace,
+  hexToBigInt,
+  rootFrame,
+} from "@/lib/simulation";
+import { decodeSimulationEvents } from "@/lib/eventDecoder";
+import { decodeStorageChanges } from "@/lib/storageLayout";
+import { NATIVE_TOKEN_ADDRESS, computeBalanceChanges } from "@/lib/tokens";
+
+/* ----------------------------- Types ----------------------------- */
+/**
+ * `tx` selects one transaction of a bundle (0-based). Without it an assertion covers the whole
+ * run: every tx succeeds / some tx reverts, the event comes from any tx, and balance, storage
+ * and gas figures are summed over all txs. Amounts are integers in raw units (decimal or 0x hex).
+ */
+export type Assertion =
+  | { type: "status"; expect: "success" | "revert"; error?: string; tx?: number }
+  | { type: "event"; name: string; address?: string; args?: Record<string, string>; tx?: number }
+  | { type: "balance"; holder: string; token?: string; tokenId?: string; delta: string; tx?: number }
+  | { type: "storage"; address: string; slot: string; delta?: string; equals?: string; tx?: number }
+  | { type: "gas"; max: string; tx?: number };
+
+export type AssertionType = Assertion["type"];
+
+export type AssertionResult = {
+  assertion: Assertion;
+  pass: boolean;
+  message: string;            // what was observed
+};
+
+export class InvalidAssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidAssertionError";
+  }
+}
+
+/* ----------------------------- Helpers ----------------------------- */
+const lower = (s?: string) => (s ?? "").toLowerCase();
+
+/** Signed decimal or 0x hex integer; throws InvalidAssertionError on anything else */
+export function parseAmount(text: string, what = "amount"): bigint {
+  const s = text.trim().replace(/_/g, "");
+  const negative = s.startsWith("-");
+  const body = negative ? s.slice(1) : s;
+  if (!/^(0x[0-9a-fA-F]+|\d+)$/.test(body)) throw new InvalidAssertionError(`Invalid ${what}: ${text}`);
+  const value = BigInt(body);
+  return negative ? -value : value;
+}
+
+const tryAmount = (v: unknown): bigint | null => {
+  try {
+    return parseAmount(String(v));
+  } catch {
+    return null;
+  }
+};
+
+/** Loose value equality for event args and storage values: numbers numerically, the rest case-insensitively */
+function sameValue(actual: unknown, expected: string): boolean {
+  const a = tryAmount(actual);
+  const e = tryAmount(expected);
+  if (a !== null && e !== null) return a === e;
+  return lower(typeof actual === "string" ? actual : JSON.stringify(actual)) === lower(expected.trim());
+}
+
+const sameSlot = (a: string, b: string) => {
+  const x = tryAmount(a);
+  const y = tryAmount(b);
+  return x !== null && y !== null ? x === y : lower(a) === lower(b);
+};
+
+const txLabel = (tx?: number) => (tx === undefined ? "" : ` in tx ${tx + 1}`);
+
+export function describeAssertion(a: Assertion): string {
+  switch (a.type) {
+    case "status":
+      return a.expect === "success"
+        ? `succeeds${txLabel(a.tx)}`
+        : `reverts${a.error ? ` with ${a.error}` : ""}${txLabel(a.tx)}`;
+    case "event": {
+      const args = Object.entries(a.args ?? {}).map(([k, v]) => `${k}=${v}`).join(", ");
+      return `emits ${a.name}${args ? `(${args})` : ""}${a.address ? ` from ${a.address}` : ""}${txLabel(a.tx)}`;
+    }
+    case "balance":
+      return `balance of ${a.holder} in ${a.token || "native"}${a.tokenId ? ` #${a.tokenId}` : ""} changes by ${a.delta}${txLabel(a.tx)}`;
+    case "storage":
+      return `${a.address} ${a.slot} ${a.equals !== undefined ? `ends as ${a.equals}` : `changes by ${a.delta}`}${txLabel(a.tx)}`;
+    case "gas":
+      return `gas used ≤ ${a.max}${txLabel(a.tx)}`;
+  }
+}
+
+/* ----------------------------- Checks ----------------------------- */
+type Run = { index: number; result: SimulationResult };
+
+async function checkStatus(a: Extract<Assertion, { type: "status" }>, runs: Run[]): Promise<AssertionResult> {
+  const outcomes = await Promise.all(
+    runs.map(async ({ index, result }) => {
+      const root = rootFrame(result);
+      if (!root?.error) return { index, reverted: false, reason: "" };
+      // same revert decoding as the call trace (ABI errors, then the signature database)
+      const tree = await decodeSimulationTrace(result).catch(() => null);
+      const decoded = tree?.revertDecoded;
+      const reason = [decoded?.name, decoded?.signature, decoded?.message, root.revertReason, root.error].filter(Boolean).join(" | ");
+      return { index, reverted: true, reason };
+    })
+  );
+
+  const reverted = outcomes.filter((o) => o.reverted);
+  if (a.expect === "success") {
+    return {
+      assertion: a,
+      pass: reverted.length === 0,
+      message: reverted.length ? `tx ${reverted[0].index + 1} reverted: ${reverted[0].reason}` : "succeeded",
+    };
+  }
+
+  if (!reverted.length) return { assertion: a, pass: false, message: "did not revert" };
+  const match = a.error ? reverted.find((o) => lower(o.reason).includes(lower(a.error))) : reverted[0];
+  return {
+    assertion: a,
+    pass: !!match,
+    message: `reverted: ${(match ?? reverted[0]).reason}`,
+  };
+}
+
+function checkEvent(a: Extract<Assertion, { type: "event" }>, runs: Run[]): AssertionResult {
+  const expectedArgs = Object.entries(a.args ?? {});
+  const seen: string[] = [];
+
+  for (const { result } of runs) {
+    for (const { decoded } of decodeSimulationEvents(result.transaction.events, result.contracts)) {
+      if (a.address && lower(decoded.address) !== lower(a.address)) continue;
+      if (decoded.name !== a.name && decoded.signature !== a.name) continue;
+      seen.push(decoded.name);
+
+      const argsMatch = expectedArgs.every(([key, expected]) => {
+        const idx = /^\d+$/.test(key) ? Number(key) : decoded.argNames.indexOf(key);
+        return idx >= 0 && idx < decoded.argValues.length && sameValue(decoded.argValues[idx], expected);
+      });
+      if (argsMatch) return { assertion: a, pass: true, message: `emitted by ${decoded.address}` };
+    }
+  }
+
+  return {
+    assertion: a,
+    pass: false,
+    message: seen.length ? `${seen.length} ${a.name} event(s), none with matching args` : `no ${a.name} event`,
+  };
+}
+
+function checkBalance(a: Extract<Assertion, { type: "balance" }>, runs: Run[]): AssertionResult {
+  const token = lower(a.token && a.token !== "native" ? a.token : NATIVE_TOKEN_ADDRESS);
+  const tokenId = a.tokenId !== undefined ? parseAmount(a.tokenId, "token id") : undefined;
+  let actual = BigInt(0);
+
+  for (const { result } of runs) {
+    for (const c of computeBalanceChanges(result)) {
+      if (lower(c.holder) !== lower(a.holder) || lower(c.token) !== token) continue;
+      if (tokenId !== undefined && c.tokenId !== tokenId) continue;
+      actual += c.delta;
+    }
+  }
+
+  const expected = parseAmount(a.delta, "delta");
+  return { assertion: a, pass: actual === expected, message: `changed by ${actual.toString()}` };
+}
+
+function checkStorage(a: Extract<Assertion, { type: "storage" }>, runs: Run[]): AssertionResult {
+  let delta = BigInt(0);
+  let last: string | undefined;
+  let touched = false;
+
+  for (const { result } of runs) {
+    const diffs = Object.entries(result.transaction.storageDiff).find(([addr]) => lower(addr) === lower(a.address))?.[1];
+    if (!diffs) continue;
+
+    // a raw slot, or a state variable label as shown in the Storage State tab
+    const raw = Object.entries(diffs).find(([slot]) => sameSlot(slot, a.slot));
+    if (raw) {
+      touched = true;
+      delta += hexToBigInt(raw[1].to) - hexToBigInt(raw[1].from);
+      last = raw[1].to;
+      continue;
+    }
+    for (const slot of decodeStorageChanges(result, a.address).slots) {
+      const v = slot.variables.find((x) => lower(x.label) === lower(a.slot));
+      if (!v) continue;
+      touched = true;
+      const before = tryAmount(v.before);
+      const after = tryAmount(v.after);
+      if (before !== null && after !== null) delta += after - before;
+      last = v.after;
+    }
+  }
+
+  if (!touched) return { assertion: a, pass: false, message: "not written" };
+  if (a.equals !== undefined) {
+    return { assertion: a, pass: sameValue(last, a.equals), message: `ends as ${last}` };
+  }
+  const expected = parseAmount(a.delta ?? "0", "delta");
+  return { assertion: a, pass: delta === expected, message: `changed by ${delta.toString()}` };
+}
+
+function checkGas(a: Extract<Assertion, { type: "gas" }>, runs: Run[]): AssertionResult {
+  const used = runs.reduce((sum, { result }) => sum + hexToBigInt(rootFrame(result)?.gasUsed), BigInt(0));
+  const max = parseAmount(a.max, "gas limit");
+  return { assertion: a, pass: used <= max, message: `used ${used.toLocaleString()} gas` };
+}
+
+/* ----------------------------- Evaluation ----------------------------- */
+export async function evaluateAssertion(
+  a: Assertion,
+  response: SimulationResult | BundleSimulationResult
+): Promise<AssertionResult> {
+  const results = "results" in response ? response.results : [response];
+  let runs: Run[] = results.map((result, index) => ({ index, result }));
+  if (a.tx !== undefined) {
+    runs = runs.filter((r) => r.index === a.tx);
+    if (!runs.length) return { assertion: a, pass: false, message: `no tx ${a.tx + 1} (run has ${results.length})` };
+  }
+
+  try {
+    switch (a.type) {
+      case "status":
+        return await checkStatus(a, runs);
+      case "event":
+        return checkEvent(a, runs);
+      case "balance":
+        return checkBalance(a, runs);
+      case "storage":
+        return checkStorage(a, runs);
+      case "gas":
+        return checkGas(a, runs);
+    }
+  } catch (e: any) {
+    return { assertion: a, pass: false, message: e?.message || String(e) };
+  }
+}
+
+export const evaluateAssertions = (assertions: Assertion[], response: SimulationResult | BundleSimulationResult) =>
+  Promise.all(assertions.map((a) => evaluateAssertion(a, response)));
+
+/* ----------------------------- Normalizer ----------------------------- */
+const optString = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined);
+
+/** Validate a stored / imported assertion; throws InvalidAssertionError */
+export function normalizeAssertion(v: any): Assertion {
+  if (!v || typeof v !== "object") throw new InvalidAssertionError("Assertion must be an object");
+  if (v.tx != null && !(Number.isInteger(v.tx) && v.tx >= 0)) throw new InvalidAssertionError(`Invalid tx index: ${String(v.tx)}`);
+  const tx = v.tx ?? undefined;
+  const need = (field: string) => {
+    const s = optString(v[field]);
+    if (!s) throw new InvalidAssertionError(`${v.type} assertion needs "${field}"`);
+    return s;
+  };
+
+  switch (v.type) {
+    case "status":
+      if (v.expect !== "success" && v.expect !== "revert") throw new InvalidAssertionError(`status assertion expects "success" or "revert"`);
+      return { type: "status", expect: v.expect, error: optString(v.error), tx };
+    case "event": {
+      const args: Record<string, string> = {};
+      for (const [k, val] of Object.entries(v.args ?? {})) if (val !== undefined && val !== "") args[k] = String(val);
+      return { type: "event", name: need("name"), address: optString(v.address), args, tx };
+    }
+    case "balance":
+      parseAmount(need("delta"), "delta");
+      return { type: "balance", holder: need("holder"), token: optString(v.token), tokenId: optString(v.tokenId), delta: need("delta"), tx };
+    case "storage": {
+      const equals = optString(v.equals);
+      const delta = optString(v.delta);
+      if (equals === undefined && delta === undefined) throw new InvalidAssertionError(`storage assertion needs "delta" or "equals"`);
+      if (delta !== undefined) parseAmount(delta, "delta");
+      return { type: "storage", address: need("address"), slot: need("slot"), delta, equals, tx };
+    }
+    case "gas":
+      parseAmount(need("max"), "gas limit");
+      return { type: "gas", max: need("max"), tx };
+    default:
+      throw new InvalidAssertionError(`Unknown assertion type: ${String(v.type)}`);
+  }
+}
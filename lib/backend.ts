@@ -0,0 +1,346 @@
+// Backend client for /api/simulate, /api/simulate/debug, /api/bundle/simulate and /api/trace/tx
+
+import {
+  SimulationResult,
+  BundleSimulationResult,
+  DebugTrace,
+  AccessListEntry,
+  parseSimulationResult,
+  parseBundleSimulationResult,
+  parseDebugTrace,
+} from "@/lib/simulation";
+import {
+  resolveBackendMode,
+  createFixtureBackendClient,
+  createRecordingBackendClient,
+} from "@/lib/fixtures";
+import { ChainConfig, getSelectedChain } from "@/lib/chains";
+
+/* ----------------------------- Hex helpers ----------------------------- */
+export const ensure0x = (v?: string) =>
+  v && (v.startsWith("0x") || v.startsWith("0X")) ? v : `0x${v ?? "0"}`;
+
+/** Decimal or hex user input → 0x hex quantity ("" → 0x0) */
+export const toHex = (value?: string): string => {
+  const s = (value || "").trim();
+  if (!s) return "0x0";
+  if (s.startsWith("0x") || s.startsWith("0X")) return s;
+  try {
+    const bi = BigInt(s);
+    return "0x" + bi.toString(16);
+  } catch {
+    const n = Number(s);
+    if (!Number.isFinite(n)) return "0x0";
+    return "0x" + Math.trunc(n).toString(16);
+  }
+};
+
+/* ----------------------------- Request types ----------------------------- */
+export type StateObjects = Record<
+  string,
+  { balance?: string; stateDiff?: Record<string, string> }
+>;
+
+export interface SimulateRequest {
+  from: string;
+  to: string;
+  input: string;
+  value: string;
+  gas: string;
+  gasPrice: string;
+  generateAccessList: boolean;
+  blockNumber: string; // 0x hex or "latest"
+  stateObjects: StateObjects;
+  accessList?: AccessListEntry[];
+}
+
+export interface BundleTx {
+  from: string;
+  to: string;
+  input: string;
+  value: string;
+  gas: string;
+  gasPrice: string;
+  accessList?: AccessListEntry[];
+}
+
+export interface BundleSimulateRequest {
+  mode: "atomic" | "parallel";
+  transactions: BundleTx[];
+  stateObjects: StateObjects;
+  generateAccessList: boolean;
+  blockNumber: string;
+}
+
+/* ----------------------------- Request builders ----------------------------- */
+export const parseStateOverrides = (sp: URLSearchParams): StateObjects => {
+  const raw = sp.get("stateOverrides");
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as StateObjects;
+
+    const normalized: StateObjects = {};
+    for (const [addr, obj] of Object.entries(parsed)) {
+      normalized[addr] = {
+        balance: obj.balance ? toHex(obj.balance) : undefined,
+        stateDiff: obj.stateDiff
+          ? Object.fromEntries(
+              Object.entries(obj.stateDiff).map(([k, v]) => [
+                ensure0x(k),
+                toHex(v),
+              ])
+            )
+          : undefined,
+      };
+    }
+    return normalized;
+  } catch {
+    return {};
+  }
+};
+
+export const parseBundleTransactions = (sp: URLSearchParams): BundleTx[] => {
+  const raw = sp.get("transactions");
+  if (!raw) return [];
+  try {
+    const arr = JSON.parse(raw) as any[];
+    return (arr || []).map((t) => ({
+      from: t.from || "",
+      to: t.to || "",
+      input: t.input ? ensure0x(t.input) : "0x",
+      value: toHex(t.value || "0"),
+      gas: toHex(t.gas || "0"),
+      gasPrice: toHex(t.gasPrice || "0"),
+      accessList: Array.isArray(t.accessList)
+        ? t.accessList.map((al: any) => ({
+            address: al.address || "",
+            storageKeys: Array.isArray(al.storageKeys)
+              ? al.storageKeys.map((k: string) => ensure0x(k))
+              : [],
+          }))
+        : [],
+    }));
+  } catch {
+    return [];
+  }
+};
+
+/** Body for /api/simulate from the simulator's query string (see serializeToQuery) */
+export function buildSimulateRequest(sp: URLSearchParams): SimulateRequest {
+  let accessList: AccessListEntry[] | undefined = undefined;
+  try {
+    accessList = sp.get("accessList")
+      ? JSON.parse(sp.get("accessList")!)
+      : undefined;
+  } catch {
+    accessList = undefined;
+  }
+
+  return {
+    from: sp.get("from") || "",
+    to: sp.get("to") || "",
+    input: sp.get("input") || "0x",
+    value: toHex(sp.get("value") || "0"),
+    gas: toHex(sp.get("gas") || "0"),
+    gasPrice: toHex(sp.get("gasPrice") || "0"),
+    generateAccessList: true,
+    blockNumber: sp.get("block") ? toHex(sp.get("block")!) : "latest",
+    stateObjects: parseStateOverrides(sp),
+    accessList,
+  };
+}
+
+/** Body for /api/bundle/simulate from the advance simulator's query string (see serializeBundleToQuery) */
+export function buildBundleSimulateRequest(sp: URLSearchParams): BundleSimulateRequest {
+  return {
+    mode: sp.get("atomic") === "false" ? "parallel" : "atomic",
+    transactions: parseBundleTransactions(sp),
+    stateObjects: parseStateOverrides(sp),
+    generateAccessList: true,
+    blockNumber: sp.get("block") ? toHex(sp.get("block")!) : "latest",
+  };
+}
+
+/* ----------------------------- Errors ----------------------------- */
+export type BackendErrorCode =
+  | "HTTP_ERROR"
+  | "TIMEOUT"
+  | "ABORTED"
+  | "NETWORK_ERROR"
+  | "NOT_CONFIGURED";
+
+export class BackendError extends Error {
+  constructor(
+    public readonly code: BackendErrorCode,
+    message: string,
+    public readonly status?: number,
+    public readonly revertData?: string // raw revert bytes when the backend reports an execution error
+  ) {
+    super(message);
+    this.name = "BackendError";
+  }
+
+  get retryable(): boolean {
+    return this.code === "NETWORK_ERROR" || (this.code === "HTTP_ERROR" && (this.status ?? 0) >= 500);
+  }
+}
+
+export const isAbortError = (e: unknown) =>
+  e instanceof BackendError && e.code === "ABORTED";
+
+async function errorFromResponse(res: Response): Promise<BackendError> {
+  let errorMsg = `HTTP ${res.status}`;
+  let revertData: string | undefined;
+  try {
+    const errorBody = await res.json();
+    if (errorBody?.error?.message) {
+      errorMsg += ` - ${errorBody.error.message}`;
+    }
+    if (typeof errorBody?.error?.data === "string") {
+      revertData = errorBody.error.data;
+    }
+  } catch (_) {
+    // ignore if not JSON
+  }
+  return new BackendError("HTTP_ERROR", errorMsg, res.status, revertData);
+}
+
+/* ----------------------------- Client ----------------------------- */
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface BackendClient {
+  simulate(body: SimulateRequest, opts?: RequestOptions): Promise<SimulationResult>;
+  simulateBundle(body: BundleSimulateRequest, opts?: RequestOptions): Promise<BundleSimulationResult>;
+  traceTransaction(txHash: string, opts?: RequestOptions): Promise<SimulationResult>;
+  /** Opcode-level struct logs for the same request as simulate() */
+  debugTrace(body: SimulateRequest, opts?: RequestOptions): Promise<DebugTrace>;
+}
+
+export interface HttpBackendClientConfig {
+  baseUrl?: string;       // defaults to the chain's backend
+  chain?: ChainConfig;    // defaults to the selected chain
+  timeoutMs?: number;     // per attempt
+  retries?: number;       // extra attempts on 5xx / network errors
+  backoffMs?: number;     // first retry delay, doubled each attempt
+  fetch?: typeof fetch;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new BackendError("ABORTED", "Request aborted"));
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(t);
+      reject(new BackendError("ABORTED", "Request aborted"));
+    }, { once: true });
+  });
+
+export function createHttpBackendClient(config: HttpBackendClientConfig = {}): BackendClient {
+  const {
+    chain = getSelectedChain(),
+    baseUrl = chain.backendUrl,
+    timeoutMs = 60_000,
+    retries = 2,
+    backoffMs = 500,
+    fetch: fetchImpl = (...args) => fetch(...args),
+  } = config;
+
+  const attempt = async (path: string, init: RequestInit, signal?: AbortSignal): Promise<unknown> => {
+    const ctrl = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      ctrl.abort();
+    }, timeoutMs);
+    const onAbort = () => ctrl.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      const res = await fetchImpl(`${baseUrl}${path}`, { ...init, signal: ctrl.signal });
+      if (!res.ok) throw await errorFromResponse(res);
+      return await res.json();
+    } catch (e: any) {
+      if (e instanceof BackendError) throw e;
+      if (timedOut) throw new BackendError("TIMEOUT", `Request timed out after ${timeoutMs} ms`);
+      if (signal?.aborted) throw new BackendError("ABORTED", "Request aborted");
+      throw new BackendError("NETWORK_ERROR", e?.message || "Network error");
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  };
+
+  const request = async (path: string, init: RequestInit, signal?: AbortSignal): Promise<unknown> => {
+    if (!baseUrl) {
+      throw new BackendError(
+        "NOT_CONFIGURED",
+        `Backend URL for ${chain.name} not configured. Please add ${chain.backendEnv} to your .env file`
+      );
+    }
+    for (let i = 0; ; i++) {
+      try {
+        return await attempt(path, init, signal);
+      } catch (e) {
+        if (!(e instanceof BackendError) || !e.retryable || i >= retries) throw e;
+        await sleep(backoffMs * 2 ** i, signal);
+      }
+    }
+  };
+
+  const post = (path: string, body: unknown, signal?: AbortSignal) =>
+    request(
+      path,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      },
+      signal
+    );
+
+  return {
+    async simulate(body, opts) {
+      return parseSimulationResult(await post("/api/simulate", body, opts?.signal));
+    },
+    async simulateBundle(body, opts) {
+      return parseBundleSimulationResult(await post("/api/bundle/simulate", body, opts?.signal));
+    },
+    async traceTransaction(txHash, opts) {
+      const data = await request(
+        `/api/trace/tx?txHash=${encodeURIComponent(txHash)}`,
+        { method: "GET" },
+        opts?.signal
+      );
+      return parseSimulationResult(data);
+    },
+    async debugTrace(body, opts) {
+      return parseDebugTrace(await post("/api/simulate/debug", body, opts?.signal));
+    },
+  };
+}
+
+/* ----------------------------- Default instance ----------------------------- */
+let activeClient: BackendClient | null = null;
+
+/**
+ * Client used by the simulate / bundle / trace pages, chosen by the backend mode (see resolveBackendMode).
+ * Live requests go to the backend of `chain` (a link's `?chain=`, else the selected chain).
+ */
+export function getBackendClient(chain: ChainConfig = getSelectedChain()): BackendClient {
+  if (activeClient) return activeClient;
+  switch (resolveBackendMode()) {
+    case "fixtures":
+      return createFixtureBackendClient({ fallback: process.env.NEXT_PUBLIC_FIXTURE_FALLBACK === "1" });
+    case "record":
+      return createRecordingBackendClient(createHttpBackendClient({ chain }));
+    default:
+      return createHttpBackendClient({ chain });
+  }
+}
+
+/** Swap the client used app-wide (mock backends for tests and demos); pass null to restore the default */
+export function setBackendClient(client: BackendClient | null) {
+  activeClient = client;
+}
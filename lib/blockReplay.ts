@@ -0,0 +1,121 @@
+// Position in block: `?position=N` runs a simulation after the first N txs of block `?block=`.
+// Simulating at a block starts from the end of it, so earlier txs of that block would be ignored;
+// instead they are sent as hidden leading entries of a bundle on the state of block − 1, and their
+// results are dropped before anything is shown. This relies on bundles being ordered, each tx on the
+// state the previous ones left, as the bundle builder does; the bundle keeps the user's atomic setting.
+
+import {
+  BackendClient,
+  BundleSimulateRequest,
+  BundleTx,
+  RequestOptions,
+  SimulateRequest,
+  buildBundleSimulateRequest,
+  buildSimulateRequest,
+  toHex,
+} from "@/lib/backend";
+import { ChainConfig } from "@/lib/chains";
+import { BundleSimulationResult, SimulationResult } from "@/lib/simulation";
+import { MinedTx, TxForkError, fetchBlockTransactions } from "@/lib/txFork";
+
+export type BlockPosition = { block: number; position: number };
+
+export type ReplayOptions = RequestOptions & { chain?: ChainConfig };
+
+/** Null unless the query has both a block and a position in it */
+export function blockPositionFromQuery(sp: URLSearchParams): BlockPosition | null {
+  const block = sp.get("block")?.trim();
+  const position = sp.get("position")?.trim();
+  if (!block || !position || !/^\d+$/.test(position)) return null;
+  try {
+    return { block: Number(BigInt(block)), position: Number(position) };
+  } catch {
+    return null;
+  }
+}
+
+const toBundleTx = (t: MinedTx): BundleTx => ({
+  from: t.from,
+  to: t.to,
+  input: t.input,
+  value: toHex(t.value),
+  gas: toHex(t.gas),
+  gasPrice: toHex(t.gasPrice),
+  accessList: [],
+});
+
+/** The request with the block's first `position` txs in front, on the state of block − 1 */
+export async function withBlockPrefix(
+  request: BundleSimulateRequest,
+  at: BlockPosition,
+  opts: ReplayOptions = {}
+): Promise<BundleSimulateRequest> {
+  const prefix = at.position ? (await fetchBlockTransactions(at.block, opts)).slice(0, at.position) : [];
+  if (prefix.length < at.position) {
+    throw new TxForkError(`Block ${at.block} has only ${prefix.length} transactions, position ${at.position} is past its end`);
+  }
+  return {
+    ...request,
+    blockNumber: toHex(String(at.block - 1)),
+    transactions: [...prefix.map(toBundleTx), ...request.transactions],
+  };
+}
+
+async function simulatePrefixed(
+  request: BundleSimulateRequest,
+  at: BlockPosition,
+  client: BackendClient,
+  opts: ReplayOptions
+): Promise<{ request: BundleSimulateRequest; results: SimulationResult[] }> {
+  const prefixed = await withBlockPrefix(request, at, opts);
+  const { results } = await client.simulateBundle(prefixed, { signal: opts.signal });
+  if (results.length !== prefixed.transactions.length) {
+    throw new TxForkError(`Backend returned ${results.length} results for ${prefixed.transactions.length} transactions`);
+  }
+  // a replayed tx that reverts rolls an atomic bundle back, so the results after it mean nothing
+  const reverted =
+    request.mode === "atomic" ? results.slice(0, at.position).findIndex((r) => r.transaction.callTrace[0]?.error) : -1;
+  if (reverted >= 0) {
+    throw new TxForkError(
+      `Tx ${reverted} of block ${at.block} reverts when replayed, which reverts the whole atomic bundle; run it non-atomically or pick another position`
+    );
+  }
+  return { request: prefixed, results: results.slice(at.position) };
+}
+
+/* ----------------------------- Query runners ----------------------------- */
+/** Simulator query → result, through a prefixed bundle when it has a position in block */
+export async function runSimulateQuery(
+  sp: URLSearchParams,
+  client: BackendClient,
+  opts: ReplayOptions = {}
+): Promise<{ request: SimulateRequest | BundleSimulateRequest; result: SimulationResult }> {
+  const request = buildSimulateRequest(sp);
+  const at = blockPositionFromQuery(sp);
+  if (!at) return { request, result: await client.simulate(request, { signal: opts.signal }) };
+
+  const { from, to, input, value, gas, gasPrice, accessList, stateObjects, generateAccessList, blockNumber } = request;
+  const bundle: BundleSimulateRequest = {
+    mode: "atomic",
+    transactions: [{ from, to, input, value, gas, gasPrice, accessList }],
+    stateObjects,
+    generateAccessList,
+    blockNumber,
+  };
+  const prefixed = await simulatePrefixed(bundle, at, client, opts);
+  return { request: prefixed.request, result: prefixed.results[0] };
+}
+
+/** Advance simulator query → results of the user's txs only */
+export async function runBundleQuery(
+  sp: URLSearchParams,
+  client: BackendClient,
+  opts: ReplayOptions = {}
+): Promise<{ request: BundleSimulateRequest; result: BundleSimulationResult }> {
+  const request = buildBundleSimulateRequest(sp);
+  const at = blockPositionFromQuery(sp);
+  if (!at) return { request, result: await client.simulateBundle(request, { signal: opts.signal }) };
+
+  const prefixed = await simulatePrefixed(request, at, client, opts);
+  return { request: prefixed.request, result: { results: prefixed.results } };
+}
@@ -0,0 +1,150 @@
+// Calldata → function + parameter values, the inverse of the simulators' function form.
+// Selectors are matched against the target's ABI first, then the signature registry. `bytes`
+// parameters that carry calls of their own (multicall, Safe execTransaction, Universal Router
+// execute inputs) decode into nested, editable parameter lists.
+
+import { AbiCoder, FunctionFragment, Interface } from "ethers";
+import { AbiParam, ParamValue, encodeFunctionInputs, toAbiValue, valueFromAbi } from "@/lib/abiParams";
+import { guessFunction } from "@/lib/signatures";
+
+/* ----------------------------- Types ----------------------------- */
+export type FunctionLike = { name: string; inputs: AbiParam[] };
+
+export type DecodedCalldata = {
+  fn: FunctionLike;
+  values: ParamValue[];
+  source: "abi" | "signatures";
+};
+
+/** A `bytes` value that decodes into parameters of its own */
+export type NestedBytes = {
+  label: string;               // function signature, or the Universal Router command name
+  source: "abi" | "signatures" | "universal-router";
+  inputs: AbiParam[];
+  values: ParamValue[];
+  /** Bytes for edited values; throws AbiParamError while one is invalid */
+  encode(values: ParamValue[]): string;
+  /** Decoder for bytes nested one level further down */
+  nested(values: ParamValue[]): NestedDecoder;
+};
+
+/** `path` holds the indexes from the top-level input down to the bytes value (tuple field or array element) */
+export type NestedDecoder = (path: number[], value: string) => NestedBytes | null;
+
+const fragmentOf = (fn: FunctionLike) =>
+  FunctionFragment.from({ type: "function", name: fn.name, inputs: fn.inputs, outputs: [] });
+
+export const functionSignature = (fn: FunctionLike) => fragmentOf(fn).format("sighash");
+
+/* ----------------------------- Top-level decoding ----------------------------- */
+/** Function and values for calldata; null when no ABI function or registry signature decodes it */
+export function decodeCalldata(data: string, functions: FunctionLike[]): DecodedCalldata | null {
+  const hex = data.trim();
+  if (!/^0x[0-9a-fA-F]{8}([0-9a-fA-F]{2})*$/.test(hex)) return null;
+  const selector = hex.slice(0, 10).toLowerCase();
+
+  for (const fn of functions) {
+    try {
+      const fragment = fragmentOf(fn);
+      if (fragment.selector !== selector) continue;
+      const args = new Interface([fragment]).decodeFunctionData(fragment, hex);
+      return { fn, values: fn.inputs.map((input, i) => valueFromAbi(input, args[i])), source: "abi" };
+    } catch {
+      // not this overload
+    }
+  }
+
+  const guess = guessFunction(hex);
+  if (!guess) return null;
+  const fn: FunctionLike = JSON.parse(guess.fragment.format("json"));
+  return { fn, values: fn.inputs.map((input, i) => valueFromAbi(input, guess.args[i])), source: "signatures" };
+}
+
+/* ----------------------------- Universal Router ----------------------------- */
+// Uniswap Universal Router `execute(bytes commands, bytes[] inputs[, uint256 deadline])`: each input
+// is the ABI-encoded parameters of the command at the same index (low 6 bits; 0x80 = allow revert).
+
+const p = (type: string, name: string, components?: AbiParam[]): AbiParam => ({ type, name, components });
+
+const PERMIT_DETAILS = [p("address", "token"), p("uint160", "amount"), p("uint48", "expiration"), p("uint48", "nonce")];
+
+export const UNIVERSAL_ROUTER_COMMANDS: Record<number, { name: string; inputs: AbiParam[] }> = {
+  0x00: { name: "V3_SWAP_EXACT_IN", inputs: [p("address", "recipient"), p("uint256", "amountIn"), p("uint256", "amountOutMin"), p("bytes", "path"), p("bool", "payerIsUser")] },
+  0x01: { name: "V3_SWAP_EXACT_OUT", inputs: [p("address", "recipient"), p("uint256", "amountOut"), p("uint256", "amountInMax"), p("bytes", "path"), p("bool", "payerIsUser")] },
+  0x02: { name: "PERMIT2_TRANSFER_FROM", inputs: [p("address", "token"), p("address", "recipient"), p("uint160", "amount")] },
+  0x03: {
+    name: "PERMIT2_PERMIT_BATCH",
+    inputs: [
+      p("tuple", "permitBatch", [p("tuple[]", "details", PERMIT_DETAILS), p("address", "spender"), p("uint256", "sigDeadline")]),
+      p("bytes", "signature"),
+    ],
+  },
+  0x04: { name: "SWEEP", inputs: [p("address", "token"), p("address", "recipient"), p("uint256", "amountMin")] },
+  0x05: { name: "TRANSFER", inputs: [p("address", "token"), p("address", "recipient"), p("uint256", "value")] },
+  0x06: { name: "PAY_PORTION", inputs: [p("address", "token"), p("address", "recipient"), p("uint256", "bips")] },
+  0x08: { name: "V2_SWAP_EXACT_IN", inputs: [p("address", "recipient"), p("uint256", "amountIn"), p("uint256", "amountOutMin"), p("address[]", "path"), p("bool", "payerIsUser")] },
+  0x09: { name: "V2_SWAP_EXACT_OUT", inputs: [p("address", "recipient"), p("uint256", "amountOut"), p("uint256", "amountInMax"), p("address[]", "path"), p("bool", "payerIsUser")] },
+  0x0a: {
+    name: "PERMIT2_PERMIT",
+    inputs: [
+      p("tuple", "permitSingle", [p("tuple", "details", PERMIT_DETAILS), p("address", "spender"), p("uint256", "sigDeadline")]),
+      p("bytes", "signature"),
+    ],
+  },
+  0x0b: { name: "WRAP_ETH", inputs: [p("address", "recipient"), p("uint256", "amountMin")] },
+  0x0c: { name: "UNWRAP_WETH", inputs: [p("address", "recipient"), p("uint256", "amountMin")] },
+  0x0d: {
+    name: "PERMIT2_TRANSFER_FROM_BATCH",
+    inputs: [p("tuple[]", "batchDetails", [p("address", "from"), p("address", "to"), p("uint160", "amount"), p("address", "token")])],
+  },
+  0x0e: { name: "BALANCE_CHECK_ERC20", inputs: [p("address", "owner"), p("address", "token"), p("uint256", "minBalance")] },
+};
+
+const isUniversalRouterExecute = (fn: FunctionLike) =>
+  fn.name === "execute" && fn.inputs[0]?.type === "bytes" && fn.inputs[1]?.type === "bytes[]";
+
+function universalRouterInput(commands: ParamValue, index: number, value: string, functions: FunctionLike[]): NestedBytes | null {
+  if (typeof commands !== "string") return null;
+  const byte = parseInt(commands.slice(2 + index * 2, 4 + index * 2), 16);
+  const command = UNIVERSAL_ROUTER_COMMANDS[byte & 0x3f];
+  if (Number.isNaN(byte) || !command) return null;
+
+  const coder = AbiCoder.defaultAbiCoder();
+  const types = command.inputs.map((input) => FunctionFragment.from({ type: "function", name: "x", inputs: [input] }).inputs[0]);
+  try {
+    const decoded = coder.decode(types, value);
+    return {
+      label: `${command.name}${byte & 0x80 ? " (allow revert)" : ""}`,
+      source: "universal-router",
+      inputs: command.inputs,
+      values: command.inputs.map((input, i) => valueFromAbi(input, decoded[i])),
+      encode: (values) => coder.encode(types, types.map((t, i) => toAbiValue(t, values[i], command.inputs[i].name))),
+      nested: () => nestedDecoder(command, [], functions),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/* ----------------------------- Nested calls ----------------------------- */
+/**
+ * Decoder for `bytes` parameters of a decoded call: Universal Router inputs by their command,
+ * anything else that starts with a known selector (multicall items, Safe `data`) as a call.
+ */
+export function nestedDecoder(fn: FunctionLike, values: ParamValue[], functions: FunctionLike[]): NestedDecoder {
+  return (path, value) => {
+    if (isUniversalRouterExecute(fn) && path.length === 2 && path[0] === 1) {
+      return universalRouterInput(values[0], path[1], value, functions);
+    }
+    const decoded = decodeCalldata(value, functions);
+    if (!decoded) return null;
+    return {
+      label: functionSignature(decoded.fn),
+      source: decoded.source,
+      inputs: decoded.fn.inputs,
+      values: decoded.values,
+      encode: (next) => encodeFunctionInputs(decoded.fn, next),
+      nested: (next) => nestedDecoder(decoded.fn, next, functions),
+    };
+  };
+}
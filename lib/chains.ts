@@ -0,0 +1,131 @@
+// Chain registry: per-network RPC, explorer, native token and simulation backend.
+// The selected chain is remembered in the browser; links and saved scenarios carry it as `?chain=<id>`.
+
+/* ----------------------------- Types ----------------------------- */
+export type ChainConfig = {
+  id: number;
+  name: string;
+  shortName: string;
+  nativeSymbol: string;
+  nativeDecimals: number;
+  rpcUrl?: string;
+  explorerUrl: string;
+  explorerApiUrl: string;        // Etherscan-compatible API, queried with ?chainid=<id>
+  backendUrl?: string;
+  backendEnv: string;            // env var that configures backendUrl, for error messages
+  testnet?: boolean;
+};
+
+/* ----------------------------- Registry ----------------------------- */
+// Next.js only inlines NEXT_PUBLIC_* variables referenced literally, so every chain spells out its own.
+export const CHAINS: ChainConfig[] = [
+  {
+    id: 999,
+    name: "HyperEVM Mainnet",
+    shortName: "HyperEVM",
+    nativeSymbol: "HYPE",
+    nativeDecimals: 18,
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_URL || "https://rpc.hyperliquid.xyz/evm",
+    explorerUrl: "https://hyperevmscan.io",
+    explorerApiUrl: "https://api.etherscan.io/v2/api",
+    backendUrl: process.env.NEXT_PUBLIC_BACKEND_URL,
+    backendEnv: "NEXT_PUBLIC_BACKEND_URL",
+  },
+  {
+    id: 998,
+    name: "HyperEVM Testnet",
+    shortName: "HyperEVM Testnet",
+    nativeSymbol: "HYPE",
+    nativeDecimals: 18,
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_URL_998 || "https://rpc.hyperliquid-testnet.xyz/evm",
+    explorerUrl: "https://testnet.purrsec.com",
+    explorerApiUrl: "https://api.etherscan.io/v2/api",
+    backendUrl: process.env.NEXT_PUBLIC_BACKEND_URL_998,
+    backendEnv: "NEXT_PUBLIC_BACKEND_URL_998",
+    testnet: true,
+  },
+  {
+    id: 1,
+    name: "Ethereum Mainnet",
+    shortName: "Ethereum",
+    nativeSymbol: "ETH",
+    nativeDecimals: 18,
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_URL_1 || "https://ethereum-rpc.publicnode.com",
+    explorerUrl: "https://etherscan.io",
+    explorerApiUrl: "https://api.etherscan.io/v2/api",
+    backendUrl: process.env.NEXT_PUBLIC_BACKEND_URL_1,
+    backendEnv: "NEXT_PUBLIC_BACKEND_URL_1",
+  },
+  {
+    id: 42161,
+    name: "Arbitrum One",
+    shortName: "Arbitrum",
+    nativeSymbol: "ETH",
+    nativeDecimals: 18,
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_URL_42161 || "https://arb1.arbitrum.io/rpc",
+    explorerUrl: "https://arbiscan.io",
+    explorerApiUrl: "https://api.etherscan.io/v2/api",
+    backendUrl: process.env.NEXT_PUBLIC_BACKEND_URL_42161,
+    backendEnv: "NEXT_PUBLIC_BACKEND_URL_42161",
+  },
+  {
+    id: 8453,
+    name: "Base",
+    shortName: "Base",
+    nativeSymbol: "ETH",
+    nativeDecimals: 18,
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_URL_8453 || "https://mainnet.base.org",
+    explorerUrl: "https://basescan.org",
+    explorerApiUrl: "https://api.etherscan.io/v2/api",
+    backendUrl: process.env.NEXT_PUBLIC_BACKEND_URL_8453,
+    backendEnv: "NEXT_PUBLIC_BACKEND_URL_8453",
+  },
+];
+
+/** Links from before chain selection existed were all HyperEVM mainnet */
+export const DEFAULT_CHAIN_ID = 999;
+
+export const findChain = (id: number | string | null | undefined) =>
+  CHAINS.find((c) => c.id === Number(id));
+
+export const getChain = (id?: number | string | null): ChainConfig =>
+  findChain(id) ?? (findChain(DEFAULT_CHAIN_ID) as ChainConfig);
+
+/* ----------------------------- Links ----------------------------- */
+/** Chain of a simulation link; links without `chain` are HyperEVM mainnet */
+export function chainFromQuery(query: string | URLSearchParams): ChainConfig {
+  const sp = typeof query === "string" ? new URLSearchParams(query) : query;
+  return getChain(sp.get("chain"));
+}
+
+export function withChain(query: string, chainId: number): string {
+  const sp = new URLSearchParams(query);
+  sp.set("chain", String(chainId));
+  return sp.toString();
+}
+
+/** Etherscan-compatible API call for a chain */
+export function explorerApiUrl(chain: ChainConfig, params: Record<string, string>): string {
+  return `${chain.explorerApiUrl}?${new URLSearchParams({ chainid: String(chain.id), ...params }).toString()}`;
+}
+
+/* ----------------------------- Selection ----------------------------- */
+const STORAGE_KEY = "illusio.chain";
+const CHANGE_EVENT = "illusio:chain";
+
+export function getSelectedChain(): ChainConfig {
+  if (typeof localStorage === "undefined") return getChain(DEFAULT_CHAIN_ID);
+  return getChain(localStorage.getItem(STORAGE_KEY));
+}
+
+export function setSelectedChain(id: number) {
+  if (!findChain(id) || getSelectedChain().id === id) return;
+  localStorage.setItem(STORAGE_KEY, String(id));
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/** Subscribe to chain changes in this tab; returns the unsubscribe function */
+export function onSelectedChainChange(listener: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => window.removeEventListener(CHANGE_EVENT, listener);
+}
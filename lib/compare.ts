@@ -0,0 +1,242 @@
+// Side-by-side comparison of two simulations: aligned call trees, events, balances and storage writes
+
+import { SimulationResult, EventLog, hexToBigInt, decodeSimulationTrace } from "@/lib/simulation";
+import { BackendClient, RequestOptions, getBackendClient } from "@/lib/backend";
+import { runSimulateQuery } from "@/lib/blockReplay";
+import { computeBalanceChanges } from "@/lib/tokens";
+import { chainFromQuery } from "@/lib/chains";
+import { decodeStorageChanges } from "@/lib/storageLayout";
+import type { DecodedNode } from "@/utils/decodeCallTrace";
+
+/* ----------------------------- Sources ----------------------------- */
+/** What one side of a comparison runs: a simulator query string or a mined transaction */
+export type SimulationSource =
+  | { kind: "query"; query: string }
+  | { kind: "tx"; hash: string };
+
+const TX_HASH_RE = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Accepts a tx hash, a transactions page URL, a simulator (view) URL or a bare
+ * `serializeToQuery` string. Throws on anything else.
+ */
+export function parseSimulationSource(input: string): SimulationSource {
+  const text = input.trim();
+  if (TX_HASH_RE.test(text)) return { kind: "tx", hash: text };
+
+  const txPath = text.match(/\/transactions\/(0x[0-9a-fA-F]{64})/);
+  if (txPath) return { kind: "tx", hash: txPath[1] };
+
+  const q = text.includes("?") ? text.slice(text.indexOf("?") + 1) : text;
+  const sp = new URLSearchParams(q.split("#")[0]);
+  if (sp.has("from") || sp.has("to") || sp.has("input")) return { kind: "query", query: sp.toString() };
+
+  throw new Error("Expected a transaction hash, a simulator URL or a simulation query string");
+}
+
+export const describeSource = (source: SimulationSource) =>
+  source.kind === "tx" ? `tx ${source.hash.slice(0, 10)}…` : `simulation ${new URLSearchParams(source.query).get("to")?.slice(0, 10) ?? ""}…`;
+
+/** Simulator queries run on their link's chain, tx hashes on the selected chain */
+export async function loadSimulation(
+  source: SimulationSource,
+  opts?: RequestOptions,
+  client: BackendClient = getBackendClient(source.kind === "query" ? chainFromQuery(source.query) : undefined)
+): Promise<SimulationResult> {
+  if (source.kind === "tx") return client.traceTransaction(source.hash, opts);
+  const sp = new URLSearchParams(source.query);
+  return (await runSimulateQuery(sp, client, { ...opts, chain: chainFromQuery(sp) })).result;
+}
+
+/* ----------------------------- Alignment ----------------------------- */
+/** Longest-common-subsequence alignment; unmatched items come back with one side missing */
+function align<T>(a: T[], b: T[], key: (x: T) => string): { left?: T; right?: T }[] {
+  const ka = a.map(key);
+  const kb = b.map(key);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = ka[i] === kb[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: { left?: T; right?: T }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && ka[i] === kb[j]) out.push({ left: a[i++], right: b[j++] });
+    else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) out.push({ right: b[j++] });
+    else out.push({ left: a[i++] });
+  }
+  return out;
+}
+
+/* ----------------------------- Call trees ----------------------------- */
+export type DiffStatus = "same" | "changed" | "added" | "removed";
+
+export type FrameDiff = {
+  status: DiffStatus;           // "changed" = same call, different input/output/value/outcome
+  left?: DecodedNode;
+  right?: DecodedNode;
+  path: number[];               // index among aligned rows, root = []
+  differences: string[];        // which fields differ on a matched frame
+  gasLeft?: bigint;
+  gasRight?: bigint;
+  gasDelta: bigint;             // right - left
+  subtreeDiverges: boolean;     // this frame or any descendant differs
+  children: FrameDiff[];
+};
+
+const frameKey = (n: DecodedNode) =>
+  `${(n.type ?? "CALL").toUpperCase()}:${n.to?.toLowerCase()}:${(n.functionSelector ?? n.inputRaw?.slice(0, 10) ?? "").toLowerCase()}`;
+
+const gasOf = (n?: DecodedNode) => (n?.gasUsed ? hexToBigInt(n.gasUsed) : undefined);
+
+function frameDifferences(a: DecodedNode, b: DecodedNode): string[] {
+  const diffs: string[] = [];
+  if ((a.inputRaw ?? "").toLowerCase() !== (b.inputRaw ?? "").toLowerCase()) diffs.push("input");
+  if ((a.value ?? "0") !== (b.value ?? "0")) diffs.push("value");
+  if (!!a.error !== !!b.error) diffs.push(b.error ? "reverts" : "no longer reverts");
+  else if ((a.revertDecoded?.data ?? a.error ?? "") !== (b.revertDecoded?.data ?? b.error ?? "")) diffs.push("revert reason");
+  if ((a.outputRaw ?? "").toLowerCase() !== (b.outputRaw ?? "").toLowerCase()) diffs.push("output");
+  return diffs;
+}
+
+export function diffCallTrees(a: DecodedNode | null, b: DecodedNode | null, path: number[] = []): FrameDiff | null {
+  if (!a && !b) return null;
+  const gasLeft = gasOf(a ?? undefined);
+  const gasRight = gasOf(b ?? undefined);
+  const gasDelta = (gasRight ?? BigInt(0)) - (gasLeft ?? BigInt(0));
+
+  if (!a || !b) {
+    const only = (a ?? b)!;
+    const status: DiffStatus = a ? "removed" : "added";
+    const children = (only.children ?? [])
+      .map((c, i) => diffCallTrees(a ? c : null, b ? c : null, [...path, i]))
+      .filter((d): d is FrameDiff => !!d);
+    return { status, left: a ?? undefined, right: b ?? undefined, path, differences: [], gasLeft, gasRight, gasDelta, subtreeDiverges: true, children };
+  }
+
+  const differences = frameDifferences(a, b);
+  const children = align(a.children ?? [], b.children ?? [], frameKey).map(
+    (pair, i) => diffCallTrees(pair.left ?? null, pair.right ?? null, [...path, i])!
+  );
+  return {
+    status: differences.length ? "changed" : "same",
+    left: a,
+    right: b,
+    path,
+    differences,
+    gasLeft,
+    gasRight,
+    gasDelta,
+    subtreeDiverges: differences.length > 0 || children.some((c) => c.subtreeDiverges),
+    children,
+  };
+}
+
+/**
+ * Where execution first differs, in execution (pre-)order. A frame that only differs in its
+ * output is skipped when a child explains it; the earliest child that differs is reported instead.
+ */
+export function firstDivergence(root: FrameDiff | null): FrameDiff | null {
+  if (!root || !root.subtreeDiverges) return null;
+  if (root.status === "added" || root.status === "removed") return root;
+  const structural = root.differences.filter((d) => d !== "output" && d !== "reverts" && d !== "no longer reverts" && d !== "revert reason");
+  if (structural.length) return root;
+  for (const child of root.children) {
+    const found = firstDivergence(child);
+    if (found) return found;
+  }
+  return root;
+}
+
+/* ----------------------------- Events ----------------------------- */
+export type EventDiff = { status: DiffStatus; left?: EventLog; right?: EventLog };
+
+export function diffEvents(a: SimulationResult, b: SimulationResult): EventDiff[] {
+  const key = (l: EventLog) => `${l.address.toLowerCase()}:${(l.topics[0] ?? "").toLowerCase()}`;
+  return align(a.transaction.events, b.transaction.events, key).map(({ left, right }) => {
+    if (!left || !right) return { status: left ? "removed" : "added", left, right };
+    const same =
+      left.data.toLowerCase() === right.data.toLowerCase() &&
+      left.topics.join().toLowerCase() === right.topics.join().toLowerCase();
+    return { status: same ? "same" : "changed", left, right };
+  });
+}
+
+/* ----------------------------- Balances ----------------------------- */
+export type BalanceDeltaDiff = {
+  holder: string;
+  token: string;
+  tokenId?: bigint;
+  left: bigint;    // net change in the left simulation (0 when absent)
+  right: bigint;
+};
+
+export function diffBalances(a: SimulationResult, b: SimulationResult): BalanceDeltaDiff[] {
+  const rows = new Map<string, BalanceDeltaDiff>();
+  const collect = (result: SimulationResult, side: "left" | "right") => {
+    for (const c of computeBalanceChanges(result)) {
+      const key = `${c.holder}|${c.token}|${c.tokenId ?? ""}`;
+      const row = rows.get(key) ?? { holder: c.holder, token: c.token, tokenId: c.tokenId, left: BigInt(0), right: BigInt(0) };
+      row[side] += c.delta;
+      rows.set(key, row);
+    }
+  };
+  collect(a, "left");
+  collect(b, "right");
+  // rows that differ between the two runs first
+  return Array.from(rows.values()).sort((x, y) => Number(x.left === x.right) - Number(y.left === y.right));
+}
+
+/* ----------------------------- Storage ----------------------------- */
+export type StorageWriteDiff = {
+  address: string;
+  slot: string;
+  label?: string;         // decoded variable name(s), when a storage layout explains the slot
+  left?: string;          // value written (to) on each side; undefined = not written
+  right?: string;
+};
+
+export function diffStorage(a: SimulationResult, b: SimulationResult): StorageWriteDiff[] {
+  const rows = new Map<string, StorageWriteDiff>();
+  const collect = (result: SimulationResult, side: "left" | "right") => {
+    for (const [address, slots] of Object.entries(result.transaction.storageDiff)) {
+      const labels = new Map(
+        decodeStorageChanges(result, address).slots.map((s) => [s.slot, s.variables.map((v) => v.label).join(", ")])
+      );
+      for (const [slot, change] of Object.entries(slots)) {
+        const key = `${address.toLowerCase()}|${slot.toLowerCase()}`;
+        const row = rows.get(key) ?? { address: address.toLowerCase(), slot };
+        row[side] = change.to;
+        row.label ??= labels.get(slot);
+        rows.set(key, row);
+      }
+    }
+  };
+  collect(a, "left");
+  collect(b, "right");
+  return Array.from(rows.values());
+}
+
+/* ----------------------------- Whole comparison ----------------------------- */
+export type SimulationComparison = {
+  tree: FrameDiff | null;
+  divergence: FrameDiff | null;
+  events: EventDiff[];
+  balances: BalanceDeltaDiff[];
+  storage: StorageWriteDiff[];
+};
+
+export async function compareSimulations(a: SimulationResult, b: SimulationResult): Promise<SimulationComparison> {
+  const [treeA, treeB] = await Promise.all([decodeSimulationTrace(a), decodeSimulationTrace(b)]);
+  const tree = diffCallTrees(treeA, treeB);
+  return {
+    tree,
+    divergence: firstDivergence(tree),
+    events: diffEvents(a, b),
+    balances: diffBalances(a, b),
+    storage: diffStorage(a, b),
+  };
+}
@@ -0,0 +1,181 @@
+// Step debugger model: struct logs indexed by call frame, breakpoints, and a call-level stand-in
+
+import { CallFrame, DebugTrace, SimulationResult, StructLog, hexToBigInt } from "@/lib/simulation";
+import type { DecodedNode } from "@/utils/decodeCallTrace";
+
+/* ----------------------------- Types ----------------------------- */
+export type DebugStep = StructLog & {
+  index: number;
+  framePath: number[];   // child-index path of the executing frame in the decoded call tree
+};
+
+export type DebugFrame = {
+  path: number[];
+  node: DecodedNode | null;
+  firstStep: number;
+  lastStep: number;
+};
+
+export type DebugSession = {
+  steps: DebugStep[];
+  frames: Map<string, DebugFrame>; // keyed by pathKey
+  synthetic: boolean;              // built from callTrace, not an opcode trace
+};
+
+export type Breakpoint =
+  | { id: string; kind: "function"; functionName: string; address?: string }
+  | { id: string; kind: "sload" | "sstore"; slot: string };
+
+export const pathKey = (path: number[]) => path.join(".");
+
+const CALL_OPS = new Set(["CALL", "CALLCODE", "DELEGATECALL", "STATICCALL", "CREATE", "CREATE2"]);
+
+function nodeAt(root: DecodedNode | null, path: number[]): DecodedNode | null {
+  let node = root;
+  for (const i of path) node = node?.children?.[i] ?? null;
+  return node;
+}
+
+/* ----------------------------- Session ----------------------------- */
+/**
+ * Attribute every step to a call frame by following depth changes. Calls into accounts without
+ * code (EOAs, precompiles) produce no deeper steps but are still frames in the call tree, so a
+ * call op followed by a step at the same depth counts as an (empty) child.
+ */
+export function buildDebugSession(trace: DebugTrace, root: DecodedNode | null, synthetic = false): DebugSession {
+  const steps: DebugStep[] = [];
+  const frames = new Map<string, DebugFrame>();
+  const stack: { path: number[]; children: number }[] = [{ path: [], children: 0 }];
+
+  trace.structLogs.forEach((log, index) => {
+    const prev = trace.structLogs[index - 1];
+    if (prev) {
+      if (log.depth > prev.depth) {
+        const parent = stack[stack.length - 1];
+        stack.push({ path: [...parent.path, parent.children++], children: 0 });
+      } else {
+        for (let d = prev.depth; d > log.depth && stack.length > 1; d--) stack.pop();
+        if (log.depth === prev.depth && CALL_OPS.has(prev.op)) stack[stack.length - 1].children++;
+      }
+    }
+
+    const path = stack[stack.length - 1].path;
+    steps.push({ ...log, index, framePath: path });
+
+    const key = pathKey(path);
+    const frame = frames.get(key);
+    if (frame) frame.lastStep = index;
+    else frames.set(key, { path, node: nodeAt(root, path), firstStep: index, lastStep: index });
+  });
+
+  return { steps, frames, synthetic };
+}
+
+export const frameOf = (session: DebugSession, step: DebugStep) =>
+  session.frames.get(pathKey(step.framePath)) ?? null;
+
+/** First step executed inside the frame at `path` (null when it ran no code) */
+export const firstStepOfFrame = (session: DebugSession, path: number[]) =>
+  session.frames.get(pathKey(path))?.firstStep ?? null;
+
+/** pc of the last opcode the frame at `path` ran (its REVERT / failing op); none for call-level stand-ins */
+export function revertPcOf(session: DebugSession, path: number[]): number | undefined {
+  if (session.synthetic) return undefined;
+  const frame = session.frames.get(pathKey(path));
+  return frame ? session.steps[frame.lastStep].pc : undefined;
+}
+
+/* ----------------------------- Breakpoints ----------------------------- */
+const sameSlot = (a: string, b: string) => {
+  try {
+    return hexToBigInt(a.startsWith("0x") ? a : `0x${a}`) === hexToBigInt(b.startsWith("0x") ? b : `0x${b}`);
+  } catch {
+    return false;
+  }
+};
+
+export function hitsBreakpoint(session: DebugSession, index: number, bp: Breakpoint): boolean {
+  const step = session.steps[index];
+  if (!step) return false;
+
+  if (bp.kind === "function") {
+    const frame = frameOf(session, step);
+    if (!frame || frame.firstStep !== index || !frame.node) return false;
+    const name = bp.functionName.trim().toLowerCase();
+    const matchesFn =
+      frame.node.functionName?.toLowerCase() === name ||
+      frame.node.signature?.toLowerCase() === name ||
+      frame.node.functionSelector?.toLowerCase() === name;
+    const matchesAddr = !bp.address || frame.node.to?.toLowerCase() === bp.address.trim().toLowerCase();
+    return matchesFn && matchesAddr;
+  }
+
+  // SLOAD / SSTORE take the slot from the top of the stack
+  if (step.op !== bp.kind.toUpperCase()) return false;
+  const top = step.stack[step.stack.length - 1];
+  return top !== undefined && sameSlot(top, bp.slot);
+}
+
+/** Next (direction 1) or previous (-1) step, excluding `from`, that hits any breakpoint */
+export function findBreakpointHit(
+  session: DebugSession,
+  from: number,
+  direction: 1 | -1,
+  breakpoints: Breakpoint[]
+): number | null {
+  for (let i = from + direction; i >= 0 && i < session.steps.length; i += direction) {
+    if (breakpoints.some((bp) => hitsBreakpoint(session, i, bp))) return i;
+  }
+  return null;
+}
+
+/** Step over: next step back in the current frame (or its caller), skipping deeper calls */
+export function stepOver(session: DebugSession, from: number, direction: 1 | -1): number {
+  const depth = session.steps[from]?.depth ?? 0;
+  for (let i = from + direction; i >= 0 && i < session.steps.length; i += direction) {
+    if (session.steps[i].depth <= depth) return i;
+  }
+  return direction === 1 ? session.steps.length - 1 : 0;
+}
+
+/* ----------------------------- Call-level stand-in ----------------------------- */
+const num = (h?: string) => Number(hexToBigInt(h));
+
+/**
+ * Stand-in trace when the backend has no opcode tracer: one step entering each frame, one per
+ * outgoing call and one RETURN/REVERT, so frame navigation and function breakpoints still work.
+ */
+export function synthesizeDebugTrace(result: SimulationResult): DebugTrace {
+  const structLogs: StructLog[] = [];
+  const push = (frame: CallFrame, op: string, depth: number, stack: string[] = []) =>
+    structLogs.push({
+      pc: 0,
+      op,
+      gas: num(frame.gas),
+      gasCost: 0,
+      depth,
+      stack,
+      memory: [],
+      storage: {},
+      error: op === "REVERT" ? frame.revertReason || frame.error : undefined,
+    });
+
+  const walk = (frame: CallFrame, depth: number) => {
+    push(frame, "JUMPDEST", depth);
+    for (const child of frame.calls) {
+      push(frame, (child.type || "CALL").toUpperCase(), depth, [child.value ?? "0x0", child.to, child.gas ?? "0x0"]);
+      walk(child, depth + 1);
+    }
+    push(frame, frame.error ? "REVERT" : "RETURN", depth);
+  };
+
+  const root = result.transaction.callTrace[0];
+  if (root) walk(root, 1);
+
+  return {
+    gas: num(root?.gasUsed),
+    failed: !!root?.error,
+    returnValue: result.transaction.output,
+    structLogs,
+  };
+}
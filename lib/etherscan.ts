@@ -1,20 +1,13 @@
-import { Interface } from "ethers";
+import { AbiParam, AbiParamError, ParamValue, encodeFunctionInputs, paramType, structName } from "@/lib/abiParams";
+import { ChainConfig, getSelectedChain } from "@/lib/chains";
 
-// Etherscan API integration for fetching contract ABI and functions
+// Etherscan API integration for fetching contract ABIs (see lib/abiResolver.ts for the other sources)
 
 export interface EtherscanFunction {
   name: string;
   type: string;
-  inputs: Array<{
-    name: string;
-    type: string;
-    internalType?: string;
-  }>;
-  outputs?: Array<{
-    name: string;
-    type: string;
-    internalType?: string;
-  }>;
+  inputs: AbiParam[];
+  outputs?: AbiParam[];
   stateMutability?: string;
   payable?: boolean;
   constant?: boolean;
@@ -26,98 +19,67 @@ export interface ContractABI {
   errors: any[];
 }
 
-export async function fetchContractABI(contractAddress: string): Promise<ContractABI | null> {
-  const apiKey = process.env.NEXT_PUBLIC_ETHERSCAN_API_KEY;
-  
-  if (!apiKey) {
-    console.error('Etherscan API key not found. Please add NEXT_PUBLIC_ETHERSCAN_API_KEY to your .env file');
+export interface EtherscanAbi {
+  abi: any[];
+  name?: string;
+  implementation?: { address: string; name?: string };
+}
+
+const abiItemKey = (item: any) =>
+  `${item.type}:${item.name ?? ""}(${(item.inputs ?? []).map((i: any) => i.type).join(",")})`;
+
+/**
+ * Verified ABI through the server-side proxy (app/api/abi/[address]), which holds the API key and caches.
+ * For proxies the implementation's ABI is merged over the proxy's own. Null when nothing is verified.
+ */
+export async function fetchEtherscanAbi(
+  contractAddress: string,
+  chain: ChainConfig = getSelectedChain(),
+  signal?: AbortSignal
+): Promise<EtherscanAbi | null> {
+  const response = await fetch(`/api/abi/${contractAddress}?chainId=${chain.id}`, { signal });
+
+  if (response.status === 404) {
     return null;
   }
 
-  try {
-    const response = await fetch(
-      `https://api.etherscan.io/v2/api?chainid=999&module=contract&action=getabi&address=${contractAddress}&apikey=${apiKey}`
-    );
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    if (data.status === '0') {
-      console.error('Etherscan API error:', data.message);
-      return null;
-    }
-
-    if (!data.result || data.result === 'Contract source code not verified') {
-      console.warn('Contract not verified on Etherscan');
-      return null;
-    }
-
-    const abi = JSON.parse(data.result);
-    
-    // Filter and organize the ABI
-    const functions: EtherscanFunction[] = [];
-    const events: any[] = [];
-    const errors: any[] = [];
-
-    abi.forEach((item: any) => {
-      if (item.type === 'function') {
-        functions.push(item);
-      } else if (item.type === 'event') {
-        events.push(item);
-      } else if (item.type === 'error') {
-        errors.push(item);
-      }
-    });
-
-    return {
-      functions,
-      events,
-      errors
-    };
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data?.error?.message || `HTTP error! status: ${response.status}`);
+  }
 
-  } catch (error) {
-    console.error('Error fetching contract ABI:', error);
-    return null;
+  const impl = data.implementation;
+  if (!impl) {
+    return { abi: data.abi, name: data.name };
   }
+
+  const seen = new Set(impl.abi.map(abiItemKey));
+  return {
+    abi: [...impl.abi, ...data.abi.filter((item: any) => !seen.has(abiItemKey(item)))],
+    name: impl.name ?? data.name,
+    implementation: { address: impl.address, name: impl.name },
+  };
 }
 
-export function encodeFunctionCall(functionName: string, parameters: Array<{ name: string; type: string; value: string }>, abi: ContractABI): string {
+/** Calldata for the selected function; '' while a parameter is missing or invalid (see functionParamsIssues) */
+export function encodeFunctionCall(func: EtherscanFunction, parameters: Array<{ value: ParamValue }>): string {
   try {
-    // Find the function in the ABI
-    const func = abi.functions.find(f => f.name === functionName);
-    if (!func) {
-      throw new Error(`Function ${functionName} not found in ABI`);
-    }
-
-    // Create a minimal ABI with just this function
-    const functionABI = [func];
-    
-    // Create ethers Interface
-    const iface = new Interface(functionABI);
-    
-    // Extract parameter values
-    const paramValues = parameters.map(p => p.value);
-    
-    // Encode the function call
-    const encodedData = iface.encodeFunctionData(functionName, paramValues);
-    
-    return encodedData;
+    return encodeFunctionInputs(func, parameters.map(p => p.value));
   } catch (error) {
-    console.error('Error encoding function call:', error);
+    if (!(error instanceof AbiParamError)) {
+      console.error('Error encoding function call:', error);
+    }
     return '';
   }
 }
 
 export function getFunctionSignature(func: EtherscanFunction): string {
-  const inputTypes = func.inputs.map(input => input.type).join(',');
+  const inputTypes = func.inputs.map(input => paramType(input).format()).join(',');
   return `${func.name}(${inputTypes})`;
 }
 
 export function getFunctionDisplayName(func: EtherscanFunction): string {
   const signature = getFunctionSignature(func);
-  const inputs = func.inputs.map(input => `${input.type} ${input.name || 'param'}`).join(', ');
+  const inputs = func.inputs.map(input => `${structName(input) ?? paramType(input).format()} ${input.name || 'param'}`).join(', ');
   return `${func.name}(${inputs})`;
 } 
\ No newline at end of file
@@ -5,8 +5,9 @@ import {
     Fragment,
     Result,
     InterfaceAbi,
-    id,
   } from "ethers";
+  import { guessEvent } from "@/lib/signatures";
+  import type { ContractRecord } from "@/lib/simulation";
   
   export type RawEventLog = {
     index?: number;
@@ -23,6 +24,7 @@ import {
     address: string;
     index?: number;
     topic0?: string;
+    guessed?: boolean;       // matched a signature-registry entry, not a verified ABI
   };
   
   /** Parse "string | InterfaceAbi" safely into InterfaceAbi */
@@ -58,13 +60,13 @@ import {
     return v;
   }
   
+  /** Canonical signature; tuple params expand to their component types, e.g. "Swap((address,uint256),bool)" */
   function eventSignature(frag: EventFragment): string {
-    const types = frag.inputs.map((i) => i.type).join(",");
-    return `${frag.name}(${types})`;
+    return frag.format("sighash");
   }
   
   function eventTopicHash(frag: EventFragment): string {
-    return id(eventSignature(frag)).toLowerCase();
+    return frag.topicHash.toLowerCase();
   }
   
   /**
@@ -168,4 +170,113 @@ import {
   ): DecodedEvent[] {
     return logs.map((l) => decodeEventLog(l, abiLike));
   }
-  
\ No newline at end of file
+  
+
+  /* ----------------------- Simulation events ----------------------- */
+  // Shared by EventsTab and simulation assertions: emitter ABI (implementation for proxies),
+  // then any ABI in the simulation, then the signature database.
+
+  export type SimulationEvent = {
+    raw: RawEventLog;
+    decoded: DecodedEvent;          // name "unknown(<topic0>)" when nothing matched
+    contractName: string | null;
+    candidates: string[];           // signature-database alternatives, when guessed
+  };
+
+  type ContractsMap = Record<string, ContractRecord>;
+
+  function normalizeAbi(abiLike: string | InterfaceAbi | null | undefined): InterfaceAbi | null {
+    if (!abiLike) return null;
+    try {
+      return parseAbi(abiLike);
+    } catch {
+      return null;
+    }
+  }
+
+  const normAddr = (a?: string) => (a ?? "").toLowerCase();
+
+  function findRecord(addr: string, contracts: ContractsMap): ContractRecord | undefined {
+    const key = normAddr(addr);
+    return contracts[key] || Object.values(contracts).find((c) => normAddr(c.address) === key);
+  }
+
+  function resolveAbiForAddress(
+    addr: string,
+    contracts: ContractsMap
+  ): { abi: InterfaceAbi | null; name: string | null } {
+    const rec = findRecord(addr, contracts);
+    if (!rec) return { abi: null, name: null };
+
+    const isProxy = String(rec.Proxy ?? "0") === "1";
+    if (isProxy && rec.Implementation) {
+      const implRec = findRecord(rec.Implementation, contracts);
+      const implAbi = normalizeAbi(implRec?.ABI);
+      if (implAbi) {
+        return { abi: implAbi, name: implRec?.ContractName ?? rec.ContractName ?? null };
+      }
+    }
+
+    return { abi: normalizeAbi(rec.ABI), name: rec.ContractName ?? null };
+  }
+
+  function tryDecodeWithAnyAbi(
+    log: RawEventLog,
+    contracts: ContractsMap
+  ): { decoded: DecodedEvent; name: string | null } | null {
+    for (const meta of Object.values(contracts)) {
+      const abi = normalizeAbi(meta.ABI);
+      if (!abi) continue;
+      try {
+        const decoded = decodeEventLog(log, abi);
+        if (!decoded.name.startsWith("unknown(")) return { decoded, name: meta.ContractName ?? null };
+      } catch {
+        // keep trying
+      }
+    }
+    return null;
+  }
+
+  export function decodeSimulationEvent(log: RawEventLog, contracts: ContractsMap): SimulationEvent {
+    const direct = resolveAbiForAddress(log.address, contracts);
+    let contractName = direct.name;
+    let decoded: DecodedEvent = {
+      name: `unknown(${log.topics?.[0] ?? ""})`,
+      argNames: [],
+      argValues: [],
+      address: log.address,
+      index: log.index,
+      topic0: log.topics?.[0],
+    };
+
+    if (direct.abi) {
+      try {
+        decoded = decodeEventLog(log, direct.abi);
+      } catch {
+        /* keep unknown */
+      }
+    }
+
+    if (decoded.name.startsWith("unknown(")) {
+      const alt = tryDecodeWithAnyAbi(log, contracts);
+      if (alt) {
+        decoded = alt.decoded;
+        contractName ??= alt.name;
+      }
+    }
+
+    // no ABI knows this topic0 → signature database (flagged as a guess)
+    let candidates: string[] = [];
+    if (decoded.name.startsWith("unknown(")) {
+      const guess = guessEvent(log);
+      if (guess) {
+        decoded = guess;
+        candidates = guess.candidates;
+      }
+    }
+
+    return { raw: log, decoded, contractName, candidates };
+  }
+
+  export const decodeSimulationEvents = (logs: RawEventLog[], contracts: ContractsMap) =>
+    logs.map((log) => decodeSimulationEvent(log, contracts));
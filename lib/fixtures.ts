@@ -0,0 +1,163 @@
+// Fixture backend: replay / record simulation payloads instead of calling NEXT_PUBLIC_BACKEND_URL
+
+import { id } from "ethers";
+import { BackendClient, BackendError, BundleSimulateRequest, SimulateRequest } from "@/lib/backend";
+import {
+  SimulationResult,
+  BundleSimulationResult,
+  DebugTrace,
+  parseSimulationResult,
+  parseBundleSimulationResult,
+  parseDebugTrace,
+} from "@/lib/simulation";
+
+/* ----------------------------- Mode ----------------------------- */
+export type BackendMode = "live" | "fixtures" | "record";
+
+export type FixtureKind = "simulate" | "bundle" | "trace" | "debug";
+
+const MODE_STORAGE_KEY = "illusio.backendMode";
+
+const isMode = (v: string | null | undefined): v is BackendMode =>
+  v === "live" || v === "fixtures" || v === "record";
+
+/**
+ * Resolve the backend mode: `?backend=` URL flag, then the value remembered for this tab
+ * (so the flag survives navigation from the form to the view page), then NEXT_PUBLIC_BACKEND_MODE.
+ */
+export function resolveBackendMode(): BackendMode {
+  if (typeof window !== "undefined") {
+    const flag = new URLSearchParams(window.location.search).get("backend");
+    if (isMode(flag)) {
+      sessionStorage.setItem(MODE_STORAGE_KEY, flag);
+      return flag;
+    }
+    const remembered = sessionStorage.getItem(MODE_STORAGE_KEY);
+    if (isMode(remembered)) return remembered;
+  }
+  const env = process.env.NEXT_PUBLIC_BACKEND_MODE;
+  return isMode(env) ? env : "live";
+}
+
+/* ----------------------------- Keys ----------------------------- */
+/** Stable fixture key: tx hash for traces, hash of the request body otherwise */
+export function fixtureKey(kind: FixtureKind, request: SimulateRequest | BundleSimulateRequest | string): string {
+  if (kind === "trace") return String(request).toLowerCase();
+  return id(JSON.stringify(request)).slice(2, 18);
+}
+
+const fixtureUrl = (kind: FixtureKind, key: string) =>
+  `/api/fixtures/${kind}/${encodeURIComponent(key)}`;
+
+/* ----------------------------- Built-in payloads ----------------------------- */
+/** Payloads shipped with the repo, used on a key miss when the client asks for a fallback */
+async function builtInFixture(kind: FixtureKind): Promise<unknown> {
+  if (kind === "debug") {
+    // no opcode trace ships with the repo; callers fall back to call-level steps
+    throw new BackendError("HTTP_ERROR", "HTTP 404 - No debug fixture recorded", 404);
+  }
+  if (kind === "bundle") {
+    const { bundle_reponse } = await import("@/bundle_response");
+    return bundle_reponse;
+  }
+  const { response } = await import("@/response");
+  return response;
+}
+
+/* ----------------------------- Clients ----------------------------- */
+export interface FixtureClientConfig {
+  fetch?: typeof fetch;
+  fallback?: boolean; // on a key miss, replay `<kind>/default`, then the built-in payloads
+}
+
+/**
+ * Replays recorded payloads. A missing fixture is a 404 naming it, unless `fallback` asks for
+ * `<kind>/default` and the built-in payloads instead.
+ */
+export function createFixtureBackendClient(config: FixtureClientConfig = {}): BackendClient {
+  const fetchImpl = config.fetch ?? ((...args) => fetch(...args));
+
+  const fetchFixture = async (kind: FixtureKind, key: string, signal?: AbortSignal): Promise<unknown> => {
+    let res: Response;
+    try {
+      res = await fetchImpl(fixtureUrl(kind, key), { signal });
+    } catch (e: any) {
+      if (signal?.aborted) throw new BackendError("ABORTED", "Request aborted");
+      // fixture route unavailable (static export)
+      throw new BackendError("NETWORK_ERROR", `Fixture route unavailable: ${e?.message || e}`);
+    }
+    if (!res.ok) {
+      const reason = res.status === 404 ? `No ${kind} fixture recorded for ${key}` : res.statusText;
+      throw new BackendError("HTTP_ERROR", `HTTP ${res.status} - ${reason}`, res.status);
+    }
+    return res.json();
+  };
+
+  const load = async (kind: FixtureKind, key: string, signal?: AbortSignal): Promise<unknown> => {
+    if (!config.fallback) return fetchFixture(kind, key, signal);
+    for (const k of [key, "default"]) {
+      try {
+        return await fetchFixture(kind, k, signal);
+      } catch (e: any) {
+        if (e instanceof BackendError && e.code === "ABORTED") throw e;
+      }
+    }
+    return builtInFixture(kind);
+  };
+
+  return {
+    async simulate(body, opts) {
+      return parseSimulationResult(await load("simulate", fixtureKey("simulate", body), opts?.signal));
+    },
+    async simulateBundle(body, opts) {
+      return parseBundleSimulationResult(await load("bundle", fixtureKey("bundle", body), opts?.signal));
+    },
+    async traceTransaction(txHash, opts) {
+      return parseSimulationResult(await load("trace", fixtureKey("trace", txHash), opts?.signal));
+    },
+    async debugTrace(body, opts) {
+      return parseDebugTrace(await load("debug", fixtureKey("debug", body), opts?.signal));
+    },
+  };
+}
+
+/** Wraps a live client and saves every successful response as a fixture */
+export function createRecordingBackendClient(inner: BackendClient, config: FixtureClientConfig = {}): BackendClient {
+  const fetchImpl = config.fetch ?? ((...args) => fetch(...args));
+
+  const save = async (kind: FixtureKind, key: string, payload: SimulationResult | BundleSimulationResult | DebugTrace) => {
+    try {
+      const res = await fetchImpl(fixtureUrl(kind, key), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      if (!res.ok) console.warn(`Fixture not recorded (${kind}/${key}): HTTP ${res.status}`);
+    } catch (e) {
+      console.warn(`Fixture not recorded (${kind}/${key}):`, e);
+    }
+  };
+
+  return {
+    async simulate(body, opts) {
+      const result = await inner.simulate(body, opts);
+      await save("simulate", fixtureKey("simulate", body), result);
+      return result;
+    },
+    async simulateBundle(body, opts) {
+      const result = await inner.simulateBundle(body, opts);
+      await save("bundle", fixtureKey("bundle", body), result);
+      return result;
+    },
+    async traceTransaction(txHash, opts) {
+      const result = await inner.traceTransaction(txHash, opts);
+      await save("trace", fixtureKey("trace", txHash), result);
+      return result;
+    },
+    async debugTrace(body, opts) {
+      const result = await inner.debugTrace(body, opts);
+      await save("debug", fixtureKey("debug", body), result);
+      return result;
+    },
+  };
+}
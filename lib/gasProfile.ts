@@ -0,0 +1,143 @@
+// Gas profile of a call tree: inclusive gas (the frame and everything it called) vs. self gas (the
+// frame's own execution), with totals per contract and per function across the whole tree.
+
+import { CallFrame, SimulationResult, hexToBigInt } from "@/lib/simulation";
+import type { DecodedNode } from "@/utils/decodeCallTrace";
+
+/* ----------------------------- Types ----------------------------- */
+export type GasFrame = {
+  id: string;              // position in the tree ("0.2.1"), unique and stable across renders
+  depth: number;
+  contract: string;        // lowercase code address (the implementation for delegatecalls)
+  contractName?: string;
+  fn: string;              // function name, selector, fallback() or the create type
+  signature?: string;
+  type?: string;           // CALL | STATICCALL | DELEGATECALL | CREATE ...
+  inclusive: number;
+  self: number;
+  reverted: boolean;
+  children: GasFrame[];
+};
+
+export type GasAggregateBy = "contract" | "function";
+
+export type GasAggregate = {
+  key: string;
+  label: string;
+  contract?: string;       // for per-function rows
+  calls: number;
+  self: number;
+  inclusive: number;       // recursive frames are counted once, at their outermost call
+};
+
+/* ----------------------------- Building ----------------------------- */
+const gasOf = (v?: string) => Number(hexToBigInt(v));
+
+function functionLabel(fn: { functionName?: string; signature?: string; functionSelector?: string; input?: string; type?: string }): string {
+  if (fn.type?.startsWith("CREATE")) return fn.type.toLowerCase();
+  if (fn.functionName) return fn.functionName.split("(")[0];
+  if (fn.signature) return fn.signature.split("(")[0];
+  if (fn.functionSelector) return fn.functionSelector;
+  return !fn.input || fn.input === "0x" ? "fallback()" : fn.input.slice(0, 10);
+}
+
+function contractNameOf(result: SimulationResult, address: string): string | undefined {
+  const key = Object.keys(result.contracts).find((k) => k.toLowerCase() === address);
+  return result.contracts[key ?? ""]?.ContractName || undefined;
+}
+
+function withSelfGas(frame: Omit<GasFrame, "self">): GasFrame {
+  const childGas = frame.children.reduce((sum, c) => sum + c.inclusive, 0);
+  return { ...frame, self: Math.max(0, frame.inclusive - childGas) };
+}
+
+function fromDecoded(node: DecodedNode, id: string, depth: number, result: SimulationResult): GasFrame {
+  const contract = (node.to ?? "").toLowerCase();
+  return withSelfGas({
+    id,
+    depth,
+    contract,
+    contractName: contractNameOf(result, contract),
+    fn: functionLabel({ ...node, input: node.inputRaw }),
+    signature: node.signature,
+    type: node.type,
+    inclusive: gasOf(node.gasUsed),
+    reverted: !!node.error,
+    children: (node.children ?? []).map((c, i) => fromDecoded(c, `${id}.${i}`, depth + 1, result)),
+  });
+}
+
+function fromRaw(frame: CallFrame, id: string, depth: number, result: SimulationResult): GasFrame {
+  const contract = (frame.to ?? "").toLowerCase();
+  return withSelfGas({
+    id,
+    depth,
+    contract,
+    contractName: contractNameOf(result, contract),
+    fn: functionLabel({ input: frame.input, type: frame.type }),
+    type: frame.type,
+    inclusive: gasOf(frame.gasUsed),
+    reverted: !!frame.error,
+    children: (frame.calls ?? []).map((c, i) => fromRaw(c, `${id}.${i}`, depth + 1, result)),
+  });
+}
+
+/** Gas tree from the decoded trace when there is one, else from the raw call trace; null without a trace */
+export function buildGasProfile(result: SimulationResult, decoded: DecodedNode | null): GasFrame | null {
+  if (decoded) return fromDecoded(decoded, "0", 0, result);
+  const root = result.transaction.callTrace[0];
+  return root ? fromRaw(root, "0", 0, result) : null;
+}
+
+/* ----------------------------- Aggregation ----------------------------- */
+export const frameContractLabel = (f: Pick<GasFrame, "contract" | "contractName">) => f.contractName || f.contract || "(unknown)";
+
+const aggregateKey = (f: GasFrame, by: GasAggregateBy) =>
+  by === "contract" ? f.contract : `${f.contract}:${f.signature ?? f.fn}`;
+
+/** Totals per contract or per function (signature on a contract), most self gas first */
+export function aggregateGas(root: GasFrame, by: GasAggregateBy): GasAggregate[] {
+  const rows = new Map<string, GasAggregate>();
+
+  const visit = (f: GasFrame, open: Set<string>) => {
+    const key = aggregateKey(f, by);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        key,
+        label: by === "contract" ? frameContractLabel(f) : f.signature ?? f.fn,
+        contract: by === "function" ? frameContractLabel(f) : undefined,
+        calls: 0,
+        self: 0,
+        inclusive: 0,
+      };
+      rows.set(key, row);
+    }
+    row.calls += 1;
+    row.self += f.self;
+    // a frame inside another frame with the same key is already part of that frame's inclusive gas
+    const outermost = !open.has(key);
+    if (outermost) row.inclusive += f.inclusive;
+
+    const next = outermost ? new Set(open).add(key) : open;
+    f.children.forEach((c) => visit(c, next));
+  };
+
+  visit(root, new Set());
+  return Array.from(rows.values()).sort((a, b) => b.self - a.self);
+}
+
+/* ----------------------------- Search ----------------------------- */
+/** Case-insensitive match on function, signature, contract name or address */
+export function frameMatches(f: GasFrame, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return false;
+  return [f.fn, f.signature, f.contractName, f.contract].some((s) => s?.toLowerCase().includes(q));
+}
+
+/** Ids of the frames matching `query` */
+export function matchingFrames(root: GasFrame, query: string, out = new Set<string>()): Set<string> {
+  if (frameMatches(root, query)) out.add(root.id);
+  root.children.forEach((c) => matchingFrames(c, query, out));
+  return out;
+}
@@ -0,0 +1,251 @@
+// Local simulation history (IndexedDB): every run with its request, response and a searchable summary
+
+import type { BundleSimulateRequest, SimulateRequest } from "@/lib/backend";
+import { BundleSimulationResult, CallFrame, SimulationResult, hexToBigInt, rootFrame } from "@/lib/simulation";
+import { chainFromQuery } from "@/lib/chains";
+
+/* ----------------------------- Types ----------------------------- */
+export type RunKind = "simulate" | "bundle" | "trace";
+export type RunStatus = "success" | "reverted" | "error";
+
+export type HistoryRun = {
+  id: string;
+  kind: RunKind;
+  query: string;                 // view-page query string that reproduces the run (trace: simulator query of the tx)
+  txHash?: string;               // trace runs
+  request: SimulateRequest | BundleSimulateRequest | { txHash: string };
+  response?: SimulationResult | BundleSimulationResult;
+  status: RunStatus;
+  error?: string;
+  gasUsed?: string;              // decimal
+  timestamp: number;             // ms
+  pinned: boolean;
+  pinnedAt?: number;             // ms, set while pinned (indexed: pruning finds pinned runs without reading them)
+  // search summary
+  addresses: string[];           // every from/to in the call trace, lowercase
+  selectors: string[];           // every 4-byte selector called
+};
+
+export type NewRun = Omit<HistoryRun, "id" | "timestamp" | "pinned" | "pinnedAt" | "status" | "gasUsed" | "addresses" | "selectors"> & {
+  status?: RunStatus;            // derived from the response when omitted
+};
+
+/* ----------------------------- Database ----------------------------- */
+const DB_NAME = "illusio";
+const DB_VERSION = 2;
+const STORE = "runs";
+const MAX_UNPINNED = 200;        // oldest unpinned runs are dropped beyond this
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const historyAvailable = () => typeof indexedDB !== "undefined";
+
+function openDb(): Promise<IDBDatabase> {
+  if (!historyAvailable()) return Promise.reject(new Error("IndexedDB is not available"));
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (event) => {
+      const db = req.result;
+      const store = db.objectStoreNames.contains(STORE)
+        ? req.transaction!.objectStore(STORE)
+        : db.createObjectStore(STORE, { keyPath: "id" });
+      if (!store.indexNames.contains("timestamp")) store.createIndex("timestamp", "timestamp");
+      if (!store.indexNames.contains("pinnedAt")) {
+        store.createIndex("pinnedAt", "pinnedAt");
+        // v1 runs: index the ones already pinned
+        if (event.oldVersion > 0) {
+          store.openCursor().onsuccess = (e) => {
+            const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            const run = cursor.value as HistoryRun;
+            if (run.pinned && run.pinnedAt === undefined) cursor.update({ ...run, pinnedAt: run.timestamp });
+            cursor.continue();
+          };
+        }
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/* ----------------------------- Summaries ----------------------------- */
+function summarize(response?: SimulationResult | BundleSimulationResult) {
+  const results = !response ? [] : "results" in response ? response.results : [response];
+  const addresses = new Set<string>();
+  const selectors = new Set<string>();
+  let reverted = false;
+  let gas = BigInt(0);
+
+  const walk = (f: CallFrame) => {
+    if (f.from) addresses.add(f.from.toLowerCase());
+    if (f.to) addresses.add(f.to.toLowerCase());
+    if (f.input && f.input.length >= 10) selectors.add(f.input.slice(0, 10).toLowerCase());
+    f.calls.forEach(walk);
+  };
+  for (const r of results) {
+    const root = rootFrame(r);
+    if (!root) continue;
+    walk(root);
+    reverted ||= !!root.error;
+    gas += hexToBigInt(root.gasUsed);
+  }
+
+  return {
+    status: (reverted ? "reverted" : "success") as RunStatus,
+    gasUsed: results.length ? gas.toString() : undefined,
+    addresses: Array.from(addresses),
+    selectors: Array.from(selectors),
+  };
+}
+
+const newId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/* ----------------------------- API ----------------------------- */
+/** Store a run; never throws (history is best-effort), resolves to the new id or null */
+export async function recordRun(run: NewRun): Promise<string | null> {
+  if (!historyAvailable()) return null;
+  const summary = summarize(run.response);
+  const entry: HistoryRun = {
+    ...run,
+    ...summary,
+    status: run.status ?? summary.status,
+    id: newId(),
+    timestamp: Date.now(),
+    pinned: false,
+  };
+
+  try {
+    await withStore("readwrite", (s) => s.put(entry));
+    await pruneHistory();
+    return entry.id;
+  } catch (e) {
+    console.error("Failed to record simulation history:", e);
+    return null;
+  }
+}
+
+export const getRun = (id: string) =>
+  withStore<HistoryRun | undefined>("readonly", (s) => s.get(id));
+
+/** All runs, newest first */
+export async function listRuns(): Promise<HistoryRun[]> {
+  if (!historyAvailable()) return [];
+  const runs = await withStore<HistoryRun[]>("readonly", (s) => s.getAll());
+  return runs.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function setPinned(id: string, pinned: boolean): Promise<void> {
+  const run = await getRun(id);
+  if (!run) return;
+  const next: HistoryRun = { ...run, pinned };
+  if (pinned) next.pinnedAt ??= Date.now();
+  else delete next.pinnedAt;
+  await withStore("readwrite", (s) => s.put(next));
+}
+
+export const deleteRun = (id: string) => withStore("readwrite", (s) => s.delete(id)).then(() => undefined);
+
+export const clearHistory = () => withStore("readwrite", (s) => s.clear()).then(() => undefined);
+
+/** Drop unpinned runs beyond MAX_UNPINNED, oldest first, walking index keys only (no payloads are read) */
+async function pruneHistory(): Promise<void> {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+
+    const pinnedReq = store.index("pinnedAt").getAllKeys();
+    pinnedReq.onsuccess = () => {
+      const pinned = new Set(pinnedReq.result);
+      let kept = 0;
+      const cursorReq = store.index("timestamp").openKeyCursor(null, "prev");
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return;
+        if (!pinned.has(cursor.primaryKey) && ++kept > MAX_UNPINNED) store.delete(cursor.primaryKey);
+        cursor.continue();
+      };
+    };
+  });
+}
+
+/* ----------------------------- Search ----------------------------- */
+/**
+ * Free-text match: addresses and selectors by prefix/substring (case-insensitive),
+ * "status:reverted" style filters, and tx hashes.
+ */
+export function matchesSearch(run: HistoryRun, search: string): boolean {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  return terms.every((term) => {
+    const [key, value] = term.includes(":") && !term.startsWith("0x") ? term.split(":", 2) : [null, term];
+    if (key === "status") return run.status === value;
+    if (key === "kind") return run.kind === value;
+    if (key === "pinned") return run.pinned === (value !== "false");
+    return (
+      run.addresses.some((a) => a.includes(value)) ||
+      run.selectors.some((s) => s.startsWith(value)) ||
+      !!run.txHash?.toLowerCase().startsWith(value) ||
+      run.status === value ||
+      (run.error ?? "").toLowerCase().includes(value)
+    );
+  });
+}
+
+/* ----------------------------- Links ----------------------------- */
+/** View page that shows the stored result without calling the backend */
+export function historyViewHref(run: HistoryRun): string {
+  const sp = new URLSearchParams(run.query);
+  sp.set("historyId", run.id);
+  if (run.kind === "bundle") return `/dashboard/advanceSimulator/v1/view?${sp.toString()}`;
+  if (run.kind === "trace" && run.txHash) {
+    return `/dashboard/transactions/${run.txHash}?chain=${chainFromQuery(run.query).id}&historyId=${run.id}`;
+  }
+  return `/dashboard/simulator/v1/view?${sp.toString()}`;
+}
+
+/** Same request against the latest block (a fresh run, recorded again) */
+export function historyRerunHref(run: HistoryRun): string {
+  const sp = new URLSearchParams(run.query);
+  sp.delete("block");
+  sp.delete("position");
+  sp.delete("historyId");
+  return run.kind === "bundle"
+    ? `/dashboard/advanceSimulator/v1/view?${sp.toString()}`
+    : `/dashboard/simulator/v1/view?${sp.toString()}`;
+}
+
+/** Simulator query reproducing a mined transaction's top-level call (for re-running traces) */
+export function traceToQuery(result: SimulationResult, chainId: number): string {
+  const tx = result.transaction;
+  const sp = new URLSearchParams({
+    chain: String(chainId),
+    from: tx.from,
+    to: tx.to,
+    input: tx.input,
+    value: hexToBigInt(tx.value).toString(),
+    gas: hexToBigInt(tx.gas).toString(),
+    gasPrice: hexToBigInt(tx.gasPrice).toString(),
+  });
+  if (tx.blockHeader.number) sp.set("block", hexToBigInt(tx.blockHeader.number).toString());
+  return sp.toString();
+}
@@ -0,0 +1,304 @@
+// Saved projects: named groups of single-tx and bundle scenarios, kept in localStorage and shared as JSON files
+
+import { Assertion, normalizeAssertion } from "@/lib/assertions";
+
+/* ----------------------------- Types ----------------------------- */
+export type ScenarioKind = "simulate" | "bundle";
+
+/** "latest" drops the saved block so the scenario always runs at the chain head */
+export type BlockPolicy = { mode: "latest" } | { mode: "fixed"; block: string };
+
+export type Scenario = {
+  id: string;
+  kind: ScenarioKind;
+  title: string;
+  notes: string;
+  tags: string[];
+  blockPolicy: BlockPolicy;
+  query: string;                 // serializeToQuery / serializeBundleToQuery output
+  assertions: Assertion[];       // checked by the suite runner (lib/testRunner.ts)
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type Project = {
+  id: string;
+  name: string;
+  description: string;
+  scenarios: Scenario[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type NewScenario = Pick<Scenario, "kind" | "title" | "query"> &
+  Partial<Pick<Scenario, "notes" | "tags" | "blockPolicy" | "assertions">>;
+
+/** File format written by exportProjects */
+export type ProjectsFile = {
+  format: "illusio-projects";
+  version: 1;
+  exportedAt: string;
+  projects: Project[];
+};
+
+/* ----------------------------- Storage ----------------------------- */
+const STORAGE_KEY = "illusio.projects";
+
+const newId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export class ProjectsStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectsStorageError";
+  }
+}
+
+/**
+ * Stored entries that fail validation (hand edits, a newer format). They are hidden but written
+ * back untouched on every save, so one bad entry never costs the rest.
+ */
+type Unreadable = { projects: unknown[]; scenarios: Record<string, unknown[]> };
+
+function readStoredProjects(): { projects: Project[]; unreadable: Unreadable } {
+  const unreadable: Unreadable = { projects: [], scenarios: {} };
+  if (typeof window === "undefined") return { projects: [], unreadable };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+  } catch {
+    throw new ProjectsStorageError("Saved projects are not valid JSON");
+  }
+  if (!Array.isArray(parsed)) throw new ProjectsStorageError("Saved projects are not a list");
+
+  const projects: Project[] = [];
+  for (const entry of parsed) {
+    const skipped: unknown[] = [];
+    try {
+      const project = normalizeProject(entry, (raw) => skipped.push(raw));
+      if (skipped.length) unreadable.scenarios[project.id] = skipped;
+      projects.push(project);
+    } catch {
+      unreadable.projects.push(entry);
+    }
+  }
+  return { projects, unreadable };
+}
+
+/** Readable projects; [] when storage can't be read at all (see projectsStorageWarning) */
+export function loadProjects(): Project[] {
+  try {
+    return readStoredProjects().projects;
+  } catch {
+    return [];
+  }
+}
+
+/** Why some saved projects or scenarios are hidden, or null when everything was read */
+export function projectsStorageWarning(): string | null {
+  try {
+    const { unreadable } = readStoredProjects();
+    const scenarios = Object.values(unreadable.scenarios).reduce((n, list) => n + list.length, 0);
+    const parts = [
+      unreadable.projects.length && `${unreadable.projects.length} project(s)`,
+      scenarios && `${scenarios} scenario(s)`,
+    ].filter(Boolean);
+    return parts.length ? `${parts.join(" and ")} in storage could not be read; they are kept but not shown` : null;
+  } catch (e: any) {
+    return `${e.message}; changes are disabled until it is fixed or cleared`;
+  }
+}
+
+/** Read, change and write back; throws rather than persisting when storage can't be read */
+function mutateProjects(change: (projects: Project[]) => Project[]) {
+  const { projects, unreadable } = readStoredProjects();
+  const stored = change(projects).map((p) => ({
+    ...p,
+    scenarios: [...p.scenarios, ...(unreadable.scenarios[p.id] ?? [])],
+  }));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...stored, ...unreadable.projects]));
+}
+
+/** Apply `update` to one project, persist, and return the updated project */
+function updateProject(id: string, update: (p: Project) => Project): Project {
+  let updated: Project | undefined;
+  mutateProjects((projects) =>
+    projects.map((p) => (p.id === id ? (updated = { ...update(p), updatedAt: Date.now() }) : p))
+  );
+  if (!updated) throw new Error(`Project ${id} not found`);
+  return updated;
+}
+
+export const getProject = (id: string) => loadProjects().find((p) => p.id === id);
+
+/* ----------------------------- Projects ----------------------------- */
+export function createProject(name: string, description = ""): Project {
+  const now = Date.now();
+  const project: Project = { id: newId(), name: name.trim() || "Untitled project", description, scenarios: [], createdAt: now, updatedAt: now };
+  mutateProjects((projects) => [...projects, project]);
+  return project;
+}
+
+export const renameProject = (id: string, name: string, description?: string) =>
+  updateProject(id, (p) => ({ ...p, name: name.trim() || p.name, description: description ?? p.description }));
+
+export function deleteProject(id: string) {
+  mutateProjects((projects) => projects.filter((p) => p.id !== id));
+}
+
+/* ----------------------------- Scenarios ----------------------------- */
+/** Block policy implied by a query: fixed when it pins a block, latest otherwise */
+export function blockPolicyFromQuery(query: string): BlockPolicy {
+  const block = new URLSearchParams(query).get("block")?.trim();
+  return block ? { mode: "fixed", block } : { mode: "latest" };
+}
+
+export function addScenario(projectId: string, scenario: NewScenario): Scenario {
+  const now = Date.now();
+  const entry: Scenario = {
+    id: newId(),
+    kind: scenario.kind,
+    title: scenario.title.trim() || "Untitled scenario",
+    notes: scenario.notes ?? "",
+    tags: normalizeTags(scenario.tags ?? []),
+    blockPolicy: scenario.blockPolicy ?? blockPolicyFromQuery(scenario.query),
+    query: scenario.query,
+    assertions: scenario.assertions ?? [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  updateProject(projectId, (p) => ({ ...p, scenarios: [...p.scenarios, entry] }));
+  return entry;
+}
+
+export const updateScenario = (
+  projectId: string,
+  scenarioId: string,
+  changes: Partial<Pick<Scenario, "title" | "notes" | "tags" | "blockPolicy" | "query" | "assertions">>
+) =>
+  updateProject(projectId, (p) => ({
+    ...p,
+    scenarios: p.scenarios.map((s) =>
+      s.id === scenarioId
+        ? { ...s, ...changes, tags: changes.tags ? normalizeTags(changes.tags) : s.tags, updatedAt: Date.now() }
+        : s
+    ),
+  }));
+
+export const deleteScenario = (projectId: string, scenarioId: string) =>
+  updateProject(projectId, (p) => ({ ...p, scenarios: p.scenarios.filter((s) => s.id !== scenarioId) }));
+
+export const normalizeTags = (tags: string[]) =>
+  Array.from(new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean)));
+
+/** Scenario query with its block policy applied */
+export function scenarioQuery(scenario: Scenario): string {
+  const sp = new URLSearchParams(scenario.query);
+  if (scenario.blockPolicy.mode === "fixed") sp.set("block", scenario.blockPolicy.block);
+  else sp.delete("block");
+  return sp.toString();
+}
+
+const ROUTE: Record<ScenarioKind, string> = {
+  simulate: "/dashboard/simulator/v1",
+  bundle: "/dashboard/advanceSimulator/v1",
+};
+
+/** Builder page, pre-filled with the scenario */
+export const scenarioEditHref = (s: Scenario) => `${ROUTE[s.kind]}?${scenarioQuery(s)}`;
+
+/** View page, which runs the scenario */
+export const scenarioRunHref = (s: Scenario) => `${ROUTE[s.kind]}/view?${scenarioQuery(s)}`;
+
+/* ----------------------------- Import / export ----------------------------- */
+export function exportProjects(projects: Project[]): ProjectsFile {
+  return { format: "illusio-projects", version: 1, exportedAt: new Date().toISOString(), projects };
+}
+
+/** Offer a projects file as a download */
+export function downloadProjects(projects: Project[], filename = "illusio-projects.json") {
+  const blob = new Blob([JSON.stringify(exportProjects(projects), null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Validated projects of an exported file (or a bare project array); throws on anything else */
+export function parseProjectsFile(file: unknown): Project[] {
+  const list = Array.isArray(file)
+    ? file
+    : file && typeof file === "object" && (file as ProjectsFile).format === "illusio-projects"
+    ? (file as ProjectsFile).projects
+    : null;
+  if (!Array.isArray(list)) throw new Error("Not an Illusio projects file");
+  return list.map((p) => normalizeProject(p));
+}
+
+/**
+ * Add the projects of an exported file to local storage. Imported projects and scenarios
+ * get fresh ids, so importing twice yields copies rather than overwriting local edits.
+ */
+export function importProjects(file: unknown): Project[] {
+  const imported = parseProjectsFile(file).map((project) => ({
+    ...project,
+    id: newId(),
+    scenarios: project.scenarios.map((s) => ({ ...s, id: newId() })),
+  }));
+  mutateProjects((projects) => [...projects, ...imported]);
+  return imported;
+}
+
+/* ----------------------------- Normalizers ----------------------------- */
+const str = (v: unknown, fallback = "") => (typeof v === "string" ? v : fallback);
+const time = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : Date.now());
+
+function normalizeBlockPolicy(v: any, query: string): BlockPolicy {
+  if (v?.mode === "latest") return { mode: "latest" };
+  if (v?.mode === "fixed" && typeof v.block === "string" && v.block.trim()) return { mode: "fixed", block: v.block.trim() };
+  return blockPolicyFromQuery(query);
+}
+
+function normalizeScenario(v: any): Scenario {
+  if (!v || typeof v !== "object" || typeof v.query !== "string") throw new Error("Scenario is missing its query");
+  if (v.kind !== "simulate" && v.kind !== "bundle") throw new Error(`Unknown scenario kind: ${String(v.kind)}`);
+  return {
+    id: str(v.id) || newId(),
+    kind: v.kind,
+    title: str(v.title, "Untitled scenario"),
+    notes: str(v.notes),
+    tags: Array.isArray(v.tags) ? normalizeTags(v.tags.filter((t: unknown) => typeof t === "string")) : [],
+    blockPolicy: normalizeBlockPolicy(v.blockPolicy, v.query),
+    query: v.query,
+    assertions: Array.isArray(v.assertions) ? v.assertions.map(normalizeAssertion) : [],
+    createdAt: time(v.createdAt),
+    updatedAt: time(v.updatedAt),
+  };
+}
+
+/** Invalid scenarios throw, or are handed to `onInvalidScenario` and left out when it is given */
+function normalizeProject(v: any, onInvalidScenario?: (raw: unknown) => void): Project {
+  if (!v || typeof v !== "object") throw new Error("Project must be an object");
+  const scenarios: Scenario[] = [];
+  for (const raw of Array.isArray(v.scenarios) ? v.scenarios : []) {
+    try {
+      scenarios.push(normalizeScenario(raw));
+    } catch (e) {
+      if (!onInvalidScenario) throw e;
+      onInvalidScenario(raw);
+    }
+  }
+  return {
+    id: str(v.id) || newId(),
+    name: str(v.name, "Untitled project"),
+    description: str(v.description),
+    scenarios,
+    createdAt: time(v.createdAt),
+    updatedAt: time(v.updatedAt),
+  };
+}
@@ -0,0 +1,244 @@
+// Proxy detection from chain state rather than explorer metadata: EIP-1967 implementation / beacon
+// slots, EIP-1822 (UUPS) PROXIABLE slot and EIP-1167 minimal-proxy bytecode, read over JSON-RPC at
+// the simulation's block. Upgrades done by the simulated tx itself are taken from its storageDiff.
+
+import { ChainConfig, getSelectedChain } from "@/lib/chains";
+import { AbiProvider, resolveAbi } from "@/lib/abiResolver";
+import { CallFrame, ContractRecord, SimulationResult, StorageDiff, hexToBigInt } from "@/lib/simulation";
+
+/* ----------------------------- Types ----------------------------- */
+export type ProxyKind = "eip1967" | "beacon" | "eip1822" | "eip1167";
+
+export const PROXY_KIND_LABEL: Record<ProxyKind, string> = {
+  eip1967: "EIP-1967",
+  beacon: "EIP-1967 beacon",
+  eip1822: "EIP-1822 (UUPS)",
+  eip1167: "EIP-1167 minimal proxy",
+};
+
+export type ProxyInfo = {
+  address: string;           // lowercase
+  kind: ProxyKind;
+  implementation: string;    // lowercase; after the simulated tx when it upgraded the proxy
+  beacon?: string;
+  admin?: string;
+  upgradedFrom?: string;     // implementation before the simulated tx
+};
+
+/** bytes32(uint256(keccak256("eip1967.proxy.<name>")) - 1), and keccak256("PROXIABLE") for EIP-1822 */
+export const PROXY_SLOTS = {
+  implementation: "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc",
+  admin: "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103",
+  beacon: "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50",
+  proxiable: "0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7",
+} as const;
+
+const BEACON_IMPLEMENTATION = "0x5c60da1b"; // implementation()
+// Detection runs after the backend has answered, so a slow RPC or explorer must not hold the result back
+const RPC_TIMEOUT_MS = 8_000;
+const ABI_TIMEOUT_MS = 10_000;
+const MINIMAL_PROXY_RE = /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/i;
+
+/* ----------------------------- Helpers ----------------------------- */
+/** Address in the low 20 bytes of a storage word / return value; undefined when zero */
+function wordToAddress(word?: string): string | undefined {
+  const n = hexToBigInt(word);
+  if (n === BigInt(0) || n >> BigInt(160) !== BigInt(0)) return undefined;
+  return "0x" + n.toString(16).padStart(40, "0");
+}
+
+export function minimalProxyTarget(code?: string): string | undefined {
+  const match = code?.match(MINIMAL_PROXY_RE);
+  return match ? ("0x" + match[1]).toLowerCase() : undefined;
+}
+
+/** Hex block tag; a missing or zero block means "latest" (throws on unparsable input) */
+function toBlockTag(block?: string | number): string {
+  if (block === undefined || block === "") return "latest";
+  const n = BigInt(block);
+  return n > BigInt(0) ? "0x" + n.toString(16) : "latest";
+}
+
+/** Runs `fn` with a signal that aborts on `signal` or after `ms` */
+async function withTimeout<T>(ms: number, signal: AbortSignal | undefined, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const ctrl = new AbortController();
+  const timer = setTimeout(() => ctrl.abort(), ms);
+  const onAbort = () => ctrl.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    return await fn(ctrl.signal);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+async function rpcBatch(rpcUrl: string, calls: { method: string; params: any[] }[], signal?: AbortSignal) {
+  const replies: any[] = await withTimeout(RPC_TIMEOUT_MS, signal, async (s) => {
+    const res = await fetch(rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(calls.map((c, id) => ({ jsonrpc: "2.0", id, ...c }))),
+      signal: s,
+    });
+    return res.json();
+  });
+  if (!Array.isArray(replies)) throw new Error("RPC batch requests are not supported");
+  return calls.map((_, id) => replies.find((r) => r?.id === id)?.result as string | undefined);
+}
+
+/* ----------------------------- Detection ----------------------------- */
+/**
+ * Read proxy slots and bytecode of each address at `block` (default latest). Only proxies are returned;
+ * an unreachable or slow RPC yields {} so callers keep the explorer's answer.
+ */
+export async function detectProxies(
+  addresses: string[],
+  opts: { rpcUrl?: string; block?: string | number; signal?: AbortSignal } = {}
+): Promise<Record<string, ProxyInfo>> {
+  const rpcUrl = opts.rpcUrl ?? getSelectedChain().rpcUrl;
+  const unique = Array.from(new Set(addresses.map((a) => a.toLowerCase())));
+  const out: Record<string, ProxyInfo> = {};
+  if (!rpcUrl || !unique.length) return out;
+
+  const slots = [PROXY_SLOTS.implementation, PROXY_SLOTS.beacon, PROXY_SLOTS.admin, PROXY_SLOTS.proxiable];
+  try {
+    const tag = toBlockTag(opts.block);
+    const replies = await rpcBatch(
+      rpcUrl,
+      unique.flatMap((address) => [
+        { method: "eth_getCode", params: [address, tag] },
+        ...slots.map((slot) => ({ method: "eth_getStorageAt", params: [address, slot, tag] })),
+      ]),
+      opts.signal
+    );
+
+    const beacons: ProxyInfo[] = [];
+    unique.forEach((address, i) => {
+      const [code, impl, beacon, admin, proxiable] = replies.slice(i * 5, i * 5 + 5);
+      const adminAddr = wordToAddress(admin);
+      const minimal = minimalProxyTarget(code);
+      if (wordToAddress(impl)) {
+        out[address] = { address, kind: "eip1967", implementation: wordToAddress(impl)!, admin: adminAddr };
+      } else if (wordToAddress(beacon)) {
+        beacons.push({ address, kind: "beacon", implementation: "", beacon: wordToAddress(beacon), admin: adminAddr });
+      } else if (wordToAddress(proxiable)) {
+        out[address] = { address, kind: "eip1822", implementation: wordToAddress(proxiable)! };
+      } else if (minimal) {
+        out[address] = { address, kind: "eip1167", implementation: minimal };
+      }
+    });
+
+    if (beacons.length) {
+      const impls = await rpcBatch(
+        rpcUrl,
+        beacons.map((p) => ({ method: "eth_call", params: [{ to: p.beacon, data: BEACON_IMPLEMENTATION }, tag] })),
+        opts.signal
+      );
+      beacons.forEach((p, i) => {
+        const implementation = wordToAddress(impls[i]);
+        if (implementation) out[p.address] = { ...p, implementation };
+      });
+    }
+  } catch (e) {
+    if (opts.signal?.aborted) throw e;
+    console.warn("Proxy detection failed:", e);
+  }
+  return out;
+}
+
+/** Implementation slots (EIP-1967 / EIP-1822) written by the tx: address -> { from, to } */
+export function proxyUpgradesFromDiff(storageDiff: StorageDiff): Record<string, { kind: ProxyKind; from?: string; to: string }> {
+  const out: Record<string, { kind: ProxyKind; from?: string; to: string }> = {};
+  const watched: [bigint, ProxyKind][] = [
+    [hexToBigInt(PROXY_SLOTS.implementation), "eip1967"],
+    [hexToBigInt(PROXY_SLOTS.proxiable), "eip1822"],
+  ];
+  for (const [address, slots] of Object.entries(storageDiff ?? {})) {
+    for (const [slot, change] of Object.entries(slots)) {
+      const kind = watched.find(([s]) => s === hexToBigInt(slot))?.[1];
+      const to = kind && wordToAddress(change.to);
+      if (kind && to) out[address.toLowerCase()] = { kind, from: wordToAddress(change.from), to };
+    }
+  }
+  return out;
+}
+
+function traceAddresses(frames: CallFrame[], out = new Set<string>()): Set<string> {
+  for (const f of frames) {
+    if (f.to) out.add(f.to.toLowerCase());
+    traceAddresses(f.calls ?? [], out);
+  }
+  return out;
+}
+
+/** Proxies among the contracts a simulation touched, as of its block and after its own upgrades */
+export async function detectSimulationProxies(
+  result: SimulationResult,
+  opts: { chain?: ChainConfig; block?: string | number; signal?: AbortSignal } = {}
+): Promise<Record<string, ProxyInfo>> {
+  const { transaction } = result;
+  const addresses = [...Array.from(traceAddresses(transaction.callTrace ?? [])), ...Object.keys(result.contracts)];
+  const proxies = await detectProxies(addresses, {
+    rpcUrl: (opts.chain ?? getSelectedChain()).rpcUrl,
+    block: opts.block ?? transaction.blockHeader?.number,
+    signal: opts.signal,
+  });
+
+  for (const [address, upgrade] of Object.entries(proxyUpgradesFromDiff(transaction.storageDiff))) {
+    const before = proxies[address];
+    proxies[address] = {
+      ...before,
+      address,
+      kind: before?.kind ?? upgrade.kind,
+      implementation: upgrade.to,
+      upgradedFrom: upgrade.from ?? before?.implementation,
+    };
+  }
+  return proxies;
+}
+
+/* ----------------------------- Applying ----------------------------- */
+/**
+ * Mark detected proxies in the contracts map (Proxy / Implementation / ProxyType) so the trace,
+ * event and storage decoders use the implementation's ABI. Implementations the backend didn't
+ * return are looked up with the ABI resolver.
+ */
+export async function withDetectedProxies(
+  result: SimulationResult,
+  opts: { chain?: ChainConfig; block?: string | number; signal?: AbortSignal; providers?: AbiProvider[] } = {}
+): Promise<SimulationResult> {
+  const chain = opts.chain ?? getSelectedChain();
+  const proxies = await detectSimulationProxies(result, { ...opts, chain });
+  if (!Object.keys(proxies).length) return result;
+
+  const contracts: Record<string, ContractRecord> = { ...result.contracts };
+  const keyOf = (addr: string) => Object.keys(contracts).find((k) => k.toLowerCase() === addr) ?? addr;
+
+  for (const proxy of Object.values(proxies)) {
+    const key = keyOf(proxy.address);
+    contracts[key] = {
+      ...contracts[key],
+      address: contracts[key]?.address ?? proxy.address,
+      Proxy: "1",
+      Implementation: proxy.implementation,
+      ProxyType: proxy.kind,
+      PreviousImplementation: proxy.upgradedFrom,
+    };
+
+    const implKey = keyOf(proxy.implementation);
+    if (contracts[implKey]?.ABI && !String(contracts[implKey].ABI).startsWith("Contract source code not verified")) continue;
+    const resolved = await withTimeout(ABI_TIMEOUT_MS, opts.signal, (signal) =>
+      resolveAbi(proxy.implementation, { chain, providers: opts.providers, signal })
+    ).catch(() => null);
+    if (resolved) {
+      contracts[implKey] = {
+        ...contracts[implKey],
+        address: proxy.implementation,
+        ABI: resolved.abi,
+        ContractName: contracts[implKey]?.ContractName || resolved.name,
+      };
+    }
+  }
+  return { ...result, contracts };
+}
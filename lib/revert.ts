@@ -0,0 +1,159 @@
+// Revert data decoding: Error(string), Panic(uint256) and ABI custom errors
+
+import { AbiCoder, Interface } from "ethers";
+import { SignatureRegistry, guessError } from "@/lib/signatures";
+import type { DecodedNode } from "@/utils/decodeCallTrace";
+
+/* ----------------------------- Types ----------------------------- */
+export type DecodedRevert = {
+  kind: "reason" | "panic" | "custom" | "unknown" | "empty";
+  message: string;        // one-line, human readable
+  name?: string;          // "Error", "Panic" or the custom error name
+  signature?: string;     // e.g. InsufficientBalance(uint256,uint256)
+  args?: any[];           // JSON-safe
+  panicCode?: number;
+  guessed?: boolean;      // custom error matched via the signature registry, not an ABI
+  data: string;           // raw revert bytes
+};
+
+/* ----------------------------- Panic codes ----------------------------- */
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+/** Solidity panic codes (https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require) */
+export const PANIC_CODES: Record<number, string> = {
+  0x00: "generic compiler panic",
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "incorrectly encoded storage byte array",
+  0x31: "pop() on an empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory (allocation too large)",
+  0x51: "call to an uninitialized internal function",
+};
+
+export const describePanic = (code: number) =>
+  PANIC_CODES[code] ?? `unknown panic code 0x${code.toString(16)}`;
+
+function jsonSafe(v: any): any {
+  if (typeof v === "bigint") return v.toString();
+  if (Array.isArray(v)) return v.map(jsonSafe);
+  return v;
+}
+
+const formatArgs = (args: any[]) => args.map((a) => (typeof a === "string" ? a : JSON.stringify(a))).join(", ");
+
+/* ----------------------------- Decoding ----------------------------- */
+/**
+ * Decode revert bytes. Custom errors are looked up in `interfaces` in order (put the failing
+ * contract's ABI first), then in the signature registry.
+ */
+export function decodeRevertData(
+  data: string | undefined,
+  interfaces: Interface[] = [],
+  registry?: SignatureRegistry
+): DecodedRevert {
+  const raw = (data ?? "0x").toLowerCase();
+  if (raw === "0x" || raw.length < 10) {
+    return { kind: "empty", message: "reverted without data", data: raw };
+  }
+
+  const selector = raw.slice(0, 10);
+  const body = "0x" + raw.slice(10);
+  const coder = AbiCoder.defaultAbiCoder();
+
+  if (selector === ERROR_STRING_SELECTOR) {
+    try {
+      const [reason] = coder.decode(["string"], body);
+      return { kind: "reason", message: reason, name: "Error", signature: "Error(string)", args: [reason], data: raw };
+    } catch {
+      // malformed, fall through
+    }
+  }
+
+  if (selector === PANIC_SELECTOR) {
+    try {
+      const [code] = coder.decode(["uint256"], body);
+      const panicCode = Number(code);
+      return {
+        kind: "panic",
+        message: `Panic(0x${panicCode.toString(16).padStart(2, "0")}): ${describePanic(panicCode)}`,
+        name: "Panic",
+        signature: "Panic(uint256)",
+        args: [code.toString()],
+        panicCode,
+        data: raw,
+      };
+    } catch {
+      // malformed, fall through
+    }
+  }
+
+  for (const iface of interfaces) {
+    try {
+      const parsed = iface.parseError(raw);
+      if (!parsed) continue;
+      const args = jsonSafe(Array.from(parsed.args));
+      return {
+        kind: "custom",
+        message: `${parsed.name}(${formatArgs(args)})`,
+        name: parsed.name,
+        signature: parsed.signature,
+        args,
+        data: raw,
+      };
+    } catch {
+      // try next
+    }
+  }
+
+  const guess = guessError(raw, registry);
+  if (guess) {
+    const args = jsonSafe(guess.args);
+    return {
+      kind: "custom",
+      message: `${guess.fragment.name}(${formatArgs(args)})`,
+      name: guess.fragment.name,
+      signature: guess.signature,
+      args,
+      guessed: true,
+      data: raw,
+    };
+  }
+
+  return { kind: "unknown", message: `unknown error ${selector}`, data: raw };
+}
+
+/* ----------------------------- Revert origin ----------------------------- */
+/**
+ * Find the frame that originated the first revert, as a child-index path from the root
+ * ([] = the root itself). From the first failing frame (depth-first), follow failing children
+ * down; a failing frame bubbles up its *last* failing child, earlier ones were caught.
+ */
+export function findRevertOrigin(root: DecodedNode | null): { node: DecodedNode; path: number[] } | null {
+  if (!root) return null;
+
+  const failed = (n: DecodedNode) => !!n.error;
+
+  const origin = (n: DecodedNode, path: number[]): { node: DecodedNode; path: number[] } => {
+    const children = n.children ?? [];
+    for (let i = children.length - 1; i >= 0; i--) {
+      if (failed(children[i])) return origin(children[i], [...path, i]);
+    }
+    return { node: n, path };
+  };
+
+  const firstRevert = (n: DecodedNode, path: number[]): { node: DecodedNode; path: number[] } | null => {
+    if (failed(n)) return origin(n, path);
+    const children = n.children ?? [];
+    for (let i = 0; i < children.length; i++) {
+      const found = firstRevert(children[i], [...path, i]);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  return firstRevert(root, []);
+}
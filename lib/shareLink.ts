@@ -0,0 +1,168 @@
+// Compact share links: the simulator/bundle query, deflated and base64url-encoded into the URL fragment
+
+import { id as keccakId } from "ethers";
+
+/* ----------------------------- Format ----------------------------- */
+/**
+ * Fragment forms:
+ *   #s=<version>.<base64url(deflate-raw(JSON payload))>   self-contained link
+ *   #id=<shortId>                                          payload kept in this browser's localStorage
+ * Links from before share links carry the same state as plain query params (version 1).
+ */
+export const SHARE_VERSION = 2;
+
+export type ShareKind = "simulate" | "bundle";
+
+export type SharePayload = {
+  v: typeof SHARE_VERSION;
+  kind: ShareKind;
+  params: Record<string, string>;   // serializeToQuery / serializeBundleToQuery params
+};
+
+/** Longest URL we hand out; chat tools and some proxies truncate beyond a few thousand characters */
+export const MAX_SHARE_URL_LENGTH = 4000;
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareLinkError";
+  }
+}
+
+/* ----------------------------- Migrations ----------------------------- */
+/**
+ * Payload of any known version -> current. v1 is a legacy link's plain query string;
+ * add a step here whenever SharePayload changes shape.
+ */
+function migrate(version: number, raw: unknown, kind: ShareKind): SharePayload {
+  let payload: any = raw;
+  if (version === 1) {
+    payload = { v: 2, kind, params: Object.fromEntries(new URLSearchParams(String(raw))) };
+    version = 2;
+  }
+  if (version !== SHARE_VERSION) throw new ShareLinkError(`Unsupported share link version ${version}`);
+  if (!payload || typeof payload !== "object" || typeof payload.params !== "object" || !payload.params) {
+    throw new ShareLinkError("Share link payload is malformed");
+  }
+  if (payload.kind !== "simulate" && payload.kind !== "bundle") {
+    throw new ShareLinkError(`Unknown share link kind: ${String(payload.kind)}`);
+  }
+  const params: Record<string, string> = {};
+  for (const [k, v] of Object.entries(payload.params)) if (typeof v === "string") params[k] = v;
+  return { v: SHARE_VERSION, kind: payload.kind, params };
+}
+
+/* ----------------------------- Compression ----------------------------- */
+async function pipe(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const out = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const b64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+/* ----------------------------- Encode ----------------------------- */
+export async function encodeSharePayload(kind: ShareKind, query: string): Promise<string> {
+  const payload: SharePayload = { v: SHARE_VERSION, kind, params: Object.fromEntries(new URLSearchParams(query)) };
+  const packed = await pipe(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream("deflate-raw"));
+  return `s=${SHARE_VERSION}.${toBase64Url(packed)}`;
+}
+
+export type ShareLink = { url: string; stored: boolean };
+
+/**
+ * Share URL for `pathname` (builder or view page). Falls back to a short id backed by
+ * localStorage when even the compressed link is longer than MAX_SHARE_URL_LENGTH;
+ * `stored` tells the caller the link only opens in this browser.
+ */
+export async function createShareLink(kind: ShareKind, query: string, origin: string, pathname: string): Promise<ShareLink> {
+  const url = `${origin}${pathname}#${await encodeSharePayload(kind, query)}`;
+  if (url.length <= MAX_SHARE_URL_LENGTH) return { url, stored: false };
+  return { url: `${origin}${pathname}#id=${storeSharedScenario(kind, query)}`, stored: true };
+}
+
+/* ----------------------------- Short ids ----------------------------- */
+const STORAGE_KEY = "illusio.sharedScenarios";
+
+type StoredShare = { kind: ShareKind; query: string; createdAt: number };
+
+function loadStoredShares(): Record<string, StoredShare> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+/** Content-addressed, so sharing the same state twice reuses the id */
+function storeSharedScenario(kind: ShareKind, query: string): string {
+  const shortId = keccakId(`${kind}:${query}`).slice(2, 12);
+  const stored = loadStoredShares();
+  stored[shortId] ??= { kind, query, createdAt: Date.now() };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  return shortId;
+}
+
+/* ----------------------------- Decode ----------------------------- */
+/**
+ * Decode a URL fragment (with or without "#") for a `kind` page. Resolves to null when the
+ * fragment is not a share link, so callers fall back to the query string (version 1 links).
+ */
+export async function decodeShareFragment(hash: string, kind: ShareKind): Promise<SharePayload | null> {
+  const fragment = new URLSearchParams(hash.replace(/^#/, ""));
+
+  const shortId = fragment.get("id");
+  if (shortId) {
+    const stored = typeof localStorage !== "undefined" ? loadStoredShares()[shortId] : undefined;
+    if (!stored) {
+      throw new ShareLinkError(
+        `Shared scenario ${shortId} was saved in another browser. Ask for a project export (Projects → Export) instead.`
+      );
+    }
+    return checkKind(migrate(1, stored.query, stored.kind), kind);
+  }
+
+  const encoded = fragment.get("s");
+  if (!encoded) return null;
+  const dot = encoded.indexOf(".");
+  const version = Number(encoded.slice(0, dot));
+  if (dot < 0 || !Number.isInteger(version)) throw new ShareLinkError("Share link is malformed");
+
+  let json: unknown;
+  try {
+    const bytes = await pipe(fromBase64Url(encoded.slice(dot + 1)), new DecompressionStream("deflate-raw"));
+    json = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new ShareLinkError("Share link is corrupted or truncated");
+  }
+  return checkKind(migrate(version, json, kind), kind);
+}
+
+function checkKind(payload: SharePayload, kind: ShareKind): SharePayload {
+  if (payload.kind !== kind) {
+    throw new ShareLinkError(`This link is for the ${payload.kind === "bundle" ? "Advance Simulator" : "Simulator"}`);
+  }
+  return payload;
+}
+
+export const sharePayloadToQuery = (payload: SharePayload) => new URLSearchParams(payload.params).toString();
+
+/**
+ * If the current URL carries a share fragment, rewrite it in place to the equivalent
+ * plain query string, so the page (and anything reading location.search) sees a normal link.
+ */
+export async function expandShareLink(kind: ShareKind): Promise<SharePayload | null> {
+  const payload = await decodeShareFragment(window.location.hash, kind);
+  if (!payload) return null;
+  window.history.replaceState(null, "", `${window.location.pathname}?${sharePayloadToQuery(payload)}`);
+  return payload;
+}
@@ -0,0 +1,282 @@
+// Local signature registry (4byte.directory style): function selectors, event topic0s, custom error selectors
+
+import { Interface, Fragment, EventFragment, FunctionFragment, ErrorFragment, id } from "ethers";
+import bundled from "@/lib/signatures.json";
+import type { RawEventLog, DecodedEvent } from "@/lib/eventDecoder";
+
+/* ----------------------------- Types ----------------------------- */
+export type SignatureKind = "function" | "event" | "error";
+
+/** hex (selector or topic0) → text signatures, e.g. "0xa9059cbb" → ["transfer(address,uint256)"] */
+export type SignatureMap = Record<string, string[]>;
+
+export type SignatureDump = {
+  functions?: SignatureMap;
+  events?: SignatureMap;
+  errors?: SignatureMap;
+};
+
+export interface SignatureRegistry {
+  lookup(kind: SignatureKind, hash: string): string[];
+  /** Add text signatures ("transfer(address,uint256)"); hashes are computed. Returns how many were new */
+  add(kind: SignatureKind, signatures: string[]): number;
+  /** Merge a dump: {hex: [sig]} maps, or a 4byte.directory API page ({results: [{hex_signature, text_signature}]}) */
+  merge(kind: SignatureKind, dump: unknown): number;
+  entries(kind: SignatureKind): SignatureMap;
+}
+
+/** A decode that only succeeded against a registry signature, not a verified ABI */
+export type SignatureGuess<F> = {
+  signature: string;
+  fragment: F;
+  args: any[];
+  candidates: string[]; // every registry signature for this hash
+};
+
+/* ----------------------------- Registry ----------------------------- */
+const DUMP_FIELD = { function: "functions", event: "events", error: "errors" } as const;
+
+const hashLength = (kind: SignatureKind) => (kind === "event" ? 66 : 10);
+
+export const signatureHash = (kind: SignatureKind, signature: string) =>
+  id(signature).slice(0, hashLength(kind));
+
+/** Canonical text for hashing: "event Foo(uint256 indexed a)" → "Foo(uint256)"; null when it doesn't parse */
+const canonical = (kind: SignatureKind, signature: string): string | null => {
+  const body = signature.trim().replace(/^(function|event|error)\s+/, "");
+  if (!body) return null;
+  try {
+    return Fragment.from(`${kind} ${body}`).format("sighash");
+  } catch {
+    return null;
+  }
+};
+
+export function createSignatureRegistry(...dumps: SignatureDump[]): SignatureRegistry {
+  const maps: Record<SignatureKind, Map<string, string[]>> = {
+    function: new Map(),
+    event: new Map(),
+    error: new Map(),
+  };
+
+  const put = (kind: SignatureKind, hash: string, signature: string): boolean => {
+    const key = hash.toLowerCase();
+    const list = maps[kind].get(key) ?? [];
+    if (list.includes(signature)) return false;
+    maps[kind].set(key, [...list, signature]);
+    return true;
+  };
+
+  const registry: SignatureRegistry = {
+    lookup(kind, hash) {
+      return maps[kind].get((hash || "").toLowerCase().slice(0, hashLength(kind))) ?? [];
+    },
+    add(kind, signatures) {
+      let added = 0;
+      for (const raw of signatures) {
+        const sig = canonical(kind, raw);
+        if (!sig) continue;
+        if (put(kind, signatureHash(kind, sig), sig)) added++;
+      }
+      return added;
+    },
+    merge(kind, dump) {
+      let added = 0;
+      const results = (dump as any)?.results;
+      if (Array.isArray(results)) {
+        for (const r of results) {
+          if (typeof r?.hex_signature === "string" && typeof r?.text_signature === "string") {
+            if (put(kind, r.hex_signature, r.text_signature)) added++;
+          }
+        }
+        return added;
+      }
+      if (dump && typeof dump === "object") {
+        for (const [hash, sigs] of Object.entries(dump as Record<string, unknown>)) {
+          // 4byte dumps sometimes join collisions with ";"
+          const list = Array.isArray(sigs) ? sigs : typeof sigs === "string" ? sigs.split(";") : [];
+          for (const s of list) if (typeof s === "string" && s && put(kind, hash, s)) added++;
+        }
+      }
+      return added;
+    },
+    entries(kind) {
+      return Object.fromEntries(maps[kind]);
+    },
+  };
+
+  for (const d of dumps) {
+    for (const kind of ["function", "event", "error"] as const) {
+      const map = d[DUMP_FIELD[kind]];
+      if (map) registry.merge(kind, map);
+    }
+  }
+  return registry;
+}
+
+/* ----------------------------- User signatures ----------------------------- */
+const USER_STORAGE_KEY = "illusio.signatures";
+
+export function loadUserSignatures(): SignatureDump {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(localStorage.getItem(USER_STORAGE_KEY) || "{}") as SignatureDump;
+  } catch {
+    return {};
+  }
+}
+
+/** Apply `update` to the user's stored signatures of one kind, persist, and refresh the default registry */
+function updateUserSignatures(kind: SignatureKind, update: (user: SignatureRegistry) => number): number {
+  const stored = loadUserSignatures();
+  const field = DUMP_FIELD[kind];
+  const user = createSignatureRegistry({ [field]: stored[field] ?? {} });
+  const added = update(user);
+  if (!added) return 0;
+  localStorage.setItem(USER_STORAGE_KEY, JSON.stringify({ ...stored, [field]: user.entries(kind) }));
+  defaultRegistry = null;
+  return added;
+}
+
+/** Persist text signatures added by the user (also picked up by getSignatureRegistry) */
+export const addUserSignatures = (kind: SignatureKind, signatures: string[]) =>
+  updateUserSignatures(kind, (user) => user.add(kind, signatures));
+
+/** Persist a pasted 4byte dump (see SignatureRegistry.merge) */
+export const importUserSignatures = (kind: SignatureKind, dump: unknown) =>
+  updateUserSignatures(kind, (user) => user.merge(kind, dump));
+
+export function clearUserSignatures() {
+  localStorage.removeItem(USER_STORAGE_KEY);
+  defaultRegistry = null;
+}
+
+/* ----------------------------- Default instance ----------------------------- */
+let defaultRegistry: SignatureRegistry | null = null;
+
+/** Bundled dump (lib/signatures.json) plus whatever the user added in this browser */
+export function getSignatureRegistry(): SignatureRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = createSignatureRegistry(bundled as SignatureDump, loadUserSignatures());
+  }
+  return defaultRegistry;
+}
+
+/* ----------------------------- Guessing ----------------------------- */
+/**
+ * Decode calldata against every registry signature for its selector. Candidates whose
+ * re-encoding reproduces the calldata exactly win over ones that merely decode.
+ */
+export function guessFunction(
+  data: string,
+  registry: SignatureRegistry = getSignatureRegistry()
+): SignatureGuess<FunctionFragment> | null {
+  if (!data || data.length < 10) return null;
+  const candidates = registry.lookup("function", data.slice(0, 10));
+  let loose: SignatureGuess<FunctionFragment> | null = null;
+
+  for (const signature of candidates) {
+    try {
+      const iface = new Interface([`function ${signature}`]);
+      const fragment = iface.fragments[0] as FunctionFragment;
+      const args = iface.decodeFunctionData(fragment, data);
+      const guess = { signature, fragment, args: Array.from(args), candidates };
+      if (iface.encodeFunctionData(fragment, args).toLowerCase() === data.toLowerCase()) return guess;
+      loose ??= guess;
+    } catch {
+      // not this one
+    }
+  }
+  return loose;
+}
+
+/** Same as guessFunction for revert data (custom error selectors) */
+export function guessError(
+  data: string,
+  registry: SignatureRegistry = getSignatureRegistry()
+): SignatureGuess<ErrorFragment> | null {
+  if (!data || data.length < 10) return null;
+  const candidates = registry.lookup("error", data.slice(0, 10));
+  let loose: SignatureGuess<ErrorFragment> | null = null;
+
+  for (const signature of candidates) {
+    try {
+      const iface = new Interface([`error ${signature}`]);
+      const fragment = iface.fragments[0] as ErrorFragment;
+      const args = iface.decodeErrorResult(fragment, data);
+      const guess = { signature, fragment, args: Array.from(args), candidates };
+      if (iface.encodeErrorResult(fragment, args).toLowerCase() === data.toLowerCase()) return guess;
+      loose ??= guess;
+    } catch {
+      // not this one
+    }
+  }
+  return loose;
+}
+
+function jsonSafe(v: any): any {
+  if (typeof v === "bigint") return v.toString();
+  if (Array.isArray(v)) return v.map(jsonSafe);
+  return v;
+}
+
+/** Every way to mark `k` of `n` params as indexed, in lexicographic order (first params indexed first) */
+function indexedLayouts(n: number, k: number): number[][] {
+  const out: number[][] = [];
+  const walk = (start: number, picked: number[]) => {
+    if (out.length >= 64) return; // plenty for real events; bounds pathological signatures
+    if (picked.length === k) return void out.push(picked);
+    for (let i = start; i < n; i++) walk(i + 1, [...picked, i]);
+  };
+  walk(0, []);
+  return out;
+}
+
+/**
+ * Decode a log against registry event signatures. Text signatures don't say which params are
+ * indexed, so every layout matching the topic count is tried.
+ */
+export function guessEvent(
+  log: RawEventLog,
+  registry: SignatureRegistry = getSignatureRegistry()
+): (DecodedEvent & { candidates: string[] }) | null {
+  const topic0 = log.topics?.[0]?.toLowerCase();
+  if (!topic0) return null;
+  const candidates = registry.lookup("event", topic0);
+  const indexedCount = log.topics.length - 1;
+
+  for (const signature of candidates) {
+    let base: EventFragment;
+    try {
+      base = EventFragment.from(`event ${signature}`);
+    } catch {
+      continue;
+    }
+    if (indexedCount > base.inputs.length) continue;
+
+    for (const layout of indexedLayouts(base.inputs.length, indexedCount)) {
+      const params = base.inputs.map(
+        (p, i) => `${p.format("full")}${layout.includes(i) ? " indexed" : ""} arg${i}`
+      );
+      try {
+        const iface = new Interface([`event ${base.name}(${params.join(", ")})`]);
+        const fragment = iface.fragments[0] as EventFragment;
+        const args = iface.decodeEventLog(fragment, log.data, log.topics);
+        return {
+          name: base.name,
+          signature,
+          argNames: fragment.inputs.map((_, i) => `arg${i}`),
+          argValues: Array.from(args).map(jsonSafe),
+          address: log.address,
+          index: log.index,
+          topic0,
+          guessed: true,
+          candidates,
+        };
+      } catch {
+        // wrong layout
+      }
+    }
+  }
+  return null;
+}
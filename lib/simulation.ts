@@ -0,0 +1,400 @@
+// Typed model for backend simulation payloads (/api/simulate, /api/bundle/simulate, /api/trace/tx)
+
+import { TraceDecoderManual, DecodedNode, LocalContractRecord, RawCall } from "@/utils/decodeCallTrace";
+
+/* ----------------------------- Types ----------------------------- */
+export type Hex = string; // 0x-prefixed, as returned by the backend
+
+export interface EventLog {
+  index?: number;
+  address: string;
+  topics: Hex[];
+  data: Hex;
+}
+
+export interface CallFrame {
+  from: string;
+  to: string;
+  input: Hex;
+  output?: Hex;
+  gas?: Hex;
+  gasUsed?: Hex;
+  value?: Hex;
+  type?: string;          // CALL | STATICCALL | DELEGATECALL | CREATE ...
+  error?: string;
+  revertReason?: string;
+  logs: EventLog[];       // logs emitted directly by this frame
+  calls: CallFrame[];     // child frames
+}
+
+export interface BlockHeader {
+  number?: string;
+  hash?: Hex;
+  baseFeePerGas?: Hex;
+  blobGasUsed?: Hex;
+  difficulty?: Hex;
+  excessBlobGas?: Hex;
+  extraData?: Hex;
+  gasLimit?: Hex;
+  gasUsed?: Hex;
+  logsBloom?: Hex;
+  miner?: string;
+  nonce?: Hex;
+  size?: Hex;
+  stateRoot?: Hex;
+  timestamp?: Hex;
+}
+
+export interface StateChange {
+  from: Hex;
+  to: Hex;
+}
+
+export type BalanceDiff = Record<string, StateChange>;                  // address -> balance change
+export type StorageDiff = Record<string, Record<string, StateChange>>;  // address -> slot -> change
+
+export interface ContractRecord {
+  address: string;
+  SourceCode?: string;
+  ABI?: string | any[];   // JSON string, or "Contract source code not verified"
+  ContractName?: string;
+  CompilerVersion?: string;
+  CompilerType?: string;
+  OptimizationUsed?: boolean;
+  Runs?: string | number;
+  ConstructorArguments?: string;
+  EVMVersion?: string;
+  Library?: string;
+  ContractFileName?: string;
+  LicenseType?: string;
+  Proxy?: string;
+  Implementation?: string;
+  ProxyType?: string;              // set by on-chain detection (lib/proxyDetection.ts)
+  PreviousImplementation?: string; // implementation before the simulated tx upgraded the proxy
+  SwarmSource?: string;
+  SimilarMatch?: string;
+  DeployedBytecode?: Hex;      // optional compiler output, enables exact revert locations (lib/sourceMap.ts)
+  DeployedSourceMap?: string;
+  StorageLayout?: unknown;     // solc storageLayout (object or JSON string), see lib/storageLayout.ts
+}
+
+export interface AccessListEntry {
+  address: string;
+  storageKeys: Hex[];
+}
+
+export interface SimulatedTransaction {
+  from: string;
+  to: string;
+  input: Hex;
+  value: Hex;
+  gas: Hex;
+  gasPrice: Hex;
+  output: Hex;
+  timestamp?: Hex;
+  blockHeader: BlockHeader;
+  callTrace: CallFrame[];
+  balanceDiff: BalanceDiff;
+  storageDiff: StorageDiff;
+  events: EventLog[];     // every log of the tx, in emission order where the backend provides index
+}
+
+export interface SimulationResult {
+  transaction: SimulatedTransaction;
+  contracts: Record<string, ContractRecord>;
+  generated_access_list: AccessListEntry[];
+}
+
+export interface BundleSimulationResult {
+  results: SimulationResult[];
+}
+
+/** One EVM step, geth struct-logger format (debug_traceCall) */
+export interface StructLog {
+  pc: number;
+  op: string;
+  gas: number;
+  gasCost: number;
+  depth: number;                    // 1 = top-level call
+  stack: Hex[];                     // bottom → top
+  memory: string[];                 // 32-byte words, no 0x
+  storage: Record<string, string>;  // slots touched so far in the current contract
+  error?: string;
+}
+
+export interface DebugTrace {
+  gas: number;
+  failed: boolean;
+  returnValue: string;
+  structLogs: StructLog[];
+}
+
+/* ----------------------------- Errors ----------------------------- */
+export class MalformedResponseError extends Error {
+  constructor(public readonly path: string, detail: string) {
+    super(`Malformed response: ${path} ${detail}`);
+    this.name = "MalformedResponseError";
+  }
+}
+
+/* ----------------------------- Normalizers ----------------------------- */
+const isObject = (x: unknown): x is Record<string, any> =>
+  typeof x === "object" && x !== null && !Array.isArray(x);
+
+const describe = (x: unknown) =>
+  x === null ? "null" : Array.isArray(x) ? "array" : typeof x;
+
+function expectObject(x: unknown, path: string): Record<string, any> {
+  if (!isObject(x)) throw new MalformedResponseError(path, `must be an object, got ${describe(x)}`);
+  return x;
+}
+
+/** Arrays are optional on the wire; absent → [], anything else non-array is an error */
+function optArray(x: unknown, path: string): any[] {
+  if (x === undefined || x === null) return [];
+  if (!Array.isArray(x)) throw new MalformedResponseError(path, `must be an array, got ${describe(x)}`);
+  return x;
+}
+
+function optRecord(x: unknown, path: string): Record<string, any> {
+  if (x === undefined || x === null) return {};
+  return expectObject(x, path);
+}
+
+/** Accepts strings, numbers and bigints; numbers are rendered as 0x hex */
+function optHex(x: unknown, path: string): Hex | undefined {
+  if (x === undefined || x === null || x === "") return undefined;
+  if (typeof x === "string") return x;
+  if (typeof x === "number" && Number.isFinite(x)) return "0x" + Math.trunc(x).toString(16);
+  if (typeof x === "bigint") return "0x" + x.toString(16);
+  throw new MalformedResponseError(path, `must be a hex string, got ${describe(x)}`);
+}
+
+function optString(x: unknown, path: string): string | undefined {
+  if (x === undefined || x === null) return undefined;
+  if (typeof x !== "string") throw new MalformedResponseError(path, `must be a string, got ${describe(x)}`);
+  return x;
+}
+
+function normalizeLog(x: unknown, path: string): EventLog {
+  const o = expectObject(x, path);
+  return {
+    index: typeof o.index === "number" ? o.index : undefined,
+    address: optString(o.address, `${path}.address`) ?? "",
+    topics: optArray(o.topics, `${path}.topics`).map((t, i) => optHex(t, `${path}.topics[${i}]`) ?? "0x"),
+    data: optHex(o.data, `${path}.data`) ?? "0x",
+  };
+}
+
+function normalizeFrame(x: unknown, path: string): CallFrame {
+  const o = expectObject(x, path);
+  return {
+    from: optString(o.from, `${path}.from`) ?? "",
+    to: optString(o.to, `${path}.to`) ?? "",
+    input: optHex(o.input, `${path}.input`) ?? "0x",
+    output: optHex(o.output, `${path}.output`),
+    gas: optHex(o.gas, `${path}.gas`),
+    gasUsed: optHex(o.gasUsed ?? o.gas_used, `${path}.gasUsed`),
+    value: optHex(o.value, `${path}.value`),
+    type: optString(o.type, `${path}.type`),
+    error: optString(o.error, `${path}.error`) || undefined,
+    revertReason: optString(o.revertReason, `${path}.revertReason`) || undefined,
+    logs: optArray(o.logs, `${path}.logs`).map((l, i) => normalizeLog(l, `${path}.logs[${i}]`)),
+    calls: optArray(o.calls, `${path}.calls`).map((c, i) => normalizeFrame(c, `${path}.calls[${i}]`)),
+  };
+}
+
+function normalizeChange(x: unknown, path: string): StateChange {
+  const o = expectObject(x, path);
+  return {
+    from: optHex(o.from, `${path}.from`) ?? "0x0",
+    to: optHex(o.to, `${path}.to`) ?? "0x0",
+  };
+}
+
+const BLOCK_HEADER_FIELDS: (keyof BlockHeader)[] = [
+  "number", "hash", "baseFeePerGas", "blobGasUsed", "difficulty", "excessBlobGas", "extraData",
+  "gasLimit", "gasUsed", "logsBloom", "miner", "nonce", "size", "stateRoot", "timestamp",
+];
+
+/** Declared fields only; anything else the backend adds (uncles, withdrawals, ...) is dropped */
+function normalizeBlockHeader(x: unknown, path: string): BlockHeader {
+  const o = optRecord(x, path);
+  const out: BlockHeader = {};
+  for (const k of BLOCK_HEADER_FIELDS) {
+    const v = optHex(o[k], `${path}.${k}`);
+    if (v !== undefined) out[k] = v;
+  }
+  return out;
+}
+
+function normalizeTransaction(x: unknown, path: string): SimulatedTransaction {
+  const o = expectObject(x, path);
+
+  const balanceDiff: BalanceDiff = {};
+  for (const [addr, change] of Object.entries(optRecord(o.balanceDiff, `${path}.balanceDiff`))) {
+    balanceDiff[addr] = normalizeChange(change, `${path}.balanceDiff.${addr}`);
+  }
+
+  const storageDiff: StorageDiff = {};
+  for (const [addr, slots] of Object.entries(optRecord(o.storageDiff, `${path}.storageDiff`))) {
+    storageDiff[addr] = {};
+    for (const [slot, change] of Object.entries(expectObject(slots, `${path}.storageDiff.${addr}`))) {
+      storageDiff[addr][slot] = normalizeChange(change, `${path}.storageDiff.${addr}.${slot}`);
+    }
+  }
+
+  return {
+    from: optString(o.from, `${path}.from`) ?? "",
+    to: optString(o.to, `${path}.to`) ?? "",
+    input: optHex(o.input, `${path}.input`) ?? "0x",
+    value: optHex(o.value, `${path}.value`) ?? "0x0",
+    gas: optHex(o.gas, `${path}.gas`) ?? "0x0",
+    gasPrice: optHex(o.gasPrice, `${path}.gasPrice`) ?? "0x0",
+    output: optHex(o.output, `${path}.output`) ?? "0x",
+    timestamp: optHex(o.timestamp, `${path}.timestamp`),
+    blockHeader: normalizeBlockHeader(o.blockHeader, `${path}.blockHeader`),
+    callTrace: optArray(o.callTrace, `${path}.callTrace`).map((c, i) => normalizeFrame(c, `${path}.callTrace[${i}]`)),
+    balanceDiff,
+    storageDiff,
+    events: optArray(o.events ?? o.logs, `${path}.events`).map((l, i) => normalizeLog(l, `${path}.events[${i}]`)),
+  };
+}
+
+function normalizeContracts(x: unknown, path: string): Record<string, ContractRecord> {
+  const out: Record<string, ContractRecord> = {};
+  for (const [addr, rec] of Object.entries(optRecord(x, path))) {
+    const o = expectObject(rec, `${path}.${addr}`);
+    out[addr] = { ...o, address: optString(o.address, `${path}.${addr}.address`) || addr };
+  }
+  return out;
+}
+
+function normalizeAccessList(x: unknown, path: string): AccessListEntry[] {
+  return optArray(x, path).map((e, i) => {
+    const o = expectObject(e, `${path}[${i}]`);
+    return {
+      address: optString(o.address, `${path}[${i}].address`) ?? "",
+      storageKeys: optArray(o.storageKeys, `${path}[${i}].storageKeys`).map(String),
+    };
+  });
+}
+
+/**
+ * Validate and normalize a single simulation/trace payload.
+ * Optional collections are defaulted (callTrace, diffs, events, contracts), so consumers
+ * never have to guard for absence; wrong types throw MalformedResponseError naming the field.
+ */
+export function parseSimulationResult(data: unknown, path = "response"): SimulationResult {
+  const o = expectObject(data, path);
+  return {
+    transaction: normalizeTransaction(o.transaction, `${path}.transaction`),
+    contracts: normalizeContracts(o.contracts, `${path}.contracts`),
+    generated_access_list: normalizeAccessList(o.generated_access_list, `${path}.generated_access_list`),
+  };
+}
+
+/** Validate and normalize a bundle payload: { results: SimulationResult[] } */
+export function parseBundleSimulationResult(data: unknown): BundleSimulationResult {
+  const o = expectObject(data, "response");
+  if (!Array.isArray(o.results)) {
+    throw new MalformedResponseError("response.results", "is missing or not an array");
+  }
+  return {
+    results: o.results.map((r: unknown, i: number) => parseSimulationResult(r, `response.results[${i}]`)),
+  };
+}
+
+const optNumber = (x: unknown, path: string): number => {
+  if (x === undefined || x === null) return 0;
+  if (typeof x === "number") return x;
+  if (typeof x === "string" && x.trim() !== "" && Number.isFinite(Number(x))) return Number(x);
+  throw new MalformedResponseError(path, `must be a number, got ${describe(x)}`);
+};
+
+function normalizeStructLog(x: unknown, path: string): StructLog {
+  const o = expectObject(x, path);
+  const storage: Record<string, string> = {};
+  for (const [slot, value] of Object.entries(optRecord(o.storage, `${path}.storage`))) {
+    storage[slot] = String(value);
+  }
+  return {
+    pc: optNumber(o.pc, `${path}.pc`),
+    op: optString(o.op, `${path}.op`) ?? "",
+    gas: optNumber(o.gas, `${path}.gas`),
+    gasCost: optNumber(o.gasCost, `${path}.gasCost`),
+    depth: optNumber(o.depth, `${path}.depth`),
+    stack: optArray(o.stack, `${path}.stack`).map((v, i) => optHex(v, `${path}.stack[${i}]`) ?? "0x0"),
+    memory: optArray(o.memory, `${path}.memory`).map(String),
+    storage,
+    error: optString(o.error, `${path}.error`) || undefined,
+  };
+}
+
+/** Validate and normalize a struct-log trace; accepts a bare result or a JSON-RPC envelope */
+export function parseDebugTrace(data: unknown): DebugTrace {
+  let o = expectObject(data, "response");
+  if (isObject(o.result)) o = o.result;
+  return {
+    gas: optNumber(o.gas, "response.gas"),
+    failed: !!o.failed,
+    returnValue: optString(o.returnValue, "response.returnValue") ?? "",
+    structLogs: optArray(o.structLogs, "response.structLogs").map((l, i) =>
+      normalizeStructLog(l, `response.structLogs[${i}]`)
+    ),
+  };
+}
+
+/* ----------------------------- Accessors ----------------------------- */
+export function rootFrame(result: SimulationResult): CallFrame | undefined {
+  return result.transaction.callTrace[0];
+}
+
+/** Exact hex → bigint (no float precision loss); empty/invalid → 0n */
+export function hexToBigInt(h?: string): bigint {
+  if (!h) return BigInt(0);
+  try {
+    return BigInt(h);
+  } catch {
+    return BigInt(0);
+  }
+}
+
+/* ----------------------------- Decoding ----------------------------- */
+/** Proxy-aware contracts map for TraceDecoderManual */
+export function toDecoderContracts(contracts: Record<string, ContractRecord>): Record<string, LocalContractRecord> {
+  const out: Record<string, LocalContractRecord> = {};
+  for (const [addr, contract] of Object.entries(contracts)) {
+    out[addr] = {
+      address: addr,
+      ABI: contract.ABI,
+      Implementation: contract.Implementation,
+      Proxy: contract.Proxy || (contract.Implementation ? "1" : "0"),
+    };
+  }
+  return out;
+}
+
+export function toRawCall(frame: CallFrame): RawCall {
+  return {
+    from: frame.from,
+    to: frame.to,
+    input: frame.input,
+    output: frame.output ?? "0x",
+    gas: frame.gas ?? frame.gasUsed,
+    gasUsed: frame.gasUsed ?? frame.gas,
+    error: frame.error ?? "",
+    revertReason: frame.revertReason ?? "",
+    value: frame.value,
+    type: frame.type,
+    calls: frame.calls.length ? frame.calls.map(toRawCall) : undefined,
+  };
+}
+
+/** Decode the root call frame of a result; null when the backend returned no trace */
+export async function decodeSimulationTrace(result: SimulationResult): Promise<DecodedNode | null> {
+  const root = rootFrame(result);
+  if (!root) return null;
+  const manual = new TraceDecoderManual(toDecoderContracts(result.contracts));
+  return (await manual.decodeTrace(toRawCall(root))) as DecodedNode;
+}
@@ -0,0 +1,294 @@
+// Map trace frames to lines in a contract's verified source
+
+import type { DecodedNode } from "@/utils/decodeCallTrace";
+import type { DecodedRevert } from "@/lib/revert";
+
+/* ----------------------------- Types ----------------------------- */
+/** Standard-JSON-input shaped source bundle, as Etherscan returns for multi-file verifications */
+export type ParsedSourceCode = {
+  language?: string;
+  sources: Record<string, { content: string }>;
+  settings?: any;
+};
+
+export type SourceLocation = {
+  file: string;   // key in the source bundle (or the single file's name)
+  line: number;   // 1-based
+};
+
+/** Optional compiler output a contract record may carry; enables exact (pc-based) revert locations */
+export type CompilerMetadata = {
+  DeployedBytecode?: string;
+  DeployedSourceMap?: string;
+};
+
+type SourceRecord = CompilerMetadata & {
+  SourceCode?: string;
+  ContractName?: string;
+  ContractFileName?: string;
+};
+
+/* ----------------------------- Parsing ----------------------------- */
+/**
+ * Parse Etherscan's SourceCode field when it holds multiple files: standard JSON input
+ * (wrapped in an extra pair of braces) or a bare {path: {content}} map. Flattened
+ * single-file sources return null.
+ */
+export function parseSourceCode(sourceCode?: string): ParsedSourceCode | null {
+  let text = (sourceCode ?? "").trim();
+  if (!text.startsWith("{")) return null;
+  if (text.startsWith("{{") && text.endsWith("}}")) text = text.slice(1, -1);
+
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed?.sources && typeof parsed.sources === "object") return parsed as ParsedSourceCode;
+    const values = Object.values(parsed ?? {});
+    if (values.length && values.every((v: any) => typeof v?.content === "string")) {
+      return { sources: parsed };
+    }
+  } catch {
+    // not JSON: plain Solidity that happens to start with "{"
+  }
+  return null;
+}
+
+// SourceCode can be megabytes of JSON; parse each record once (trace trees look records up per frame)
+const filesCache = new WeakMap<object, Record<string, string>>();
+
+/** Every source file of a contract record, path → content */
+export function sourceFiles(record?: SourceRecord | null): Record<string, string> {
+  if (!record?.SourceCode?.trim()) return {};
+  const cached = filesCache.get(record);
+  if (cached) return cached;
+
+  let files: Record<string, string>;
+  const parsed = parseSourceCode(record.SourceCode);
+  if (parsed) {
+    files = Object.fromEntries(
+      Object.entries(parsed.sources).map(([path, s]) => [path, s?.content ?? ""])
+    );
+  } else {
+    const name = record.ContractFileName || `${record.ContractName || "Contract"}.sol`;
+    files = { [name]: record.SourceCode };
+  }
+  filesCache.set(record, files);
+  return files;
+}
+
+const lineAt = (content: string, offset: number) => content.slice(0, offset).split("\n").length;
+
+/* ----------------------------- Function definitions ----------------------------- */
+/** Number of top-level parameters in "name(type1,(type2,type3),type4[])" */
+function paramCount(signature?: string): number | null {
+  const m = signature?.match(/^[^(]*\((.*)\)$/);
+  if (!m) return null;
+  if (!m[1].trim()) return 0;
+  let depth = 0;
+  let count = 1;
+  for (const ch of m[1]) {
+    if (ch === "(") depth++;
+    else if (ch === ")") depth--;
+    else if (ch === "," && depth === 0) count++;
+  }
+  return count;
+}
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+type Definition = SourceLocation & { offset: number; bodyStart: number | null; score: number };
+
+function findDefinitions(
+  files: Record<string, string>,
+  functionName: string,
+  signature?: string,
+  contractName?: string
+): Definition[] {
+  const wantParams = paramCount(signature);
+  const name = escapeRe(functionName);
+  const fnRe = new RegExp(`\\bfunction\\s+${name}\\s*\\(([^)]*)\\)`, "g");
+  const getterRe = new RegExp(`\\bpublic\\b[^;{}()]*\\b${name}\\s*[;=]`, "g");
+  const contractRe = contractName ? new RegExp(`\\b(contract|library)\\s+${escapeRe(contractName)}\\b`) : null;
+
+  const defs: Definition[] = [];
+  for (const [file, content] of Object.entries(files)) {
+    const inContractFile = !!contractRe?.test(content);
+
+    for (const m of content.matchAll(fnRe)) {
+      const offset = m.index ?? 0;
+      const after = content.slice(offset + m[0].length);
+      const brace = after.search(/[{;]/);
+      const hasBody = brace >= 0 && after[brace] === "{";
+      const params = m[1].trim() ? m[1].split(",").length : 0;
+
+      defs.push({
+        file,
+        line: lineAt(content, offset),
+        offset,
+        bodyStart: hasBody ? offset + m[0].length + brace : null,
+        // implementations over interface declarations, then matching arity, then the contract's own file
+        score: (hasBody ? 4 : 0) + (wantParams === null || wantParams === params ? 2 : 0) + (inContractFile ? 1 : 0),
+      });
+    }
+
+    // public state variables compile to getters with no `function` keyword
+    for (const m of content.matchAll(getterRe)) {
+      const offset = m.index ?? 0;
+      defs.push({ file, line: lineAt(content, offset), offset, bodyStart: null, score: 1 + (inContractFile ? 1 : 0) });
+    }
+  }
+  return defs.sort((a, b) => b.score - a.score);
+}
+
+/* ----------------------------- Revert locations ----------------------------- */
+/** Body of a function as [start, end) offsets, by brace matching from its opening brace */
+function bodyRange(content: string, bodyStart: number): [number, number] {
+  let depth = 0;
+  for (let i = bodyStart; i < content.length; i++) {
+    if (content[i] === "{") depth++;
+    else if (content[i] === "}" && --depth === 0) return [bodyStart, i + 1];
+  }
+  return [bodyStart, content.length];
+}
+
+/**
+ * Best-effort revert location from the decoded revert: the `revert Error(` / `require(…, "reason")`
+ * statement inside the failing function, else anywhere in the sources (modifiers, internal calls).
+ */
+export function findRevertStatement(
+  files: Record<string, string>,
+  revert: DecodedRevert,
+  within?: { file: string; bodyStart: number | null }
+): SourceLocation | null {
+  let pattern: RegExp | null = null;
+  if (revert.kind === "custom" && revert.name) {
+    pattern = new RegExp(`\\b(revert\\s+)?${escapeRe(revert.name)}\\s*\\(`);
+  } else if (revert.kind === "reason" && typeof revert.args?.[0] === "string" && revert.args[0]) {
+    pattern = new RegExp(`["']${escapeRe(revert.args[0])}["']`);
+  }
+  if (!pattern) return null;
+
+  if (within?.bodyStart != null && files[within.file] !== undefined) {
+    const content = files[within.file];
+    const [start, end] = bodyRange(content, within.bodyStart);
+    const m = pattern.exec(content.slice(start, end));
+    if (m) return { file: within.file, line: lineAt(content, start + m.index) };
+  }
+
+  for (const [file, content] of Object.entries(files)) {
+    // skip the error's own declaration ("error Foo(...)")
+    const re = new RegExp(pattern.source, "g");
+    for (const m of content.matchAll(re)) {
+      const before = content.slice(Math.max(0, (m.index ?? 0) - 6), m.index);
+      if (/error\s*$/.test(before)) continue;
+      return { file, line: lineAt(content, m.index ?? 0) };
+    }
+  }
+  return null;
+}
+
+/** Instruction index of `pc` in runtime bytecode (PUSH1..PUSH32 carry inline data) */
+function instructionIndex(bytecode: string, pc: number): number | null {
+  const hex = bytecode.startsWith("0x") ? bytecode.slice(2) : bytecode;
+  let index = 0;
+  for (let i = 0; i < hex.length / 2; index++) {
+    if (i === pc) return index;
+    const op = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    i += op >= 0x60 && op <= 0x7f ? op - 0x5e : 1;
+  }
+  return null;
+}
+
+/**
+ * Exact source location of `pc` from solc's compressed source map ("s:l:f:j:m;…").
+ * Source ids follow solc's ordering of source unit names (sorted).
+ */
+export function locateBySourceMap(
+  files: Record<string, string>,
+  metadata: CompilerMetadata,
+  pc: number
+): SourceLocation | null {
+  if (!metadata.DeployedSourceMap || !metadata.DeployedBytecode) return null;
+  const target = instructionIndex(metadata.DeployedBytecode, pc);
+  if (target === null) return null;
+
+  let s = 0;
+  let f = -1;
+  const entries = metadata.DeployedSourceMap.split(";");
+  if (target >= entries.length) return null;
+  for (let i = 0; i <= target; i++) {
+    const [sStr, , fStr] = entries[i].split(":");
+    if (sStr) s = parseInt(sStr, 10);
+    if (fStr) f = parseInt(fStr, 10);
+  }
+  if (f < 0) return null; // compiler-generated code
+
+  const file = Object.keys(files).sort()[f];
+  if (file === undefined) return null;
+  // source map offsets are in bytes
+  const bytes = new TextEncoder().encode(files[file]).slice(0, s);
+  return { file, line: new TextDecoder().decode(bytes).split("\n").length };
+}
+
+/* ----------------------------- Trace frames ----------------------------- */
+export type FrameSource = {
+  address: string;            // contract whose source holds the code (implementation for proxies)
+  definition: SourceLocation;
+  revert?: SourceLocation;
+};
+
+/**
+ * Locate a decoded frame's function in its contract's verified source (the proxy's own source
+ * first, then its implementation), and for failing frames the revert statement. `revertPc`, the
+ * pc of the frame's last opcode in the debug trace, gives an exact location when the callee's
+ * record carries compiler metadata (panics and reasonless `require` included).
+ */
+export function resolveFrameSource(
+  contracts: Record<string, SourceRecord & { Implementation?: string }>,
+  node: DecodedNode,
+  revertPc?: number
+): FrameSource | null {
+  if (!node.functionName || !node.to) return null;
+
+  const lookup = (addr?: string) => {
+    if (!addr) return undefined;
+    const lower = addr.toLowerCase();
+    const key = Object.keys(contracts).find((k) => k.toLowerCase() === lower);
+    return key ? { address: key, record: contracts[key] } : undefined;
+  };
+
+  const own = lookup(node.to);
+  const candidates = [own, lookup(own?.record.Implementation)].filter(
+    (c): c is NonNullable<typeof c> => !!c
+  );
+
+  for (const candidate of candidates) {
+    const { address, record } = candidate;
+    const files = sourceFiles(record);
+    const [def] = findDefinitions(files, node.functionName, node.signature, record.ContractName);
+    if (!def) continue;
+
+    const result: FrameSource = { address, definition: { file: def.file, line: def.line } };
+    if (node.error) {
+      // the pc is in the code this frame executed: the callee's own, never a proxy's implementation
+      const exact =
+        revertPc !== undefined && candidate === own ? locateBySourceMap(files, record, revertPc) : null;
+      const revert =
+        exact ?? (node.revertDecoded ? findRevertStatement(files, node.revertDecoded, def) : null);
+      if (revert) result.revert = revert;
+    }
+    return result;
+  }
+  return null;
+}
+
+/** Contract page URL opened at a file and line, optionally highlighting a revert line */
+export function contractSourceHref(address: string, loc: SourceLocation, revert?: SourceLocation): string {
+  const params = new URLSearchParams({ file: loc.file, line: String(loc.line) });
+  if (revert && revert.file === loc.file) params.set("revert", String(revert.line));
+  else if (revert) {
+    params.set("file", revert.file);
+    params.set("line", String(revert.line));
+    params.set("revert", String(revert.line));
+  }
+  return `/dashboard/contracts/${address}?${params.toString()}`;
+}
@@ -0,0 +1,749 @@
+// Storage layout: map raw storage slots to state variables and decode their values
+
+import { getAddress, keccak256, toUtf8String } from "ethers";
+import { ContractRecord, SimulationResult, StateChange, hexToBigInt } from "@/lib/simulation";
+import { sourceFiles } from "@/lib/sourceMap";
+
+/* ----------------------------- Types ----------------------------- */
+// Same shape as solc's `storageLayout` output (outputSelection "storageLayout")
+export type StorageEntry = {
+  label: string;
+  slot: string;       // decimal
+  offset: number;     // bytes from the right of the slot
+  type: string;       // key into StorageLayout.types
+  contract?: string;
+  astId?: number;
+};
+
+export type StorageType = {
+  encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+  label: string;
+  numberOfBytes: string;
+  base?: string;              // arrays
+  key?: string;               // mappings
+  value?: string;             // mappings
+  members?: StorageEntry[];   // structs, slots relative to the struct
+};
+
+export type StorageLayout = {
+  storage: StorageEntry[];
+  types: Record<string, StorageType> | null;
+};
+
+export type DecodedStorageVariable = {
+  label: string;      // e.g. slot0.tick, balances[0xAbc…], observations[0].blockTimestamp
+  type: string;       // Solidity type label
+  before: string;
+  after: string;
+  changed: boolean;
+};
+
+export type DecodedStorageSlot = {
+  slot: string;
+  from: string;
+  to: string;
+  variables: DecodedStorageVariable[];
+};
+
+export type StorageDiffDecoding = {
+  layoutSource: "compiler" | "source" | null;   // where the layout came from
+  contractName?: string;
+  slots: DecodedStorageSlot[];
+  undecoded: { slot: string; from: string; to: string }[];
+};
+
+/** Slots defined by standards rather than by a contract's own layout */
+export const WELL_KNOWN_SLOTS: Record<string, { label: string; type: string }> = {
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc": { label: "eip1967.proxy.implementation", type: "address" },
+  "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103": { label: "eip1967.proxy.admin", type: "address" },
+  "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50": { label: "eip1967.proxy.beacon", type: "address" },
+  "0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7": { label: "PROXIABLE (EIP-1822)", type: "address" },
+};
+
+/* ----------------------------- Source parsing ----------------------------- */
+// Without compiler output the layout is rebuilt from verified source, following solc's rules:
+// state variables of the C3-linearized bases (most base first), packed right to left.
+
+type TypeNode =
+  | { kind: "name"; name: string }
+  | { kind: "mapping"; key: TypeNode; value: TypeNode }
+  | { kind: "array"; base: TypeNode; length: string | null };
+
+type ContractDef = {
+  name: string;
+  kind: string;                                 // contract | library | interface
+  bases: string[];
+  variables: { name: string; type: TypeNode }[];
+};
+
+type Definitions = {
+  contracts: Map<string, ContractDef>;
+  structs: Map<string, { name: string; type: TypeNode }[]>;
+  enums: Map<string, string[]>;
+  valueTypes: Map<string, string>;              // user-defined value type → underlying
+  constants: Map<string, bigint>;               // for array lengths like uint256[MAX]
+};
+
+function stripComments(src: string): string {
+  let out = "";
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '"' || ch === "'") {
+      const end = src.indexOf(ch, i + 1);
+      let j = end;
+      while (j > 0 && src[j - 1] === "\\") j = src.indexOf(ch, j + 1);
+      const stop = j < 0 ? src.length : j + 1;
+      out += src.slice(i, stop);
+      i = stop - 1;
+    } else if (ch === "/" && src[i + 1] === "/") {
+      const nl = src.indexOf("\n", i);
+      i = (nl < 0 ? src.length : nl) - 1;
+    } else if (ch === "/" && src[i + 1] === "*") {
+      const end = src.indexOf("*/", i + 2);
+      i = end < 0 ? src.length : end + 1;
+    } else {
+      out += ch;
+    }
+  }
+  return out;
+}
+
+/** Split a block body into top-level statements; `{…}` blocks end a statement like `;` does */
+function statements(body: string): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === "{" || ch === "(" || ch === "[") depth++;
+    else if (ch === ")" || ch === "]") depth--;
+    else if (ch === "}") {
+      if (--depth === 0) {
+        out.push(body.slice(start, i + 1).trim());
+        start = i + 1;
+      }
+    } else if (ch === ";" && depth === 0) {
+      out.push(body.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  return out.filter(Boolean);
+}
+
+function matchBrace(src: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < src.length; i++) {
+    if (src[i] === "{") depth++;
+    else if (src[i] === "}" && --depth === 0) return i;
+  }
+  return src.length;
+}
+
+/** Parse a type expression at the start of `s`; returns the type and the rest of the text */
+function parseType(s: string): { type: TypeNode; rest: string } | null {
+  let rest = s.trimStart();
+  let type: TypeNode;
+
+  if (/^mapping\s*\(/.test(rest)) {
+    rest = rest.slice(rest.indexOf("(") + 1);
+    const key = parseType(rest);
+    if (!key) return null;
+    rest = key.rest.trimStart().replace(/^\w+\s*(?==>)/, "").trimStart(); // named key (0.8.18+)
+    if (!rest.startsWith("=>")) return null;
+    const value = parseType(rest.slice(2));
+    if (!value) return null;
+    rest = value.rest.trimStart().replace(/^\w+\s*(?=\))/, "").trimStart();
+    if (!rest.startsWith(")")) return null;
+    rest = rest.slice(1);
+    type = { kind: "mapping", key: key.type, value: value.type };
+  } else {
+    const m = rest.match(/^(address\s+payable|[A-Za-z_$][\w$]*(?:\s*\.\s*[A-Za-z_$][\w$]*)*)/);
+    if (!m) return null;
+    const path = m[1].replace(/\s+/g, m[1].startsWith("address") ? " " : "");
+    type = { kind: "name", name: path.includes(".") ? path.split(".").pop()! : path };
+    rest = rest.slice(m[0].length);
+  }
+
+  for (let m = rest.match(/^\s*\[([^\]]*)\]/); m; m = rest.match(/^\s*\[([^\]]*)\]/)) {
+    type = { kind: "array", base: type, length: m[1].trim() || null };
+    rest = rest.slice(m[0].length);
+  }
+  return { type, rest };
+}
+
+const SKIPPED = /^(function|constructor|modifier|event|error|using|fallback|receive|struct|enum|type|pragma|import)\b/;
+
+function parseVariable(stmt: string): { name: string; type: TypeNode; constant: boolean; init?: string } | null {
+  if (SKIPPED.test(stmt)) return null;
+
+  // cut the initializer at the top-level "=" (not "=>", "==", "<=", …)
+  let depth = 0;
+  let decl = stmt;
+  let init: string | undefined;
+  for (let i = 0; i < stmt.length; i++) {
+    const ch = stmt[i];
+    if (ch === "(" || ch === "[" || ch === "{") depth++;
+    else if (ch === ")" || ch === "]" || ch === "}") depth--;
+    else if (ch === "=" && depth === 0 && stmt[i + 1] !== ">" && stmt[i + 1] !== "=" && !"<>!=".includes(stmt[i - 1])) {
+      decl = stmt.slice(0, i);
+      init = stmt.slice(i + 1).trim();
+      break;
+    }
+  }
+
+  const parsed = parseType(decl);
+  if (!parsed) return null;
+  const words = parsed.rest.trim().split(/\s+/).filter(Boolean);
+  const name = words[words.length - 1];
+  if (!name || !/^[A-Za-z_$][\w$]*$/.test(name)) return null;
+  const modifiers = new Set(words.slice(0, -1));
+  return {
+    name,
+    type: parsed.type,
+    constant: modifiers.has("constant") || modifiers.has("immutable") || modifiers.has("transient"),
+    init,
+  };
+}
+
+function collectDefinitions(files: Record<string, string>): Definitions {
+  const defs: Definitions = {
+    contracts: new Map(),
+    structs: new Map(),
+    enums: new Map(),
+    valueTypes: new Map(),
+    constants: new Map(),
+  };
+
+  const readDeclarations = (stmt: string) => {
+    let m = stmt.match(/^struct\s+(\w+)\s*\{([\s\S]*)\}$/);
+    if (m) {
+      const members = statements(m[2])
+        .map((s) => {
+          const t = parseType(s);
+          const name = t?.rest.trim().split(/\s+/).pop();
+          return t && name ? { name, type: t.type } : null;
+        })
+        .filter((x): x is { name: string; type: TypeNode } => !!x);
+      defs.structs.set(m[1], members);
+      return true;
+    }
+    m = stmt.match(/^enum\s+(\w+)\s*\{([\s\S]*)\}$/);
+    if (m) {
+      defs.enums.set(m[1], m[2].split(",").map((s) => s.trim()).filter(Boolean));
+      return true;
+    }
+    m = stmt.match(/^type\s+(\w+)\s+is\s+(\w+)$/);
+    if (m) {
+      defs.valueTypes.set(m[1], m[2]);
+      return true;
+    }
+    return false;
+  };
+
+  for (const raw of Object.values(files)) {
+    const src = stripComments(raw);
+    const contractRe = /\b(?:abstract\s+)?(contract|library|interface)\s+(\w+)([^{;]*)\{/g;
+    let covered = 0;
+    let outside = "";
+
+    for (let m = contractRe.exec(src); m; m = contractRe.exec(src)) {
+      if (m.index < covered) continue; // nested match inside a previous body
+      outside += src.slice(covered, m.index);
+      const open = m.index + m[0].length - 1;
+      const close = matchBrace(src, open);
+      covered = close + 1;
+      contractRe.lastIndex = covered;
+
+      const heritage = m[3].match(/\bis\b([\s\S]*)$/)?.[1] ?? "";
+      const bases: string[] = [];
+      let depth = 0;
+      let current = "";
+      for (const ch of heritage + ",") {
+        if (ch === "(") depth++;
+        else if (ch === ")") depth--;
+        else if (ch === "," && depth === 0) {
+          const id = current.trim().match(/^[\w.]+/)?.[0];
+          if (id) bases.push(id.split(".").pop()!);
+          current = "";
+          continue;
+        }
+        if (depth === 0 && ch !== ")") current += ch;
+      }
+
+      const def: ContractDef = { name: m[2], kind: m[1], bases, variables: [] };
+      for (const stmt of statements(src.slice(open + 1, close))) {
+        if (readDeclarations(stmt)) continue;
+        const v = parseVariable(stmt);
+        if (!v) continue;
+        if (v.constant) {
+          if (v.init && /^(0x[0-9a-fA-F]+|\d+)$/.test(v.init)) defs.constants.set(v.name, BigInt(v.init));
+        } else if (def.kind === "contract") {
+          def.variables.push({ name: v.name, type: v.type });
+        }
+      }
+      defs.contracts.set(def.name, def);
+    }
+
+    // file-level structs, enums, value types and constants
+    outside += src.slice(covered);
+    for (const stmt of statements(outside)) {
+      if (readDeclarations(stmt)) continue;
+      const v = parseVariable(stmt);
+      if (v?.constant && v.init && /^(0x[0-9a-fA-F]+|\d+)$/.test(v.init)) defs.constants.set(v.name, BigInt(v.init));
+    }
+  }
+  return defs;
+}
+
+/** C3 linearization, most derived first (Solidity lists bases most-base-first, so they are reversed) */
+function linearize(name: string, defs: Definitions, seen = new Set<string>()): string[] {
+  const def = defs.contracts.get(name);
+  if (!def || seen.has(name)) return [name];
+  seen.add(name);
+
+  const parents = [...def.bases].reverse();
+  const sequences = [...parents.map((b) => linearize(b, defs, new Set(seen))), parents].filter((s) => s.length);
+  const result = [name];
+  while (sequences.some((s) => s.length)) {
+    const candidate = sequences
+      .map((s) => s[0])
+      .find((c) => c !== undefined && !sequences.some((s) => s.indexOf(c) > 0));
+    if (candidate === undefined) {
+      // inconsistent hierarchy: fall back to depth-first order
+      for (const s of sequences) for (const c of s) if (!result.includes(c)) result.push(c);
+      break;
+    }
+    result.push(candidate);
+    for (const s of sequences) if (s[0] === candidate) s.shift();
+  }
+  return result;
+}
+
+/** Build a solc-style layout for `contractName` from its verified sources */
+export function deriveStorageLayout(files: Record<string, string>, contractName: string): StorageLayout | null {
+  const defs = collectDefinitions(files);
+  if (!defs.contracts.has(contractName)) return null;
+
+  const types: Record<string, StorageType> = {};
+
+  const elementarySize = (name: string): number | null => {
+    if (name === "bool") return 1;
+    if (name === "address" || name === "address payable") return 20;
+    if (name === "byte") return 1;
+    let m = name.match(/^u?int(\d*)$/);
+    if (m) return (m[1] ? Number(m[1]) : 256) / 8;
+    m = name.match(/^bytes(\d+)$/);
+    if (m) return Number(m[1]);
+    m = name.match(/^u?fixed(\d*)/);
+    if (m) return (m[1] ? Number(m[1]) : 128) / 8;
+    return null;
+  };
+
+  const typeId = (node: TypeNode, structStack: string[] = []): string => {
+    if (node.kind === "mapping") {
+      const key = typeId(node.key, structStack);
+      const value = typeId(node.value, structStack);
+      const id = `t_mapping(${key},${value})`;
+      types[id] = { encoding: "mapping", label: `mapping(${types[key]?.label} => ${types[value]?.label ?? value})`, numberOfBytes: "32", key, value };
+      return id;
+    }
+
+    if (node.kind === "array") {
+      const base = typeId(node.base, structStack);
+      const baseType = types[base];
+      if (node.length === null) {
+        const id = `t_array(${base})dyn_storage`;
+        types[id] = { encoding: "dynamic_array", label: `${baseType?.label ?? base}[]`, numberOfBytes: "32", base };
+        return id;
+      }
+      const length = /^\d+$/.test(node.length)
+        ? BigInt(node.length)
+        : defs.constants.get(node.length) ?? BigInt(1);
+      const size = BigInt(baseType.numberOfBytes);
+      const slots = size <= BigInt(16) ? (length + BigInt(32) / size - BigInt(1)) / (BigInt(32) / size) : length * ((size + BigInt(31)) / BigInt(32));
+      const id = `t_array(${base})${length}_storage`;
+      types[id] = { encoding: "inplace", label: `${baseType.label}[${length}]`, numberOfBytes: String(slots * BigInt(32)), base };
+      return id;
+    }
+
+    const name = node.name === "uint" ? "uint256" : node.name === "int" ? "int256" : node.name === "byte" ? "bytes1" : node.name;
+    if (name === "string" || name === "bytes") {
+      const id = `t_${name}_storage`;
+      types[id] = { encoding: "bytes", label: name, numberOfBytes: "32" };
+      return id;
+    }
+    const size = elementarySize(name);
+    if (size !== null) {
+      const id = `t_${name.replace(" ", "_")}`;
+      types[id] = { encoding: "inplace", label: name, numberOfBytes: String(size) };
+      return id;
+    }
+    if (defs.valueTypes.has(name)) {
+      const underlying = types[typeId({ kind: "name", name: defs.valueTypes.get(name)! })];
+      const id = `t_userDefinedValueType(${name})`;
+      types[id] = { encoding: "inplace", label: name, numberOfBytes: underlying.numberOfBytes };
+      return id;
+    }
+    if (defs.enums.has(name)) {
+      const id = `t_enum(${name})`;
+      types[id] = { encoding: "inplace", label: `enum ${name}`, numberOfBytes: "1" };
+      return id;
+    }
+    if (defs.structs.has(name)) {
+      // a struct can refer to itself through a mapping or dynamic array; the reference is enough
+      const id = `t_struct(${name})_storage`;
+      if (!types[id] && !structStack.includes(name)) {
+        const members = place(defs.structs.get(name)!, [...structStack, name]);
+        types[id] = {
+          encoding: "inplace",
+          label: `struct ${name}`,
+          numberOfBytes: String(Math.max(1, members.slots) * 32),
+          members: members.entries,
+        };
+      }
+      return id;
+    }
+    // contracts and interfaces are stored as addresses
+    const id = `t_contract(${name})`;
+    types[id] = { encoding: "inplace", label: `contract ${name}`, numberOfBytes: "20" };
+    return id;
+  };
+
+  // solc packing: an item shares the slot if it fits; structs and arrays start and end a slot
+  function place(variables: { name: string; type: TypeNode; contract?: string }[], structStack: string[] = []) {
+    const entries: StorageEntry[] = [];
+    let slot = 0;
+    let offset = 0;
+    for (const v of variables) {
+      const type = typeId(v.type, structStack);
+      const size = Number(types[type].numberOfBytes);
+      if (offset > 0 && (size >= 32 || offset + size > 32)) {
+        slot++;
+        offset = 0;
+      }
+      entries.push({ label: v.name, slot: String(slot), offset, type, ...(v.contract ? { contract: v.contract } : {}) });
+      if (size >= 32) slot += Math.ceil(size / 32);
+      else offset += size;
+    }
+    return { entries, slots: slot + (offset > 0 ? 1 : 0) };
+  }
+
+  const order = linearize(contractName, defs).reverse();
+  const variables = order.flatMap((c) =>
+    (defs.contracts.get(c)?.variables ?? []).map((v) => ({ ...v, contract: c }))
+  );
+  return { storage: place(variables).entries, types };
+}
+
+/* ----------------------------- Layout lookup ----------------------------- */
+const layoutCache = new WeakMap<object, { layout: StorageLayout; source: "compiler" | "source" } | null>();
+
+/** Compiler layout when the record carries one, else one derived from the verified source */
+export function getStorageLayout(record?: ContractRecord | null): { layout: StorageLayout; source: "compiler" | "source" } | null {
+  if (!record) return null;
+  if (layoutCache.has(record)) return layoutCache.get(record)!;
+
+  let result: { layout: StorageLayout; source: "compiler" | "source" } | null = null;
+  try {
+    const compiled: any = typeof record.StorageLayout === "string" ? JSON.parse(record.StorageLayout) : record.StorageLayout;
+    if (Array.isArray(compiled?.storage) && compiled.types && typeof compiled.types === "object") {
+      result = { layout: compiled, source: "compiler" };
+    }
+  } catch {
+    // malformed StorageLayout, try the source
+  }
+
+  if (!result && record.ContractName) {
+    try {
+      const layout = deriveStorageLayout(sourceFiles(record), record.ContractName);
+      if (layout?.storage.length) result = { layout, source: "source" };
+    } catch {
+      // unparseable source
+    }
+  }
+
+  layoutCache.set(record, result);
+  return result;
+}
+
+/* ----------------------------- Values ----------------------------- */
+const word = (hex?: string) => (hex ?? "0x").replace(/^0x/, "").padStart(64, "0").slice(-64).toLowerCase();
+const slotHex = (n: bigint) => "0x" + n.toString(16).padStart(64, "0");
+const keccakWords = (...words: string[]) => keccak256("0x" + words.map(word).join(""));
+
+const toSigned = (v: bigint, bits: number) =>
+  v >= BigInt(1) << BigInt(bits - 1) ? v - (BigInt(1) << BigInt(bits)) : v;
+
+function decodeValue(type: StorageType, full: string, offset: number): string {
+  const size = Number(type.numberOfBytes);
+  const w = word(full);
+
+  if (type.encoding === "bytes") {
+    const v = hexToBigInt("0x" + w);
+    if ((v & BigInt(1)) === BigInt(1)) return `(${(v - BigInt(1)) / BigInt(2)} bytes, stored out of slot)`;
+    const length = Number(v & BigInt(0xff)) / 2;
+    const data = "0x" + w.slice(0, length * 2);
+    if (type.label !== "string") return data;
+    try {
+      return JSON.stringify(toUtf8String(data));
+    } catch {
+      return data;
+    }
+  }
+  if (type.encoding !== "inplace" || size > 32) return "0x" + w;
+
+  const hex = w.slice(64 - 2 * (offset + size), 64 - 2 * offset);
+  const value = hexToBigInt("0x" + hex);
+  const label = type.label;
+
+  if (label === "bool") return value ? "true" : "false";
+  if (label.startsWith("address") || label.startsWith("contract ")) {
+    try {
+      return getAddress("0x" + hex.slice(-40));
+    } catch {
+      return "0x" + hex;
+    }
+  }
+  if (/^bytes\d+$/.test(label)) return "0x" + hex;
+  if (/^int\d*$/.test(label)) {
+    return toSigned(value, size * 8).toString();
+  }
+  if (/^uint\d*$/.test(label) || label.startsWith("enum ")) return value.toString();
+  return "0x" + hex;
+}
+
+/* ----------------------------- Mapping keys ----------------------------- */
+const MAX_KEY_CANDIDATES = 64;     // at most 64² hashes per nested mapping
+/**
+ * Mapping slots are keccak(key . slot), so keys can only be recovered by guessing. Candidates are
+ * 32-byte words from the trace, those near `address` first: the addresses and calldata/return words
+ * of frames into or out of it and its events' topics and data, then every other address seen.
+ * Nested mappings hash every combination of candidates, so the list is capped.
+ */
+export function collectKeyCandidates(result: SimulationResult, address: string): string[] {
+  const target = address.toLowerCase();
+  const near = new Set<string>();
+  const far = new Set<string>();
+  const addWords = (hex?: string, skipSelector = false) => {
+    const body = (hex ?? "").replace(/^0x/, "").slice(skipSelector ? 8 : 0);
+    for (let i = 0; i + 64 <= body.length; i += 64) near.add(body.slice(i, i + 64).toLowerCase());
+  };
+  const addAddress = (a: string | undefined, set: Set<string>) => a && /^0x[0-9a-fA-F]{40}$/.test(a) && set.add(word(a));
+
+  const tx = result.transaction;
+  addAddress(tx.from, near);
+  addAddress(tx.to, near);
+  const walk = (frames: typeof tx.callTrace) => {
+    for (const f of frames) {
+      const touches = f.to?.toLowerCase() === target || f.from?.toLowerCase() === target;
+      addAddress(f.from, touches ? near : far);
+      addAddress(f.to, touches ? near : far);
+      if (touches) {
+        addWords(f.input, true);
+        addWords(f.output);
+      }
+      walk(f.calls ?? []);
+    }
+  };
+  walk(tx.callTrace);
+  for (const log of tx.events) {
+    if (log.address?.toLowerCase() !== target) {
+      addAddress(log.address, far);
+      continue;
+    }
+    log.topics.slice(1).forEach((t) => near.add(word(t)));
+    addWords(log.data);
+  }
+  Object.keys(result.contracts).forEach((a) => addAddress(a, far));
+  return Array.from(new Set([...Array.from(near), ...Array.from(far)])).slice(0, MAX_KEY_CANDIDATES);
+}
+
+/** Whether a 32-byte word is a valid storage key encoding for the given key type */
+function validKey(type: StorageType, w: string): boolean {
+  const label = type.label;
+  const v = hexToBigInt("0x" + w);
+  const size = Number(type.numberOfBytes);
+  if (type.encoding !== "inplace") return false;
+  if (label === "bool") return v <= BigInt(1);
+  if (/^bytes\d+$/.test(label)) return w.slice(size * 2).split("").every((c) => c === "0");
+  if (/^int\d*$/.test(label)) {
+    const limit = BigInt(1) << BigInt(size * 8 - 1);
+    const signed = toSigned(v, 256);
+    return signed >= -limit && signed < limit;
+  }
+  return v < BigInt(1) << BigInt(size * 8);
+}
+
+function formatKey(type: StorageType, w: string): string {
+  if (type.label.startsWith("address") || type.label.startsWith("contract ")) return decodeValue(type, w, 0);
+  if (/^int\d*$/.test(type.label)) return toSigned(hexToBigInt("0x" + w), 256).toString();
+  return decodeValue(type, w, 0);
+}
+
+/* ----------------------------- Slot resolution ----------------------------- */
+type SlotMatch = { label: string; type: StorageType; offset: number };
+
+const MAX_MAPPING_DEPTH = 2;       // mapping(a => mapping(b => v)); deeper nesting is left undecoded
+const MAX_DYNAMIC_LENGTH = BigInt(1) << BigInt(40);
+
+class SlotResolver {
+  private hashes = new Map<string, bigint>();
+  private entries = new Map<string, { key: string; slot: bigint }[]>();
+
+  constructor(private types: Record<string, StorageType>, private candidates: string[]) {}
+
+  private hash(...words: string[]): bigint {
+    const k = words.join("");
+    let h = this.hashes.get(k);
+    if (h === undefined) {
+      h = hexToBigInt(keccakWords(...words));
+      this.hashes.set(k, h);
+    }
+    return h;
+  }
+
+  /** (formatted key, value slot) for every candidate key of a mapping at `base` */
+  private mappingEntries(keyTypeId: string, base: bigint) {
+    const cacheKey = `${keyTypeId}:${base}`;
+    let list = this.entries.get(cacheKey);
+    if (!list) {
+      const keyType = this.types[keyTypeId];
+      list = keyType
+        ? this.candidates
+            .filter((w) => validKey(keyType, w))
+            .map((w) => ({ key: formatKey(keyType, w), slot: this.hash(w, slotHex(base)) }))
+        : [];
+      this.entries.set(cacheKey, list);
+    }
+    return list;
+  }
+
+  private slotsOf(type: StorageType) {
+    return BigInt(Math.max(1, Math.ceil(Number(type.numberOfBytes) / 32)));
+  }
+
+  /** Elements of an array (data starting at `start`) that live in `slot` */
+  private arrayElements(slot: bigint, label: string, baseTypeId: string, start: bigint, length: bigint | null, depth: number) {
+    const base = this.types[baseTypeId];
+    if (!base) return [];
+    const d = slot - start;
+    if (d < BigInt(0) || d >= (length !== null ? length : MAX_DYNAMIC_LENGTH)) return [];
+
+    const size = BigInt(base.numberOfBytes);
+    if (base.encoding === "inplace" && size <= BigInt(16)) {
+      const perSlot = BigInt(32) / size;
+      const out: SlotMatch[] = [];
+      for (let k = BigInt(0); k < perSlot; k++) {
+        const index = d * perSlot + k;
+        if (length !== null && index >= length) break;
+        out.push({ label: `${label}[${index}]`, type: base, offset: Number(k * size) });
+      }
+      return out;
+    }
+    const per = this.slotsOf(base);
+    const index = d / per;
+    if (length !== null && index >= length) return [];
+    return this.resolve(slot, `${label}[${index}]`, baseTypeId, start + index * per, 0, depth);
+  }
+
+  resolve(slot: bigint, label: string, typeId: string, base: bigint, offset: number, depth = 0): SlotMatch[] {
+    const type = this.types[typeId];
+    if (!type) return [];
+
+    switch (type.encoding) {
+      case "mapping": {
+        if (depth >= MAX_MAPPING_DEPTH || !type.key || !type.value) return [];
+        const out: SlotMatch[] = [];
+        for (const e of this.mappingEntries(type.key, base)) {
+          out.push(...this.resolve(slot, `${label}[${e.key}]`, type.value, e.slot, 0, depth + 1));
+        }
+        return out;
+      }
+      case "dynamic_array":
+        if (slot === base) return [{ label: `${label}.length`, type: { encoding: "inplace", label: "uint256", numberOfBytes: "32" }, offset: 0 }];
+        return this.arrayElements(slot, label, type.base!, this.hash(slotHex(base)), null, depth);
+      case "bytes": {
+        if (slot === base) return [{ label, type, offset: 0 }];
+        const d = slot - this.hash(slotHex(base));
+        return d >= BigInt(0) && d < MAX_DYNAMIC_LENGTH
+          ? [{ label: `${label} (data word ${d})`, type: { encoding: "inplace", label: "bytes32", numberOfBytes: "32" }, offset: 0 }]
+          : [];
+      }
+      default: {
+        if (slot < base || slot >= base + this.slotsOf(type)) return [];
+        if (type.members) {
+          return type.members.flatMap((m) =>
+            this.resolve(slot, `${label}.${m.label}`, m.type, base + BigInt(m.slot), m.offset, depth)
+          );
+        }
+        if (type.base) {
+          const length = type.label.match(/\[(\d+)\]$/)?.[1];
+          return this.arrayElements(slot, label, type.base, base, length ? BigInt(length) : null, depth);
+        }
+        return slot === base ? [{ label, type, offset }] : [];
+      }
+    }
+  }
+}
+
+/* ----------------------------- Storage diffs ----------------------------- */
+const findRecord = (result: SimulationResult, address?: string) => {
+  if (!address) return undefined;
+  const key = Object.keys(result.contracts).find((k) => k.toLowerCase() === address.toLowerCase());
+  return key ? result.contracts[key] : undefined;
+};
+
+/**
+ * Name and decode the storage changes of one contract. Proxies are decoded with their
+ * implementation's layout; slots no layout explains are returned as `undecoded`.
+ */
+export function decodeStorageChanges(result: SimulationResult, address: string): StorageDiffDecoding {
+  const changes: Record<string, StateChange> =
+    Object.entries(result.transaction.storageDiff).find(([a]) => a.toLowerCase() === address.toLowerCase())?.[1] ?? {};
+
+  const own = findRecord(result, address);
+  const implementation = findRecord(result, own?.Implementation);
+  const layoutRecord = implementation && implementation !== own ? implementation : own;
+  const found = getStorageLayout(layoutRecord);
+
+  const resolver = found ? new SlotResolver(found.layout.types ?? {}, collectKeyCandidates(result, address)) : null;
+
+  const decoding: StorageDiffDecoding = {
+    layoutSource: found?.source ?? null,
+    contractName: layoutRecord?.ContractName,
+    slots: [],
+    undecoded: [],
+  };
+
+  for (const [slot, change] of Object.entries(changes)) {
+    const key = slotHex(hexToBigInt(slot));
+    let matches: SlotMatch[] = [];
+
+    const known = WELL_KNOWN_SLOTS[key];
+    if (known) {
+      matches = [{ label: known.label, type: { encoding: "inplace", label: known.type, numberOfBytes: "20" }, offset: 0 }];
+    } else if (resolver && found) {
+      const target = hexToBigInt(key);
+      for (const entry of found.layout.storage) {
+        matches.push(...resolver.resolve(target, entry.label, entry.type, BigInt(entry.slot), entry.offset));
+      }
+    }
+
+    if (!matches.length) {
+      decoding.undecoded.push({ slot, from: change.from, to: change.to });
+      continue;
+    }
+
+    decoding.slots.push({
+      slot,
+      from: change.from,
+      to: change.to,
+      variables: matches.map((m) => {
+        const before = decodeValue(m.type, change.from, m.offset);
+        const after = decodeValue(m.type, change.to, m.offset);
+        return { label: m.label, type: m.type.label, before, after, changed: before !== after };
+      }),
+    });
+  }
+  return decoding;
+}
@@ -0,0 +1,187 @@
+// Suite runner: replays a project's scenarios against the backend and checks their assertions.
+// Used by the /dashboard/projects/[id]/run page and the headless CLI (scripts/illusio.ts).
+
+import { AbiProvider } from "@/lib/abiResolver";
+import { BackendClient, getBackendClient } from "@/lib/backend";
+import { runBundleQuery, runSimulateQuery } from "@/lib/blockReplay";
+import { AssertionResult, describeAssertion, evaluateAssertions } from "@/lib/assertions";
+import { Project, Scenario, scenarioQuery } from "@/lib/projects";
+import { BundleSimulationResult, SimulationResult } from "@/lib/simulation";
+import { ChainConfig, chainFromQuery } from "@/lib/chains";
+import { withDetectedProxies } from "@/lib/proxyDetection";
+
+/* ----------------------------- Types ----------------------------- */
+/** skipped = no assertions attached; error = the simulation itself failed */
+export type ScenarioStatus = "pass" | "fail" | "error" | "skipped";
+
+export type ScenarioReport = {
+  scenario: Scenario;
+  status: ScenarioStatus;
+  results: AssertionResult[];
+  error?: string;
+  response?: SimulationResult | BundleSimulationResult;
+  durationMs: number;
+};
+
+export type SuiteReport = {
+  projectId: string;
+  projectName: string;
+  startedAt: number;
+  durationMs: number;
+  scenarios: ScenarioReport[];
+  counts: Record<ScenarioStatus, number>;
+};
+
+export type RunSuiteOptions = {
+  client?: BackendClient;       // default: the backend of each scenario's chain
+  signal?: AbortSignal;
+  /** ABI sources for proxy implementations; default: those of the ABI resolver */
+  providers?: AbiProvider[];
+  /** scenario ids to run; all when omitted */
+  only?: string[];
+  onScenario?: (report: ScenarioReport, index: number, total: number) => void;
+};
+
+export type RunScenarioOptions = Pick<RunSuiteOptions, "client" | "signal" | "providers">;
+
+/* ----------------------------- Running ----------------------------- */
+/** Proxies detected on chain, as the result pages do, so assertions decode what the UI shows */
+export async function withResponseProxies<T extends SimulationResult | BundleSimulationResult>(
+  response: T,
+  chain: ChainConfig,
+  opts: Omit<RunScenarioOptions, "client"> = {}
+): Promise<T> {
+  const detect = (r: SimulationResult) => withDetectedProxies(r, { chain, signal: opts.signal, providers: opts.providers });
+  if ("results" in response) return { ...response, results: await Promise.all(response.results.map(detect)) };
+  return (await detect(response)) as T;
+}
+
+export async function runScenario(scenario: Scenario, opts: RunScenarioOptions = {}): Promise<ScenarioReport> {
+  const { client, signal } = opts;
+  const started = Date.now();
+  const finish = (r: Omit<ScenarioReport, "scenario" | "durationMs">): ScenarioReport => ({
+    scenario,
+    durationMs: Date.now() - started,
+    ...r,
+  });
+
+  if (!scenario.assertions.length) return finish({ status: "skipped", results: [] });
+
+  let response: SimulationResult | BundleSimulationResult;
+  try {
+    const sp = new URLSearchParams(scenarioQuery(scenario));
+    const chain = chainFromQuery(sp);
+    const backend = client ?? getBackendClient(chain);
+    const raw =
+      scenario.kind === "bundle"
+        ? (await runBundleQuery(sp, backend, { chain, signal })).result
+        : (await runSimulateQuery(sp, backend, { chain, signal })).result;
+    response = await withResponseProxies(raw, chain, opts);
+  } catch (e: any) {
+    return finish({ status: "error", results: [], error: e?.message || String(e) });
+  }
+
+  const results = await evaluateAssertions(scenario.assertions, response);
+  return finish({ status: results.every((r) => r.pass) ? "pass" : "fail", results, response });
+}
+
+/** Scenarios run one after another, so a suite never floods the backend */
+export async function runSuite(project: Project, opts: RunSuiteOptions = {}): Promise<SuiteReport> {
+  const { signal, only, onScenario } = opts;
+  const scenarios = only ? project.scenarios.filter((s) => only.includes(s.id)) : project.scenarios;
+  const startedAt = Date.now();
+  const reports: ScenarioReport[] = [];
+
+  for (const [i, scenario] of scenarios.entries()) {
+    if (signal?.aborted) break;
+    const report = await runScenario(scenario, opts);
+    reports.push(report);
+    onScenario?.(report, i, scenarios.length);
+  }
+
+  return suiteReport(project, startedAt, reports);
+}
+
+/** Suite report over scenario reports run since `startedAt` */
+export function suiteReport(
+  project: Pick<Project, "id" | "name">,
+  startedAt: number,
+  scenarios: ScenarioReport[]
+): SuiteReport {
+  const counts: Record<ScenarioStatus, number> = { pass: 0, fail: 0, error: 0, skipped: 0 };
+  for (const r of scenarios) counts[r.status]++;
+  return { projectId: project.id, projectName: project.name, startedAt, durationMs: Date.now() - startedAt, scenarios, counts };
+}
+
+export const suitePassed = (report: SuiteReport) => report.counts.fail === 0 && report.counts.error === 0;
+
+/* ----------------------------- Reporting ----------------------------- */
+const MARK: Record<ScenarioStatus, string> = { pass: "PASS", fail: "FAIL", error: "ERROR", skipped: "SKIP" };
+
+/** Plain-text report, one line per assertion */
+export function formatSuiteReport(report: SuiteReport): string {
+  const lines = [`${report.projectName}`];
+  for (const s of report.scenarios) {
+    lines.push(`  ${MARK[s.status].padEnd(5)}  ${s.scenario.title} (${s.durationMs} ms)`);
+    if (s.error) lines.push(`        ${s.error}`);
+    for (const r of s.results) {
+      lines.push(`        ${r.pass ? "✓" : "✗"} ${describeAssertion(r.assertion)}: ${r.message}`);
+    }
+  }
+  const { pass, fail, error, skipped } = report.counts;
+  lines.push(`${pass} passed, ${fail} failed, ${error} errored, ${skipped} skipped in ${report.durationMs} ms`);
+  return lines.join("\n");
+}
+
+const xmlEscape = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+/** JUnit XML for CI: one testsuite per project, one testcase per assertion */
+export function formatJUnitReport(reports: SuiteReport[]): string {
+  const total = (key: "tests" | "failures" | "errors") =>
+    reports.reduce((n, r) => n + junitCounts(r)[key], 0);
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="illusio" tests="${total("tests")}" failures="${total("failures")}" errors="${total("errors")}">`,
+  ];
+  for (const report of reports) {
+    const c = junitCounts(report);
+    lines.push(
+      `  <testsuite name="${xmlEscape(report.projectName)}" tests="${c.tests}" failures="${c.failures}" errors="${c.errors}" skipped="${report.counts.skipped}" time="${seconds(report.durationMs)}" timestamp="${new Date(report.startedAt).toISOString()}">`
+    );
+    for (const s of report.scenarios) {
+      const classname = xmlEscape(s.scenario.title);
+      if (s.status === "skipped" || s.status === "error") {
+        const body = s.status === "skipped" ? `<skipped message="no assertions"/>` : `<error message="${xmlEscape(s.error ?? "")}"/>`;
+        lines.push(`    <testcase classname="${classname}" name="simulation" time="${seconds(s.durationMs)}">${body}</testcase>`);
+        continue;
+      }
+      for (const r of s.results) {
+        const name = xmlEscape(describeAssertion(r.assertion));
+        lines.push(
+          r.pass
+            ? `    <testcase classname="${classname}" name="${name}"/>`
+            : `    <testcase classname="${classname}" name="${name}"><failure message="${xmlEscape(r.message)}"/></testcase>`
+        );
+      }
+    }
+    lines.push(`  </testsuite>`);
+  }
+  lines.push(`</testsuites>`);
+  return lines.join("\n");
+}
+
+function junitCounts(report: SuiteReport) {
+  let tests = 0;
+  let failures = 0;
+  for (const s of report.scenarios) {
+    if (s.status === "skipped" || s.status === "error") tests++;
+    else {
+      tests += s.results.length;
+      failures += s.results.filter((r) => !r.pass).length;
+    }
+  }
+  return { tests, failures, errors: report.counts.error };
+}
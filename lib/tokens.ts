@@ -0,0 +1,378 @@
+// Token movements: ERC-20/721/1155 transfers and per-holder net balance changes of a simulation
+
+import { AbiCoder, formatUnits, getAddress, toUtf8String } from "ethers";
+import { CallFrame, ContractRecord, EventLog, SimulationResult, hexToBigInt } from "@/lib/simulation";
+import { decodeStorageChanges } from "@/lib/storageLayout";
+import { sourceFiles } from "@/lib/sourceMap";
+import { getSelectedChain } from "@/lib/chains";
+
+/* ----------------------------- Types ----------------------------- */
+export type TokenStandard = "native" | "erc20" | "erc721" | "erc1155";
+
+export type TokenMetadata = {
+  symbol?: string;
+  name?: string;
+  decimals?: number;
+};
+
+export type TokenTransfer = {
+  token: string;            // emitting contract
+  standard: Exclude<TokenStandard, "native">;
+  from: string;             // zero address for mints
+  to: string;               // zero address for burns
+  amount: bigint;           // 1 for ERC-721
+  tokenId?: bigint;         // ERC-721 / ERC-1155
+  logIndex: number;
+};
+
+export type BalanceChange = {
+  holder: string;
+  token: string;            // NATIVE_TOKEN_ADDRESS for the native balance
+  standard: TokenStandard;
+  tokenId?: bigint;
+  delta: bigint;
+  before?: bigint;          // known for native and storage-backed ERC-20 balances
+  after?: bigint;
+  source: "balanceDiff" | "storage" | "events";
+};
+
+export const NATIVE_TOKEN_ADDRESS = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+
+/** Native currency of the selected chain, shown as a token */
+export function nativeToken(): TokenMetadata {
+  const chain = getSelectedChain();
+  return { symbol: chain.nativeSymbol, name: chain.nativeSymbol, decimals: chain.nativeDecimals };
+}
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/* ----------------------------- Topics ----------------------------- */
+const TOPICS = {
+  transfer: "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef",        // Transfer(address,address,uint256)
+  transferSingle: "0xc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f62",  // TransferSingle(address,address,address,uint256,uint256)
+  transferBatch: "0x4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb",   // TransferBatch(address,address,address,uint256[],uint256[])
+  deposit: "0xe1fffcc4923d04b559f4d29a8bfc6cda04eb5b0d3c460751c2402c5c5cc9109c",         // Deposit(address,uint256) (WETH-style wrap)
+  withdrawal: "0x7fcf532c15f0a6db0bd6d0e038bea71d30d808c7d98cb3bf7268a95bf5081b65",      // Withdrawal(address,uint256) (unwrap)
+};
+
+const topicAddress = (t?: string) => {
+  try {
+    return getAddress("0x" + (t ?? "").replace(/^0x/, "").slice(-40)).toLowerCase();
+  } catch {
+    return ZERO_ADDRESS;
+  }
+};
+
+/* ----------------------------- Transfers ----------------------------- */
+const sameAddress = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+const findRecord = (result: SimulationResult, address: string): ContractRecord | undefined => {
+  const key = Object.keys(result.contracts).find((k) => sameAddress(k, address));
+  return key ? result.contracts[key] : undefined;
+};
+
+/**
+ * Deposit/Withdrawal are generic event names; only treat them as wrap/unwrap when the emitter
+ * is WETH-like (its ABI has deposit() and withdraw(uint256)) or also emits Transfer in this tx.
+ */
+function isWrappedNative(result: SimulationResult, token: string): boolean {
+  const abi = findRecord(result, token)?.ABI;
+  try {
+    const entries: any[] = typeof abi === "string" ? JSON.parse(abi) : abi ?? [];
+    const fn = (name: string) => entries.some((e) => e?.type === "function" && e.name === name);
+    if (fn("deposit") && fn("withdraw")) return true;
+  } catch {
+    // unverified
+  }
+  return result.transaction.events.some((l) => sameAddress(l.address, token) && l.topics[0]?.toLowerCase() === TOPICS.transfer);
+}
+
+/** Every token movement in the transaction's logs, in emission order */
+export function extractTokenTransfers(result: SimulationResult): TokenTransfer[] {
+  const coder = AbiCoder.defaultAbiCoder();
+  const transfers: TokenTransfer[] = [];
+  const wrapped = new Map<string, boolean>();
+
+  result.transaction.events.forEach((log: EventLog, i) => {
+    const logIndex = log.index ?? i;
+    const token = log.address.toLowerCase();
+    const topic0 = log.topics[0]?.toLowerCase();
+    const data = log.data && log.data !== "0x" ? log.data : "0x";
+
+    try {
+      if (topic0 === TOPICS.transfer && log.topics.length === 3) {
+        const [amount] = coder.decode(["uint256"], data);
+        transfers.push({ token, standard: "erc20", from: topicAddress(log.topics[1]), to: topicAddress(log.topics[2]), amount, logIndex });
+      } else if (topic0 === TOPICS.transfer && log.topics.length === 4) {
+        transfers.push({
+          token,
+          standard: "erc721",
+          from: topicAddress(log.topics[1]),
+          to: topicAddress(log.topics[2]),
+          amount: BigInt(1),
+          tokenId: hexToBigInt(log.topics[3]),
+          logIndex,
+        });
+      } else if (topic0 === TOPICS.transferSingle && log.topics.length === 4) {
+        const [id, amount] = coder.decode(["uint256", "uint256"], data);
+        transfers.push({ token, standard: "erc1155", from: topicAddress(log.topics[2]), to: topicAddress(log.topics[3]), amount, tokenId: id, logIndex });
+      } else if (topic0 === TOPICS.transferBatch && log.topics.length === 4) {
+        const [ids, amounts] = coder.decode(["uint256[]", "uint256[]"], data);
+        (ids as bigint[]).forEach((id, k) =>
+          transfers.push({
+            token,
+            standard: "erc1155",
+            from: topicAddress(log.topics[2]),
+            to: topicAddress(log.topics[3]),
+            amount: (amounts as bigint[])[k] ?? BigInt(0),
+            tokenId: id,
+            logIndex,
+          })
+        );
+      } else if ((topic0 === TOPICS.deposit || topic0 === TOPICS.withdrawal) && log.topics.length === 2) {
+        if (!wrapped.has(token)) wrapped.set(token, isWrappedNative(result, token));
+        if (!wrapped.get(token)) return;
+        const [amount] = coder.decode(["uint256"], data);
+        const holder = topicAddress(log.topics[1]);
+        transfers.push(
+          topic0 === TOPICS.deposit
+            ? { token, standard: "erc20", from: ZERO_ADDRESS, to: holder, amount, logIndex }
+            : { token, standard: "erc20", from: holder, to: ZERO_ADDRESS, amount, logIndex }
+        );
+      }
+    } catch {
+      // same topic, different layout (non-standard token); skip the log
+    }
+  });
+  return transfers;
+}
+
+/* ----------------------------- Balance changes ----------------------------- */
+// ERC-20 balance mappings as commonly named in verified sources
+const BALANCE_VARIABLE = /^(?:_?balances?|_?balanceOf|balance_of|_balanceOf)\[(0x[0-9a-fA-F]{40})\]$/;
+
+/** Exact ERC-20 balances from storage diffs, where the token's storage layout names them */
+function storageBalances(result: SimulationResult, token: string) {
+  const out = new Map<string, { before: bigint; after: bigint }>();
+  for (const slot of decodeStorageChanges(result, token).slots) {
+    for (const v of slot.variables) {
+      const m = v.label.match(BALANCE_VARIABLE);
+      if (!m || !/^uint\d*$/.test(v.type)) continue;
+      out.set(m[1].toLowerCase(), { before: BigInt(v.before), after: BigInt(v.after) });
+    }
+  }
+  return out;
+}
+
+/**
+ * Net change per (holder, token, tokenId): native balances from balanceDiff, ERC-20 balances
+ * from storage diffs when the layout names them, everything else summed from transfer events.
+ * Zero nets are dropped.
+ */
+export function computeBalanceChanges(result: SimulationResult, transfers = extractTokenTransfers(result)): BalanceChange[] {
+  const changes = new Map<string, BalanceChange>();
+  const keyOf = (holder: string, token: string, tokenId?: bigint) => `${holder}|${token}|${tokenId ?? ""}`;
+
+  for (const [holder, diff] of Object.entries(result.transaction.balanceDiff)) {
+    const before = hexToBigInt(diff.from);
+    const after = hexToBigInt(diff.to);
+    const h = holder.toLowerCase();
+    changes.set(keyOf(h, NATIVE_TOKEN_ADDRESS), {
+      holder: h,
+      token: NATIVE_TOKEN_ADDRESS,
+      standard: "native",
+      delta: after - before,
+      before,
+      after,
+      source: "balanceDiff",
+    });
+  }
+
+  // tokens that moved, plus any contract whose storage diff touches a balance mapping
+  const erc20Tokens = new Set([
+    ...transfers.filter((t) => t.standard === "erc20").map((t) => t.token),
+    ...Object.keys(result.transaction.storageDiff).map((a) => a.toLowerCase()),
+  ]);
+  const fromStorage = new Map<string, Map<string, { before: bigint; after: bigint }>>();
+  for (const token of Array.from(erc20Tokens)) {
+    const balances = storageBalances(result, token);
+    fromStorage.set(token, balances);
+    balances.forEach(({ before, after }, holder) =>
+      changes.set(keyOf(holder, token), { holder, token, standard: "erc20", delta: after - before, before, after, source: "storage" })
+    );
+  }
+
+  const add = (holder: string, t: TokenTransfer, delta: bigint) => {
+    if (holder === ZERO_ADDRESS) return;
+    if (t.standard === "erc20" && fromStorage.get(t.token)?.has(holder)) return;
+    const key = keyOf(holder, t.token, t.tokenId);
+    const existing = changes.get(key);
+    if (existing) existing.delta += delta;
+    else changes.set(key, { holder, token: t.token, standard: t.standard, tokenId: t.tokenId, delta, source: "events" });
+  };
+  for (const t of transfers) {
+    add(t.from, t, -t.amount);
+    add(t.to, t, t.amount);
+  }
+
+  return Array.from(changes.values()).filter((c) => c.delta !== BigInt(0));
+}
+
+/* ----------------------------- Metadata ----------------------------- */
+const SELECTORS = {
+  decimals: "0x313ce567",
+  symbol: "0x95d89b41",
+  name: "0x06fdde03",
+};
+
+/** string return, or bytes32 for old tokens (MKR, SAI) */
+function decodeText(output?: string): string | undefined {
+  if (!output || output === "0x") return undefined;
+  try {
+    return AbiCoder.defaultAbiCoder().decode(["string"], output)[0];
+  } catch {
+    try {
+      return toUtf8String(output.slice(0, 66)).replace(/\0+$/, "") || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+function decodeDecimals(output?: string): number | undefined {
+  if (!output || output.length < 66) return undefined;
+  const v = hexToBigInt(output.slice(0, 66));
+  return v <= BigInt(255) ? Number(v) : undefined;
+}
+
+function constructorMetadata(record?: ContractRecord): TokenMetadata {
+  const args = record?.ConstructorArguments?.replace(/^0x/, "");
+  if (!args) return {};
+  try {
+    const abi: any[] = typeof record!.ABI === "string" ? JSON.parse(record!.ABI) : record!.ABI ?? [];
+    const inputs: { name?: string; type: string }[] = abi.find((e) => e?.type === "constructor")?.inputs ?? [];
+    if (!inputs.length) return {};
+    const values = AbiCoder.defaultAbiCoder().decode(inputs.map((i) => i.type), "0x" + args);
+
+    const meta: TokenMetadata = {};
+    inputs.forEach((input, i) => {
+      const name = (input.name ?? "").replace(/^_+/, "").toLowerCase();
+      if (name === "symbol" && typeof values[i] === "string") meta.symbol = values[i];
+      if (name === "name" && typeof values[i] === "string") meta.name = values[i];
+      if (name === "decimals" && typeof values[i] === "bigint" && values[i] <= BigInt(255)) meta.decimals = Number(values[i]);
+    });
+    return meta;
+  } catch {
+    return {};
+  }
+}
+
+/** Metadata the simulation already contains: decimals()/symbol()/name() calls, then verified source and constructor arguments */
+export function tokenMetadataFromResult(result: SimulationResult, token: string): TokenMetadata {
+  if (sameAddress(token, NATIVE_TOKEN_ADDRESS)) return nativeToken();
+  const meta: TokenMetadata = {};
+
+  const walk = (frames: CallFrame[]) => {
+    for (const f of frames) {
+      if (sameAddress(f.to, token) && !f.error) {
+        const selector = f.input.slice(0, 10).toLowerCase();
+        if (selector === SELECTORS.decimals) meta.decimals ??= decodeDecimals(f.output);
+        if (selector === SELECTORS.symbol) meta.symbol ??= decodeText(f.output);
+        if (selector === SELECTORS.name) meta.name ??= decodeText(f.output);
+      }
+      walk(f.calls ?? []);
+    }
+  };
+  walk(result.transaction.callTrace);
+
+  const record = findRecord(result, token);
+  const source = Object.values(sourceFiles(record)).join("\n");
+  if (source) {
+    meta.symbol ??= source.match(/\bsymbol\s*=\s*"([^"]+)"/)?.[1];
+    meta.name ??= source.match(/\bname\s*=\s*"([^"]+)"/)?.[1];
+    const decimals =
+      source.match(/\bdecimals\s*=\s*(\d+)\s*;/)?.[1] ??
+      source.match(/function\s+decimals\s*\(\s*\)[^{]*\{\s*return\s+(\d+)\s*;/)?.[1];
+    if (decimals !== undefined && meta.decimals === undefined) meta.decimals = Number(decimals);
+
+    // set in the constructor: decode the deployment arguments by parameter name
+    const fromConstructor = constructorMetadata(record);
+    meta.symbol ??= fromConstructor.symbol;
+    meta.name ??= fromConstructor.name;
+    meta.decimals ??= fromConstructor.decimals;
+
+    // OpenZeppelin: ERC20("Name", "SYMBOL") with 18 decimals unless overridden
+    const oz = source.match(/\bERC20\s*\(\s*"([^"]*)"\s*,\s*"([^"]*)"\s*\)/);
+    if (oz) {
+      meta.name ??= oz[1];
+      meta.symbol ??= oz[2];
+      meta.decimals ??= 18;
+    }
+  }
+  return meta;
+}
+
+const metadataCache = new Map<string, TokenMetadata>();
+
+/**
+ * Read decimals/symbol/name over JSON-RPC for tokens the simulation doesn't describe
+ * (the selected chain's RPC). Results are cached per RPC and address for the session; failures yield {}.
+ */
+export async function fetchTokenMetadata(
+  tokens: string[],
+  opts: { rpcUrl?: string; signal?: AbortSignal } = {}
+): Promise<Record<string, TokenMetadata>> {
+  const rpcUrl = opts.rpcUrl ?? getSelectedChain().rpcUrl;
+  const out: Record<string, TokenMetadata> = {};
+  const missing = Array.from(new Set(tokens.map((t) => t.toLowerCase()))).filter((t) => {
+    const cached = metadataCache.get(`${rpcUrl}|${t}`);
+    if (cached) out[t] = cached;
+    return !cached;
+  });
+  if (!rpcUrl || !missing.length) return out;
+
+  const fields = Object.keys(SELECTORS) as (keyof typeof SELECTORS)[];
+  const batch = missing.flatMap((token, i) =>
+    fields.map((field, j) => ({
+      jsonrpc: "2.0",
+      id: i * fields.length + j,
+      method: "eth_call",
+      params: [{ to: token, data: SELECTORS[field] }, "latest"],
+    }))
+  );
+
+  try {
+    const res = await fetch(rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(batch),
+      signal: opts.signal,
+    });
+    const replies: any[] = await res.json();
+    if (!Array.isArray(replies)) return out;
+
+    missing.forEach((token, i) => {
+      const result = (field: number) => replies.find((r) => r?.id === i * fields.length + field)?.result;
+      const meta: TokenMetadata = {
+        decimals: decodeDecimals(result(0)),
+        symbol: decodeText(result(1)),
+        name: decodeText(result(2)),
+      };
+      metadataCache.set(`${rpcUrl}|${token}`, meta);
+      out[token] = meta;
+    });
+  } catch {
+    // RPC unreachable or batch unsupported: callers fall back to raw units
+  }
+  return out;
+}
+
+/* ----------------------------- Formatting ----------------------------- */
+/** Exact decimal rendering; raw units when decimals are unknown */
+export function formatTokenAmount(amount: bigint, decimals?: number, signed = false): string {
+  const abs = amount < BigInt(0) ? -amount : amount;
+  let text = decimals === undefined ? abs.toString() : formatUnits(abs, decimals);
+  if (text.endsWith(".0")) text = text.slice(0, -2);
+  const sign = amount < BigInt(0) ? "-" : signed && amount > BigInt(0) ? "+" : "";
+  return sign + text;
+}
@@ -0,0 +1,121 @@
+// Forking mined transactions into the simulators: the original fields come from JSON-RPC and the
+// simulation runs on the state before the tx's block, optionally after the txs that preceded it there.
+
+import { ChainConfig, getSelectedChain } from "@/lib/chains";
+import { hexToBigInt } from "@/lib/simulation";
+
+/* ----------------------------- Types ----------------------------- */
+/** Mined transaction with quantities as decimal strings, the simulator form's format */
+export type MinedTx = {
+  hash: string;
+  from: string;
+  to: string;            // "" for contract creations
+  input: string;
+  value: string;
+  gas: string;
+  gasPrice: string;      // effective gas price for EIP-1559 txs
+  blockNumber: number;
+  index: number;         // position in the block
+};
+
+export class TxForkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TxForkError";
+  }
+}
+
+/* ----------------------------- RPC ----------------------------- */
+async function rpc<T>(rpcUrl: string, method: string, params: unknown[], signal?: AbortSignal): Promise<T> {
+  const res = await fetch(rpcUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+    signal,
+  });
+  const reply = await res.json();
+  if (reply?.error) throw new TxForkError(`${method}: ${reply.error.message ?? "RPC error"}`);
+  return reply?.result as T;
+}
+
+const toMinedTx = (t: any): MinedTx => ({
+  hash: t.hash,
+  from: t.from,
+  to: t.to ?? "",
+  input: t.input ?? t.data ?? "0x",
+  value: hexToBigInt(t.value).toString(),
+  gas: hexToBigInt(t.gas).toString(),
+  gasPrice: hexToBigInt(t.gasPrice).toString(),
+  blockNumber: Number(hexToBigInt(t.blockNumber)),
+  index: Number(hexToBigInt(t.transactionIndex)),
+});
+
+type FetchOptions = { chain?: ChainConfig; signal?: AbortSignal };
+
+export async function fetchMinedTransaction(hash: string, opts: FetchOptions = {}): Promise<MinedTx> {
+  const { rpcUrl } = opts.chain ?? getSelectedChain();
+  if (!rpcUrl) throw new TxForkError("The selected chain has no RPC URL");
+  const tx = await rpc<any>(rpcUrl, "eth_getTransactionByHash", [hash], opts.signal);
+  if (!tx) throw new TxForkError(`Transaction ${hash} not found`);
+  if (!tx.blockNumber) throw new TxForkError(`Transaction ${hash} is still pending`);
+  return toMinedTx(tx);
+}
+
+/** Every transaction of a block, in block order */
+export async function fetchBlockTransactions(blockNumber: number, opts: FetchOptions = {}): Promise<MinedTx[]> {
+  const { rpcUrl } = opts.chain ?? getSelectedChain();
+  if (!rpcUrl) throw new TxForkError("The selected chain has no RPC URL");
+  const block = await rpc<any>(rpcUrl, "eth_getBlockByNumber", ["0x" + blockNumber.toString(16), true], opts.signal);
+  if (!block) throw new TxForkError(`Block ${blockNumber} not found`);
+  return (block.transactions as any[]).map(toMinedTx);
+}
+
+/* ----------------------------- Simulator links ----------------------------- */
+// Without the block prefix the tx runs on the state of block − 1; with it, at its own position in
+// its block (`?position=`, see lib/blockReplay.ts), after the txs mined before it.
+
+const forkBlockParams = (tx: MinedTx, withPrefix: boolean): Record<string, string> =>
+  withPrefix ? { block: String(tx.blockNumber), position: String(tx.index) } : { block: String(tx.blockNumber - 1) };
+
+/** Simulator builder query (serializeToQuery format) */
+export function simulatorForkQuery(tx: MinedTx, chainId: number, withPrefix = false): string {
+  return new URLSearchParams({
+    chain: String(chainId),
+    ...forkBlockParams(tx, withPrefix),
+    from: tx.from,
+    to: tx.to,
+    gas: tx.gas,
+    gasPrice: tx.gasPrice,
+    value: tx.value,
+    input: tx.input,
+  }).toString();
+}
+
+/** Advance simulator query (serializeBundleToQuery format) with `tx` as the bundle's only entry */
+export function bundleForkQuery(tx: MinedTx, chainId: number, withPrefix = false): string {
+  const transaction = {
+    id: tx.hash.slice(2, 11),
+    from: tx.from,
+    to: tx.to,
+    input: tx.input,
+    value: tx.value,
+    gas: tx.gas,
+    gasPrice: tx.gasPrice,
+    inputType: "raw",
+    selectedFunction: null,
+    functionParameters: [],
+    accessList: [],
+  };
+  return new URLSearchParams({
+    chain: String(chainId),
+    ...forkBlockParams(tx, withPrefix),
+    atomic: "true",
+    transactions: JSON.stringify([transaction]),
+  }).toString();
+}
+
+export const simulatorForkHref = (tx: MinedTx, chainId: number, withPrefix = false) =>
+  `/dashboard/simulator/v1?${simulatorForkQuery(tx, chainId, withPrefix)}`;
+
+export const bundleForkHref = (tx: MinedTx, chainId: number, withPrefix = false) =>
+  `/dashboard/advanceSimulator/v1?${bundleForkQuery(tx, chainId, withPrefix)}`;
@@ -1,5 +1,10 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { ParamType, formatUnits } from "ethers"
+import { TraceDecoderManual, DecodedCall } from "@/utils/decodeCallTrace"
+import { hexToBigInt, toDecoderContracts } from "@/lib/simulation"
+import { getSignatureRegistry, guessFunction } from "@/lib/signatures"
+import { getSelectedChain } from "@/lib/chains"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -98,38 +103,23 @@ export function formatAddress(address: string): string {
 
 export function formatGas(gas: string): string {
   if (!gas) return '0'
-  const gasNum = parseInt(gas, 16)
-  return gasNum.toLocaleString()
+  return hexToBigInt(gas).toLocaleString()
 }
 
 export function formatValue(value: string): string {
-  if (!value) return '0'
-  const valueNum = parseInt(value, 16)
-  if (valueNum === 0) return '0'
-  return `${(valueNum / 1e18).toFixed(9)} HYPE`
+  const wei = hexToBigInt(value)
+  if (wei === BigInt(0)) return '0'
+  const chain = getSelectedChain()
+  return `${formatUnits(wei, chain.nativeDecimals)} ${chain.nativeSymbol}`
 }
 
 export function getFunctionName(input: string): string {
   if (!input || input === '0x') return 'fallback()'
   if (input.length < 10) return 'fallback()'
   
-  const functionSelector = input.slice(0, 10)
-  
-  // Common function selectors
-  const functionMap: { [key: string]: string } = {
-    '0xd0e30db0': 'deposit()',
-    '0x70a08231': 'balanceOf(address)',
-    '0x095ea7b3': 'approve(address,uint256)',
-    '0xfeaf968c': 'latestRoundData()',
-    '0x313ce567': 'decimals()',
-    '0x04e45aaf': 'addFunds(bytes32)',
-    '0x128acb08': 'exactInputSingle((address,address,uint24,address,uint256,uint256,uint160))',
-    '0xa9059cbb': 'transfer(address,uint256)',
-    '0x23b872dd': 'transferFrom(address,address,uint256)',
-    '0xfa461e33': 'exactOutputSingle((address,address,uint24,address,uint256,uint256,uint160))'
-  }
-  
-  return functionMap[functionSelector] || `0x${functionSelector.slice(2, 6)}...`
+  const functionSelector = input.slice(0, 10).toLowerCase()
+  const known = guessFunction(input)?.signature ?? getSignatureRegistry().lookup('function', functionSelector)[0]
+  return known || `0x${functionSelector.slice(2, 6)}...`
 }
 
 // Get contract names and ABI from response
@@ -156,169 +146,60 @@ export const getContractABI = (address: string, responseData?: any): any[] | nul
   return null
 }
 
-// Generate function selector from function signature
-const generateFunctionSelector = (functionName: string, inputs: any[]): string => {
-  const inputTypes = inputs.map(input => input.type).join(',')
-  const signature = `${functionName}(${inputTypes})`
-  
-  // Simple hash function for demo (in production, use proper keccak256)
-  let hash = 0
-  for (let i = 0; i < signature.length; i++) {
-    const char = signature.charCodeAt(i)
-    hash = ((hash << 5) - hash) + char
-    hash = hash & hash // Convert to 32-bit integer
+// One decoder per response, so repeated lookups don't re-parse every ABI
+const decoderCache = new WeakMap<object, TraceDecoderManual>()
+
+const getDecoder = (responseData?: any): TraceDecoderManual => {
+  const contracts = responseData?.contracts
+  if (!contracts || typeof contracts !== 'object') return new TraceDecoderManual({})
+  let decoder = decoderCache.get(contracts)
+  if (!decoder) {
+    decoder = new TraceDecoderManual(toDecoderContracts(contracts))
+    decoderCache.set(contracts, decoder)
   }
-  
-  // Convert to hex and pad to 8 characters (4 bytes)
-  return '0x' + Math.abs(hash).toString(16).padStart(8, '0')
+  return decoder
+}
+
+/** Same decoding as the trace tree (contract ABIs, then the signature registry) */
+const decodeCall = (input: string, toAddress: string, responseData?: any, output?: string): DecodedCall =>
+  getDecoder(responseData).decodeCall({ to: toAddress, input, output })
+
+/** Render a decoded ABI value; tuples as (a, b), arrays as [a, b], recursively */
+export const formatAbiValue = (param: ParamType, value: any): string => {
+  if (param.isTuple()) {
+    return `(${param.components.map((c, i) => formatAbiValue(c, value?.[i])).join(', ')})`
+  }
+  if (param.isArray()) {
+    return `[${Array.from(value ?? []).map((v) => formatAbiValue(param.arrayChildren, v)).join(', ')}]`
+  }
+  if (typeof value === 'bigint') return value.toString()
+  if (param.type === 'string') return JSON.stringify(value)
+  return String(value)
 }
 
+const formatParams = (params: readonly ParamType[], values: any[], fallbackName: string): string =>
+  params
+    .map((p, i) => `${p.name || `${fallbackName}${i}`} = ${formatAbiValue(p, values[i])}`)
+    .join(', ')
+
 // Decode function input using ABI - completely dynamic
 export const decodeFunctionInput = (input: string, toAddress: string, responseData?: any): { functionName: string; params: any[]; decodedParams: string } => {
   if (!input || input === '0x' || input.length < 10) {
     return { functionName: 'fallback()', params: [], decodedParams: '' }
   }
 
-  const functionSelector = input.slice(0, 10)
-  const remainingData = input.slice(10)
-
-  // First, try to find the function in the contract ABI
-  const abi = getContractABI(toAddress, responseData)
-  if (abi) {
-    // Look for function with matching selector
-    for (const item of abi) {
-      if (item.type === 'function' && item.inputs) {
-        const expectedSelector = generateFunctionSelector(item.name, item.inputs)
-        if (expectedSelector === functionSelector) {
-          // Found matching function, decode parameters
-          let decodedParams = ''
-          const params = []
-          
-          if (item.inputs.length > 0 && remainingData.length >= item.inputs.length * 64) {
-            for (let i = 0; i < item.inputs.length; i++) {
-              const input = item.inputs[i]
-              const paramData = remainingData.slice(i * 64, (i + 1) * 64)
-              const paramName = input.name || `param${i}`
-              
-              let paramValue = ''
-              switch (input.type) {
-                case 'address':
-                  // Remove padding and convert to address
-                  paramValue = '0x' + paramData.slice(24)
-                  break
-                case 'uint256':
-                case 'uint128':
-                case 'uint64':
-                case 'uint32':
-                case 'uint16':
-                case 'uint8':
-                  // Convert hex to decimal
-                  const numValue = parseInt(paramData, 16)
-                  paramValue = numValue.toString()
-                  break
-                case 'int256':
-                case 'int128':
-                case 'int64':
-                case 'int32':
-                case 'int16':
-                case 'int8':
-                  // Convert hex to decimal (handle negative numbers)
-                  const intValue = parseInt(paramData, 16)
-                  paramValue = intValue.toString()
-                  break
-                case 'bool':
-                  // Convert to boolean
-                  paramValue = paramData === '0000000000000000000000000000000000000000000000000000000000000001' ? 'true' : 'false'
-                  break
-                case 'bytes32':
-                case 'bytes':
-                  // Show as hex
-                  paramValue = '0x' + paramData
-                  break
-                case 'string':
-                  // Try to decode as UTF-8 string
-                  try {
-                    // Remove padding and convert hex to string
-                    const hexString = paramData.replace(/^0+/, '')
-                    if (hexString.length % 2 === 0) {
-                      const bytes = new Uint8Array(hexString.match(/.{1,2}/g)?.map(byte => parseInt(byte, 16)) || [])
-                      paramValue = new TextDecoder().decode(bytes)
-                    } else {
-                      paramValue = '0x' + paramData
-                    }
-                  } catch {
-                    paramValue = '0x' + paramData
-                  }
-                  break
-                default:
-                  // For other types, show as hex
-                  paramValue = '0x' + paramData
-              }
-              
-              params.push(`${paramName} = ${paramValue}`)
-            }
-            decodedParams = params.join(', ')
-          }
-          
-          return {
-            functionName: item.name,
-            params: [input],
-            decodedParams: decodedParams
-          }
-        }
-      }
-    }
-  }
-
-  // If no ABI match found, try common function selectors as fallback
-  const commonSelectors: { [key: string]: { name: string; params: string[] } } = {
-    '0xd0e30db0': { name: 'deposit', params: [] },
-    '0x70a08231': { name: 'balanceOf', params: ['address'] },
-    '0x095ea7b3': { name: 'approve', params: ['address', 'uint256'] },
-    '0xfeaf968c': { name: 'latestRoundData', params: [] },
-    '0x313ce567': { name: 'decimals', params: [] },
-    '0xa9059cbb': { name: 'transfer', params: ['address', 'uint256'] },
-    '0x04e45aaf': { name: 'addFunds', params: ['address', 'address', 'uint256', 'address', 'uint256', 'uint256', 'bool'] },
-    '0x128acb08': { name: 'swap', params: ['address', 'uint256', 'uint256', 'address', 'uint256', 'bytes', 'bytes'] },
-    '0xf9bfe8a7': { name: 'addFunds', params: ['bytes32'] }
-  }
-
-  if (commonSelectors[functionSelector]) {
-    const func = commonSelectors[functionSelector]
-    let decodedParams = ''
-    
-    if (func.params.length > 0 && remainingData.length >= func.params.length * 64) {
-      const params = []
-      for (let i = 0; i < func.params.length; i++) {
-        const paramData = remainingData.slice(i * 64, (i + 1) * 64)
-        const paramType = func.params[i]
-        
-        if (paramType === 'address') {
-          const address = '0x' + paramData.slice(24)
-          params.push(`param${i} = ${address}`)
-        } else if (paramType === 'uint256') {
-          const value = parseInt(paramData, 16)
-          params.push(`param${i} = ${value}`)
-        } else if (paramType === 'bytes32') {
-          const hexValue = '0x' + paramData
-          params.push(`param${i} = ${hexValue}`)
-        } else {
-          params.push(`param${i} = 0x${paramData}`)
-        }
-      }
-      decodedParams = params.join(', ')
-    }
-    
+  const call = decodeCall(input, toAddress, responseData)
+  if (call.fragment && call.args) {
     return {
-      functionName: func.name,
-      params: [input],
-      decodedParams: decodedParams
+      functionName: call.fragment.name,
+      params: call.args,
+      decodedParams: formatParams(call.fragment.inputs, call.args, 'param'),
     }
   }
 
-
-  
   // Final fallback: show function selector + remaining data
+  const functionSelector = input.slice(0, 10)
+  const remainingData = input.slice(10)
   return { 
     functionName: `0x${functionSelector.slice(2, 6)}...`, 
     params: remainingData ? [remainingData] : [],
@@ -326,74 +207,16 @@ export const decodeFunctionInput = (input: string, toAddress: string, responseDa
   }
 }
 
-// Decode function output using ABI - completely dynamic
-export const decodeFunctionOutput = (output: string, toAddress: string, responseData?: any): string => {
+// Decode function output using ABI; the call's input selects the (possibly overloaded) function
+export const decodeFunctionOutput = (output: string, toAddress: string, responseData?: any, input?: string): string => {
   if (!output || output === '0x') {
     return ''
   }
 
-  // Try to find the function in the contract ABI to get output type
-  const abi = getContractABI(toAddress, responseData)
-  if (abi) {
-    // Look for function with matching output
-    for (const item of abi) {
-      if (item.type === 'function' && item.outputs && item.outputs.length > 0) {
-        const outputType = item.outputs[0].type
-        const outputName = item.outputs[0].name || 'result'
-        
-        try {
-          let decodedValue = ''
-          switch (outputType) {
-            case 'bool':
-              decodedValue = output === '0x0000000000000000000000000000000000000000000000000000000000000001' ? 'true' : 'false'
-              break
-            case 'uint256':
-            case 'uint128':
-            case 'uint64':
-            case 'uint32':
-            case 'uint16':
-            case 'uint8':
-              const uintValue = parseInt(output.slice(2), 16)
-              decodedValue = uintValue.toString()
-              break
-            case 'int256':
-            case 'int128':
-            case 'int64':
-            case 'int32':
-            case 'int16':
-            case 'int8':
-              const intValue = parseInt(output.slice(2), 16)
-              decodedValue = intValue.toString()
-              break
-            case 'address':
-              decodedValue = '0x' + output.slice(2).slice(24)
-              break
-            case 'bytes32':
-            case 'bytes':
-              decodedValue = output
-              break
-            case 'string':
-              try {
-                const hexString = output.slice(2).replace(/^0+/, '')
-                if (hexString.length % 2 === 0) {
-                  const bytes = new Uint8Array(hexString.match(/.{1,2}/g)?.map(byte => parseInt(byte, 16)) || [])
-                  decodedValue = new TextDecoder().decode(bytes)
-                } else {
-                  decodedValue = output
-                }
-              } catch {
-                decodedValue = output
-              }
-              break
-            default:
-              decodedValue = output
-          }
-          
-          return `${outputName}: ${decodedValue}`
-        } catch {
-          // If decoding fails, return the raw output
-        }
-      }
+  if (input && input.length >= 10) {
+    const call = decodeCall(input, toAddress, responseData, output)
+    if (call.fragment && call.outputs) {
+      return formatParams(call.fragment.outputs, call.outputs, 'result')
     }
   }
 
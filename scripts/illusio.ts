@@ -0,0 +1,321 @@
+// illusio CLI: run a simulation, bundle or tx trace from the terminal, with the same inputs as the UI.
+//
+//   npm run -s illusio -- simulate <url | query> [options]
+//   npm run -s illusio -- bundle   <url | query> [options]
+//   npm run -s illusio -- simulate|bundle --scenario <projects.json> [--project <name or id>] [--title <title>]
+//   npm run -s illusio -- trace <txHash> [options]
+//   npm run -s illusio -- suite <projects.json> [--project <name or id>] [--title <title>] [options]
+//
+// (-s keeps npm's banner out of stdout, so json and junit output can be redirected to a file.)
+//
+// <url | query> is a Simulator / Advance Simulator link (view or builder, including #s= share links)
+// or just its query string, so a link copied from the browser and a CLI run are interchangeable.
+// `suite` replays every scenario of an exported projects file, simulations and bundles alike.
+//
+// Options: --block <n> pins the block, --chain <id> overrides the link's chain (trace: defaults to
+// HyperEVM), --backend <url> overrides the chain's backend, --format tree|json|junit (default tree).
+//
+// A run without assertions is expected to succeed. Exits with 1 when an assertion fails or a
+// simulation errors, 2 on bad usage.
+
+import { readFileSync } from "fs";
+import { sourcifyProvider } from "@/lib/abiResolver";
+import { BackendClient, createHttpBackendClient, getBackendClient } from "@/lib/backend";
+import { ChainConfig, findChain, getChain, withChain } from "@/lib/chains";
+import { evaluateAssertions } from "@/lib/assertions";
+import { SimulationEvent, decodeSimulationEvents } from "@/lib/eventDecoder";
+import { Project, Scenario, ScenarioKind, blockPolicyFromQuery, parseProjectsFile } from "@/lib/projects";
+import { decodeShareFragment, sharePayloadToQuery } from "@/lib/shareLink";
+import { SimulationResult, decodeSimulationTrace } from "@/lib/simulation";
+import {
+  ScenarioReport,
+  ScenarioStatus,
+  SuiteReport,
+  formatJUnitReport,
+  formatSuiteReport,
+  runScenario,
+  suitePassed,
+  suiteReport,
+  withResponseProxies,
+} from "@/lib/testRunner";
+import { DecodedNode } from "@/utils/decodeCallTrace";
+
+type Format = "tree" | "json" | "junit";
+
+// ABI sources for proxy implementations; only Sourcify is reachable without the Next.js ABI routes
+const CLI_PROVIDERS = [sourcifyProvider];
+
+type Options = {
+  command: "simulate" | "bundle" | "trace" | "suite";
+  input?: string;
+  scenario?: string;
+  project?: string;
+  title?: string;
+  block?: string;
+  chain?: string;
+  backend?: string;
+  format: Format;
+};
+
+const USAGE = `usage:
+  illusio simulate <url | query> [--block <n>] [--chain <id>] [--backend <url>] [--format tree|json|junit]
+  illusio bundle   <url | query> [--block <n>] [--chain <id>] [--backend <url>] [--format tree|json|junit]
+  illusio simulate|bundle --scenario <projects.json> [--project <name or id>] [--title <title>] [...]
+  illusio trace <txHash> [--chain <id>] [--backend <url>] [--format tree|json|junit]
+  illusio suite <projects.json> [--project <name or id>] [--title <title>] [...]`;
+
+function usage(message?: string): never {
+  if (message) console.error(message);
+  console.error(USAGE);
+  process.exit(2);
+}
+
+type ValueOption = "scenario" | "project" | "title" | "block" | "chain" | "backend" | "format";
+
+const VALUE_OPTIONS = new Map<string, ValueOption>(
+  (["scenario", "project", "title", "block", "chain", "backend", "format"] as const).map((k) => [`--${k}`, k])
+);
+
+function parseArgs(argv: string[]): Options {
+  const [command, ...rest] = argv;
+  if (command !== "simulate" && command !== "bundle" && command !== "trace" && command !== "suite") {
+    usage(command ? `unknown command ${command}` : undefined);
+  }
+  const opts: Options = { command, format: "tree" };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    const key = VALUE_OPTIONS.get(arg);
+    if (key) {
+      const value = rest[++i];
+      if (!value) usage(`${arg} needs a value`);
+      if (key === "format") opts.format = value as Format;
+      else opts[key] = value;
+    } else if (arg.startsWith("--")) usage(`unknown option ${arg}`);
+    else if (!opts.input) opts.input = arg;
+    else usage(`unexpected argument ${arg}`);
+  }
+
+  if (opts.command === "suite") {
+    if (!opts.input || opts.scenario) usage("suite takes the projects file as its argument");
+    [opts.scenario, opts.input] = [opts.input, undefined];
+  }
+  if (!["tree", "json", "junit"].includes(opts.format)) usage(`unknown format ${opts.format}`);
+  if (opts.block !== undefined && !/^\d+$/.test(opts.block)) usage("--block must be a block number");
+  if (opts.chain !== undefined && !findChain(opts.chain)) usage(`unknown chain ${opts.chain}`);
+  if (opts.command === "trace") {
+    if (!opts.input || !/^0x[0-9a-fA-F]{64}$/.test(opts.input)) usage("trace needs a transaction hash");
+    if (opts.scenario || opts.block) usage("--scenario and --block do not apply to trace");
+  } else if (!!opts.input === !!opts.scenario) {
+    usage("pass either a URL / query string or --scenario");
+  }
+  if ((opts.project || opts.title) && !opts.scenario) usage("--project and --title need --scenario");
+  return opts;
+}
+
+/* ----------------------------- Inputs ----------------------------- */
+/** Query string of a UI link, a "?a=b" string or a bare "a=b" string; share fragments are expanded */
+async function queryFromInput(input: string, kind: ScenarioKind): Promise<string> {
+  let search = input;
+  let hash = "";
+  if (/^https?:\/\//i.test(input)) {
+    const url = new URL(input);
+    search = url.search;
+    hash = url.hash;
+  } else if (input.includes("#")) {
+    [search, hash] = [input.slice(0, input.indexOf("#")), input.slice(input.indexOf("#"))];
+  }
+  const payload = hash ? await decodeShareFragment(hash, kind) : null;
+  return payload ? sharePayloadToQuery(payload) : search.replace(/^\?/, "");
+}
+
+/** Runs without assertions still fail the command when they revert */
+const withDefaultAssertion = (s: Scenario): Scenario =>
+  s.assertions.length ? s : { ...s, assertions: [{ type: "status", expect: "success" }] };
+
+function adhocScenario(kind: ScenarioKind, query: string, title: string): Scenario {
+  const now = Date.now();
+  return {
+    id: "cli",
+    kind,
+    title,
+    notes: "",
+    tags: [],
+    blockPolicy: blockPolicyFromQuery(query),
+    query,
+    assertions: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Scenarios of the --scenario file, of one kind or (suite) all of them */
+function loadScenarios(opts: Options, kind?: ScenarioKind): { project: Project; scenarios: Scenario[] }[] {
+  let projects: Project[];
+  try {
+    projects = parseProjectsFile(JSON.parse(readFileSync(opts.scenario!, "utf8")));
+  } catch (e: any) {
+    usage(`${opts.scenario}: ${e?.message || e}`);
+  }
+  if (opts.project) projects = projects.filter((p) => p.id === opts.project || p.name === opts.project);
+  const selected = projects
+    .map((project) => ({
+      project,
+      scenarios: project.scenarios.filter((s) => (!kind || s.kind === kind) && (!opts.title || s.title === opts.title)),
+    }))
+    .filter((p) => p.scenarios.length);
+  if (!selected.length) usage(`no ${kind ? `${kind} ` : ""}scenario matches in ${opts.scenario}`);
+  return selected;
+}
+
+/* ----------------------------- Running ----------------------------- */
+async function runTrace(hash: string, client: BackendClient, chain: ChainConfig): Promise<ScenarioReport> {
+  const started = Date.now();
+  const scenario = withDefaultAssertion(adhocScenario("simulate", withChain("", chain.id), `trace ${hash}`));
+  try {
+    const response = await withResponseProxies(await client.traceTransaction(hash), chain, { providers: CLI_PROVIDERS });
+    const results = await evaluateAssertions(scenario.assertions, response);
+    const status: ScenarioStatus = results.every((r) => r.pass) ? "pass" : "fail";
+    return { scenario, status, results, response, durationMs: Date.now() - started };
+  } catch (e: any) {
+    return { scenario, status: "error", results: [], error: e?.message || String(e), durationMs: Date.now() - started };
+  }
+}
+
+/* ----------------------------- Output ----------------------------- */
+type DecodedTx = { trace: DecodedNode | null; events: SimulationEvent[]; contracts: SimulationResult["contracts"] };
+
+async function decodeResponse(report: ScenarioReport): Promise<DecodedTx[]> {
+  if (!report.response) return [];
+  // proxies were already applied by the runner
+  const txs: SimulationResult[] = "results" in report.response ? report.response.results : [report.response];
+  return Promise.all(
+    txs.map(async (tx) => ({
+      trace: await decodeSimulationTrace(tx),
+      events: decodeSimulationEvents(tx.transaction.events ?? [], tx.contracts),
+      contracts: tx.contracts,
+    }))
+  );
+}
+
+const short = (addr?: string) => (addr && addr.length > 12 ? `${addr.slice(0, 6)}…${addr.slice(-4)}` : addr ?? "");
+
+// long byte strings (nested calldata, callback data) are abbreviated to keep one line per call
+const compact = (v: unknown) =>
+  JSON.stringify(v, (_k, x) => {
+    if (typeof x === "bigint") return x.toString();
+    if (typeof x === "string" && /^0x[0-9a-fA-F]{66,}$/.test(x)) return `${x.slice(0, 10)}…(${(x.length - 2) / 2} bytes)`;
+    return x;
+  }) ?? "";
+
+function callLine(node: DecodedNode, contracts: SimulationResult["contracts"]): string {
+  const to = (node.to ?? "").toLowerCase();
+  const record = contracts[to] ?? Object.values(contracts).find((c) => c.address?.toLowerCase() === to);
+  const name = record?.ContractName || short(node.to);
+  const fn = node.functionName || node.functionSelector || "fallback";
+  const args = Array.isArray(node.inputDecoded) ? node.inputDecoded.map(compact).join(", ") : "";
+  const out = node.outputDecoded !== undefined && node.outputDecoded !== null ? ` → ${compact(node.outputDecoded)}` : "";
+  const gas = node.gasUsed ? ` [${node.gasUsed} gas]` : "";
+  const revert = node.error ? `  ✗ ${node.revertDecoded?.message || node.revertReason || node.error}` : "";
+  return `${node.type ?? "CALL"} ${name}.${fn}(${args})${out}${gas}${revert}`;
+}
+
+function treeLines(node: DecodedNode, contracts: SimulationResult["contracts"], prefix = "", last = true, root = true): string[] {
+  const lines = [`${prefix}${root ? "" : last ? "└─ " : "├─ "}${callLine(node, contracts)}`];
+  const childPrefix = root ? prefix : `${prefix}${last ? "   " : "│  "}`;
+  const children = node.children ?? [];
+  children.forEach((c, i) => lines.push(...treeLines(c, contracts, childPrefix, i === children.length - 1, false)));
+  return lines;
+}
+
+async function formatTree(suites: SuiteReport[]): Promise<string> {
+  const blocks: string[] = [];
+  for (const suite of suites) {
+    for (const report of suite.scenarios) {
+      const decoded = await decodeResponse(report);
+      decoded.forEach((tx, i) => {
+        const lines = [decoded.length > 1 ? `${report.scenario.title} — tx #${i + 1}` : report.scenario.title];
+        if (tx.trace) lines.push(...treeLines(tx.trace, tx.contracts, "  "));
+        if (tx.events.length) {
+          lines.push("  events:");
+          for (const { decoded: ev } of tx.events) {
+            const args = ev.argNames.map((n, j) => `${n || j}=${compact(ev.argValues[j])}`).join(", ");
+            lines.push(`    ${short(ev.address)} ${ev.name}(${args})${ev.guessed ? " (guessed)" : ""}`);
+          }
+        }
+        blocks.push(lines.join("\n"));
+      });
+    }
+    blocks.push(formatSuiteReport(suite));
+  }
+  return blocks.join("\n\n");
+}
+
+async function formatJson(suites: SuiteReport[]): Promise<string> {
+  const out = [];
+  for (const suite of suites) {
+    const scenarios = [];
+    for (const { response, ...rest } of suite.scenarios) {
+      const decoded = await decodeResponse({ ...rest, response });
+      const transactions = decoded.map((d) => ({ trace: d.trace, events: d.events.map((e) => e.decoded) }));
+      scenarios.push({ ...rest, transactions });
+    }
+    out.push({ ...suite, scenarios });
+  }
+  return JSON.stringify(out, (_k, v) => (typeof v === "bigint" ? v.toString() : v), 2);
+}
+
+/* ----------------------------- Main ----------------------------- */
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  // without --backend every scenario goes to the backend of its own chain
+  const client = opts.backend ? createHttpBackendClient({ baseUrl: opts.backend }) : undefined;
+  const startedAt = Date.now();
+  const suites: SuiteReport[] = [];
+
+  if (opts.command === "trace") {
+    const chain = getChain(opts.chain);
+    const backend = client ?? getBackendClient(chain);
+    suites.push(suiteReport({ id: "cli", name: "trace" }, startedAt, [await runTrace(opts.input!, backend, chain)]));
+  } else {
+    let groups: { project: Pick<Project, "id" | "name">; scenarios: Scenario[] }[];
+    if (opts.scenario) {
+      groups = loadScenarios(opts, opts.command === "suite" ? undefined : opts.command);
+    } else {
+      const kind = opts.command as ScenarioKind; // suite always has a projects file
+      let query: string;
+      try {
+        query = await queryFromInput(opts.input!, kind);
+      } catch (e: any) {
+        usage(e?.message || String(e));
+      }
+      groups = [{ project: { id: "cli", name: kind }, scenarios: [adhocScenario(kind, query, kind)] }];
+    }
+
+    for (const { project, scenarios } of groups) {
+      const started = Date.now();
+      const reports: ScenarioReport[] = [];
+      for (const s of scenarios) {
+        let scenario = withDefaultAssertion(
+          opts.block ? { ...s, blockPolicy: { mode: "fixed", block: opts.block } } : s
+        );
+        if (opts.chain) scenario = { ...scenario, query: withChain(scenario.query, Number(opts.chain)) };
+        if (opts.format !== "json") console.error(`running ${scenario.title}...`);
+        reports.push(await runScenario(scenario, { client, providers: CLI_PROVIDERS }));
+      }
+      suites.push(suiteReport(project, started, reports));
+    }
+  }
+
+  const render: Record<Format, (s: SuiteReport[]) => string | Promise<string>> = {
+    tree: formatTree,
+    json: formatJson,
+    junit: formatJUnitReport,
+  };
+  console.log(await render[opts.format](suites));
+  process.exit(suites.every(suitePassed) ? 0 : 1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -1 +0,0 @@
-export const EXPLORER_URL = "https://hyperevmscan.io"
\ No newline at end of file
@@ -3,7 +3,9 @@
  * Ethers v6
  */
 
-import { Interface, getAddress } from "ethers";
+import { Interface, FunctionFragment, getAddress } from "ethers";
+import { SignatureRegistry, guessFunction } from "@/lib/signatures";
+import { DecodedRevert, decodeRevertData } from "@/lib/revert";
 
 /* ----------------------------- Types ----------------------------- */
 export type RawCall = {
@@ -32,6 +34,8 @@ export type DecodedNode = {
   functionName?: string; // e.g., transfer
   signature?: string; // e.g., transfer(address,uint256)
   type?: string;
+  signatureGuessed?: boolean;    // decoded from the signature registry, not a verified ABI
+  signatureCandidates?: string[]; // all registry signatures sharing the selector
 
   // decoded I/O
   inputRaw?: string;
@@ -42,6 +46,21 @@ export type DecodedNode = {
   children?: DecodedNode[];
   error?: string;
   revertReason?: string;
+  revertDecoded?: DecodedRevert; // failing frames only: output decoded as Error / Panic / custom error
+};
+
+/** Result of decoding one call's calldata / returndata */
+export type DecodedCall = {
+  functionSelector?: string;
+  functionName?: string;
+  signature?: string;
+  fragment?: FunctionFragment; // matched fragment (overload-exact), for callers that format params themselves
+  args?: any[];                // raw ethers values (bigint, nested Result for tuples/arrays)
+  outputs?: any[];
+  inputDecoded?: any;          // JSON-safe copies of args / outputs
+  outputDecoded?: any;
+  guessed?: boolean;           // matched a signature-registry entry rather than an ABI
+  candidates?: string[];
 };
 
 export type LocalContractRecord = {
@@ -75,7 +94,10 @@ export class TraceDecoderManual {
   private ifaceCacheByAddr = new Map<string, Interface>();   // normalized address -> iface (proxy-aware resolution)
   private ifacePool: Interface[] = [];                        // every ABI we could build, for selector fallback
 
-  constructor(private contracts: Record<string, LocalContractRecord>) {
+  constructor(
+    private contracts: Record<string, LocalContractRecord>,
+    private registry?: SignatureRegistry // defaults to the app-wide registry, read at decode time
+  ) {
     // Prebuild a pool of interfaces from every ABI we can parse
     for (const [_addr, rec] of Object.entries(contracts)) {
       const abi = this.parseAbi(rec?.ABI);
@@ -164,39 +186,25 @@ export class TraceDecoderManual {
     return null;
   }
 
-  private decodeOutputs(iface: Interface, parsedName: string, rawOut?: string): any | undefined {
+  private decodeOutputs(iface: Interface, fragment: FunctionFragment, rawOut?: string): any[] | undefined {
     if (!rawOut || rawOut === "0x") return undefined;
     try {
-      const fn = iface.getFunction(parsedName);
-      if (!fn) return undefined;
-      const decoded = iface.decodeFunctionResult(fn, rawOut);
-      return jsonSafe(decoded);
+      // decode against the matched fragment: looking it up by name is ambiguous for overloads
+      return iface.decodeFunctionResult(fragment, rawOut);
     } catch {
       return undefined;
     }
   }
 
-  private async decodeFrame(node: RawCall): Promise<DecodedNode> {
-    const out: DecodedNode = {
-      from: node.from,
-      to: node.to,
-      gas: toDecString(node.gas),
-      gasUsed: toDecString(node.gasUsed),
-      value: toDecString(node.value),
-      type: node.type,
-      error: node.error,
-      revertReason: node?.revertReason,
-      inputRaw: node.input ?? "0x",
-      outputRaw: node.output ?? "0x",
-    };
-
-    const data = (node.input ?? "0x").toLowerCase();
-    if (data && data !== "0x" && data.length >= 10) {
-      out.functionSelector = "0x" + data.slice(2, 10);
-    }
+  /** Decode a single call against the target's (proxy-aware) ABI, then every known ABI by selector */
+  decodeCall(call: { to: string; input?: string; output?: string }): DecodedCall {
+    const out: DecodedCall = {};
+    const data = (call.input ?? "0x").toLowerCase();
+    if (data.length < 10) return out;
+    out.functionSelector = data.slice(0, 10);
 
     // 1) Try proxy-aware interface for the "to" address
-    let iface = this.resolveInterface(out.to);
+    let iface = this.resolveInterface(call.to);
     let parsed: ReturnType<Interface["parseTransaction"]> | null = null;
 
     if (iface) {
@@ -220,15 +228,77 @@ export class TraceDecoderManual {
     if (parsed && iface) {
       out.functionName = parsed.name;
       out.signature = parsed.signature;
-      out.inputDecoded = jsonSafe(parsed.args);
+      out.fragment = parsed.fragment;
+      out.args = Array.from(parsed.args);
+      out.inputDecoded = jsonSafe(out.args);
+
+      const outputs = this.decodeOutputs(iface, parsed.fragment, call.output);
+      if (outputs !== undefined) {
+        out.outputs = Array.from(outputs);
+        out.outputDecoded = jsonSafe(out.outputs);
+      }
+      return out;
+    }
+
+    // 4) Unverified target: guess from the signature registry (text signatures carry no outputs)
+    const guess = guessFunction(data, this.registry);
+    if (guess) {
+      out.functionName = guess.fragment.name;
+      out.signature = guess.signature;
+      out.fragment = guess.fragment;
+      out.args = guess.args;
+      out.inputDecoded = jsonSafe(guess.args);
+      out.guessed = true;
+      out.candidates = guess.candidates;
+    }
+    return out;
+  }
+
+  /** Revert data of a failing frame, against the frame's own ABI first, then every other ABI */
+  decodeRevert(node: Pick<RawCall, "to" | "output" | "error" | "revertReason">): DecodedRevert {
+    const own = this.resolveInterface(node.to);
+    const interfaces = own ? [own, ...this.ifacePool.filter((i) => i !== own)] : this.ifacePool;
+    const decoded = decodeRevertData(node.output, interfaces, this.registry);
+    if (decoded.kind === "empty" && (node.revertReason || node.error)) {
+      decoded.message = node.revertReason || node.error!;
+    }
+    return decoded;
+  }
+
+  private async decodeFrame(node: RawCall): Promise<DecodedNode> {
+    const out: DecodedNode = {
+      from: node.from,
+      to: node.to,
+      gas: toDecString(node.gas),
+      gasUsed: toDecString(node.gasUsed),
+      value: toDecString(node.value),
+      type: node.type,
+      error: node.error,
+      revertReason: node?.revertReason,
+      inputRaw: node.input ?? "0x",
+      outputRaw: node.output ?? "0x",
+    };
 
-      const outDecoded = this.decodeOutputs(iface, parsed.name, node.output);
-      if (outDecoded !== undefined) {
-        out.outputDecoded = outDecoded;
+    const call = this.decodeCall(node);
+    out.functionSelector = call.functionSelector;
+    if (call.functionName) {
+      out.functionName = call.functionName;
+      out.signature = call.signature;
+      out.inputDecoded = call.inputDecoded;
+      if (call.outputDecoded !== undefined) {
+        out.outputDecoded = call.outputDecoded;
+      }
+      if (call.guessed) {
+        out.signatureGuessed = true;
+        out.signatureCandidates = call.candidates;
       }
     }
 
-    // 4) Recurse children
+    if (node.error) {
+      out.revertDecoded = this.decodeRevert(node);
+    }
+
+    // Recurse children
     if (Array.isArray(node.calls) && node.calls.length) {
       out.children = [];
       for (const c of node.calls) {